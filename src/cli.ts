@@ -1,19 +1,121 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander'
+import { Command, InvalidArgumentError } from 'commander'
 import chalk from 'chalk'
 import { readFileSync } from 'fs'
 import { join, resolve } from 'path'
-import { UpgradeRunner } from './index'
-import { checkForUpdateAsync } from './services'
-import { loadProjectConfig } from './config'
-import { PackageManager } from './types'
+import { UpgradeRunner, CheckRunner, CacheRunner, RollbackManager } from './index'
+import { COMMIT_GROUP_BY } from './core'
+import { checkForUpdateAsync, isRegistrySelection, packageCache } from './services'
+import { PackageManagerDetector } from './services/package-manager-detector'
+import { loadProjectConfig, RANGE_STRATEGIES } from './config'
+import {
+  CommitGroupBy,
+  PackageManager,
+  RangeStrategy,
+  ReporterFormat,
+  UpgradeTarget,
+} from './types'
+import { REPORTER_FORMATS } from './reporters'
 import { enableDebugLogging } from './utils'
 
 const packageJson = JSON.parse(readFileSync(join(__dirname, '../package.json'), 'utf-8'))
 
 const program = new Command()
 
+/**
+ * Make the path of a file:<fixture.json> registry absolute, other registries are returned as-is
+ */
+function resolveRegistryFixture(registry: string, base: string): string {
+  return registry.startsWith('file:')
+    ? `file:${resolve(base, registry.slice('file:'.length))}`
+    : registry
+}
+
+/**
+ * Create a runner, reporting setup errors (e.g. a missing registry fixture) like run errors
+ */
+function createRunner<O, R>(Runner: new (options: O) => R, options: O): R {
+  try {
+    return new Runner(options)
+  } catch (error) {
+    console.error(chalk.red(`Error: ${error}`))
+    process.exit(1)
+  }
+}
+
+/**
+ * Resolve the directory, exclude, ignore, registry and cache options shared by all commands.
+ * CLI patterns are merged with the project config from .inuprc.
+ */
+function resolveScanOptions(options: any) {
+  const cwd = resolve(options.dir)
+  const debug = Boolean(options.debug || process.env.INUP_DEBUG === '1')
+
+  if (debug) {
+    enableDebugLogging()
+  }
+
+  // Load project config from .inuprc
+  const projectConfig = loadProjectConfig(cwd)
+
+  // Merge CLI exclude patterns with config
+  const cliExcludePatterns = options.exclude
+    ? options.exclude
+        .split(',')
+        .map((p: string) => p.trim())
+        .filter(Boolean)
+    : []
+  const excludePatterns = [...cliExcludePatterns, ...(projectConfig.exclude || [])]
+
+  // Merge CLI ignore patterns with config (CLI takes precedence / adds to config)
+  const cliIgnorePatterns = options.ignore
+    ? options.ignore
+        .split(',')
+        .map((p: string) => p.trim())
+        .filter(Boolean)
+    : []
+  const ignorePackages = [...new Set([...cliIgnorePatterns, ...(projectConfig.ignore || [])])]
+
+  // Registry provider (CLI takes precedence over config, --offline over both).
+  // Fixture paths resolve like advisory files: CLI from the shell, config from the project
+  const registry: string | undefined = options.offline
+    ? 'offline'
+    : options.registry
+      ? resolveRegistryFixture(options.registry, process.cwd())
+      : projectConfig.registry && resolveRegistryFixture(projectConfig.registry, cwd)
+  if (registry && !isRegistrySelection(registry)) {
+    console.error(chalk.red(`Invalid registry: ${registry}`))
+    console.error(
+      chalk.yellow('Valid options: jsdelivr, npm, offline, a registry URL, file:<fixture.json>')
+    )
+    process.exit(1)
+  }
+
+  // Ignore cached registry data for this run, fresh data is still cached
+  if (options.cache === false || options.refresh) {
+    packageCache.setBypass(true)
+  }
+
+  // OSV advisory file (CLI path relative to the shell, config path relative to the project)
+  const advisories: string | undefined = options.advisories
+    ? resolve(options.advisories)
+    : projectConfig.advisories && resolve(cwd, projectConfig.advisories)
+
+  return { cwd, projectConfig, excludePatterns, ignorePackages, registry, advisories, debug }
+}
+
+/**
+ * Parse a non-negative integer CLI argument
+ */
+function parseCount(value: string): number {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError('Expected a non-negative integer.')
+  }
+  return parsed
+}
+
 program
   .name('inup')
   .description('Interactive upgrade tool for package managers. Auto-detects and works with npm, yarn, pnpm, and bun.')
@@ -22,39 +124,30 @@ program
   .option('-e, --exclude <patterns>', 'exclude paths matching regex patterns (comma-separated)', '')
   .option('-i, --ignore <packages>', 'ignore packages (comma-separated, supports glob patterns like @babel/*)')
   .option('--package-manager <name>', 'manually specify package manager (npm, yarn, pnpm, bun)')
+  .option('--registry <name>', 'registry to check versions against (jsdelivr, npm, a URL or file:<fixture.json>)')
+  .option('--offline', 'use cached registry data only, however old, without network requests')
+  .option('--no-cache', 'ignore cached registry data for this run')
+  .option('--advisories <file>', 'read security advisories from an OSV JSON file instead of the registry')
+  .option('--respect-engines', "offer the newest versions whose engines.node accepts the project's Node version")
+  .option('--min-release-age <days>', 'only offer versions published at least this many days ago', parseCount)
+  .option('--refresh', 'refetch all registry data and update the cache (same as --no-cache)')
+  .option('-y, --yes', 'skip the interactive selector and apply upgrades non-interactively')
+  .option('-t, --target <level>', 'highest upgrade applied with --yes (patch, minor, latest)', 'minor')
+  .option('--dry-run', 'print a diff of the package.json changes without writing or installing')
+  .option('--patch-file <file>', 'write the dry-run diff to a patch file (implies --dry-run)')
+  .option('--lockfile-only', 'refresh the lockfile for in-range updates instead of bumping package.json')
+  .option('--commit [by]', `create one git commit per upgrade group (${COMMIT_GROUP_BY.join(', ')})`)
+  .option('--range-strategy <strategy>', `how upgraded specifiers are written (${RANGE_STRATEGIES.join(', ')})`)
   .option('--debug', 'write verbose debug log to /tmp/inup-debug-YYYY-MM-DD.log')
   .action(async (options) => {
     console.log(chalk.bold.blue(`🚀 `) + chalk.bold.red(`i`) + chalk.bold.yellow(`n`) + chalk.bold.blue(`u`) + chalk.bold.magenta(`p`) + `\n`)
 
-    // Check for updates in the background (non-blocking)
-    const updateCheckPromise = checkForUpdateAsync('inup', packageJson.version)
-
-    const cwd = resolve(options.dir)
+    const { cwd, projectConfig, excludePatterns, ignorePackages, registry, advisories, debug } =
+      resolveScanOptions(options)
 
-    if (options.debug || process.env.INUP_DEBUG === '1') {
-      enableDebugLogging()
-    }
-
-    // Load project config from .inuprc
-    const projectConfig = loadProjectConfig(cwd)
-
-    // Merge CLI exclude patterns with config
-    const cliExcludePatterns = options.exclude
-      ? options.exclude
-          .split(',')
-          .map((p: string) => p.trim())
-          .filter(Boolean)
-      : []
-    const excludePatterns = [...cliExcludePatterns, ...(projectConfig.exclude || [])]
-
-    // Merge CLI ignore patterns with config (CLI takes precedence / adds to config)
-    const cliIgnorePatterns = options.ignore
-      ? options.ignore
-          .split(',')
-          .map((p: string) => p.trim())
-          .filter(Boolean)
-      : []
-    const ignorePackages = [...new Set([...cliIgnorePatterns, ...(projectConfig.ignore || [])])]
+    // Check for updates in the background (non-blocking), never offline
+    const updateCheckPromise =
+      registry === 'offline' ? null : checkForUpdateAsync('inup', packageJson.version)
 
     // Validate package manager if provided
     let packageManager: PackageManager | undefined
@@ -68,12 +161,53 @@ program
       packageManager = options.packageManager as PackageManager
     }
 
-    const upgrader = new UpgradeRunner({
+    // Validate upgrade target
+    const validTargets = ['patch', 'minor', 'latest']
+    if (!validTargets.includes(options.target)) {
+      console.error(chalk.red(`Invalid target: ${options.target}`))
+      console.error(chalk.yellow(`Valid options: ${validTargets.join(', ')}`))
+      process.exit(1)
+    }
+
+    // Validate commit grouping (a bare --commit groups by package)
+    const commit = options.commit === true ? 'package' : options.commit
+    if (commit && !COMMIT_GROUP_BY.includes(commit)) {
+      console.error(chalk.red(`Invalid commit grouping: ${commit}`))
+      console.error(chalk.yellow(`Valid options: ${COMMIT_GROUP_BY.join(', ')}`))
+      process.exit(1)
+    }
+
+    // Validate range strategy, which replaces the one of .inuprc for every dependency
+    if (options.rangeStrategy && !RANGE_STRATEGIES.includes(options.rangeStrategy)) {
+      console.error(chalk.red(`Invalid range strategy: ${options.rangeStrategy}`))
+      console.error(chalk.yellow(`Valid options: ${RANGE_STRATEGIES.join(', ')}`))
+      process.exit(1)
+    }
+
+    const upgrader = createRunner(UpgradeRunner, {
       cwd,
       excludePatterns,
       ignorePackages,
+      channels: projectConfig.channels,
+      registry,
+      advisories,
+      respectEngines: options.respectEngines || projectConfig.respectEngines,
+      minReleaseAge: options.minReleaseAge ?? projectConfig.minReleaseAge,
+      pin: projectConfig.pin,
+      maxUpdate: projectConfig.maxUpdate,
+      groups: projectConfig.groups,
+      rangeStrategy: options.rangeStrategy
+        ? { default: options.rangeStrategy as RangeStrategy }
+        : projectConfig.rangeStrategy,
       packageManager,
-      debug: options.debug || process.env.INUP_DEBUG === '1',
+      debug,
+      yes: options.yes,
+      target: options.target as UpgradeTarget,
+      dryRun: Boolean(options.dryRun || options.patchFile),
+      patchFile: options.patchFile,
+      lockfileOnly: options.lockfileOnly,
+      verifyCommand: projectConfig.verify,
+      commit: commit as CommitGroupBy | undefined,
     })
     await upgrader.run()
 
@@ -109,6 +243,124 @@ program
     }
   })
 
+program
+  .command('check')
+  .description('report outdated packages and exit non-zero when a threshold is exceeded')
+  .option('--max-major <count>', 'allowed number of packages with a major update', parseCount)
+  .option('--max-minor <count>', 'allowed number of packages with a minor update', parseCount)
+  .option('--max-patch <count>', 'allowed number of packages with a patch update', parseCount)
+  .option('--exit-code <code>', 'exit code used when a threshold is exceeded', parseCount, 1)
+  .option('--reporter <format>', `machine-readable report format (${REPORTER_FORMATS.join(', ')})`)
+  .option('-o, --output <file>', 'write the report to a file instead of stdout')
+  .action(async (_options, command) => {
+    const options = command.optsWithGlobals()
+
+    if (options.reporter && !REPORTER_FORMATS.includes(options.reporter)) {
+      console.error(chalk.red(`Invalid reporter: ${options.reporter}`))
+      console.error(chalk.yellow(`Valid options: ${REPORTER_FORMATS.join(', ')}`))
+      process.exit(1)
+    }
+    if (options.output && !options.reporter) {
+      console.error(chalk.red('--output requires --reporter'))
+      process.exit(1)
+    }
+
+    const { cwd, projectConfig, excludePatterns, ignorePackages, registry, advisories, debug } =
+      resolveScanOptions(options)
+
+    const checker = createRunner(CheckRunner, {
+      cwd,
+      excludePatterns,
+      ignorePackages,
+      channels: projectConfig.channels,
+      registry,
+      advisories,
+      respectEngines: options.respectEngines || projectConfig.respectEngines,
+      minReleaseAge: options.minReleaseAge ?? projectConfig.minReleaseAge,
+      pin: projectConfig.pin,
+      maxUpdate: projectConfig.maxUpdate,
+      debug,
+      thresholds: {
+        major: options.maxMajor,
+        minor: options.maxMinor,
+        patch: options.maxPatch,
+      },
+      failExitCode: options.exitCode,
+      reporter: options.reporter as ReporterFormat | undefined,
+      outputFile: options.output,
+      toolVersion: packageJson.version,
+    })
+    process.exitCode = await checker.run()
+  })
+
+program
+  .command('rollback')
+  .description('restore package.json files and the lockfile saved before an unfinished upgrade')
+  .action((_options, command) => {
+    const { cwd } = resolveScanOptions(command.optsWithGlobals())
+    const rollback = new RollbackManager(cwd)
+    const snapshot = rollback.getSnapshot()
+
+    if (!snapshot) {
+      console.log(chalk.green(`✅ Nothing to roll back in ${cwd}`))
+      return
+    }
+
+    const restored = rollback.restore()
+    console.log(
+      chalk.yellow(
+        `↩️  Restored ${restored.length} file(s) from ${new Date(snapshot.timestamp).toLocaleString()}:`
+      )
+    )
+    restored.forEach((path) => console.log(chalk.gray(`  ${path}`)))
+    const { installCommand } = PackageManagerDetector.detect(cwd)
+    console.log(chalk.gray(`Run ${installCommand} to bring node_modules back in sync.`))
+  })
+
+const cache = program
+  .command('cache')
+  .description('inspect and maintain the registry cache')
+
+cache
+  .command('stats')
+  .description('show entry counts, disk size and hit rate of the cache')
+  .action(() => {
+    new CacheRunner().stats()
+  })
+
+cache
+  .command('clear')
+  .description('remove all cache entries, or the packages matching the given glob patterns')
+  .argument('[patterns...]', 'package names or glob patterns like @babel/*')
+  .action((patterns: string[]) => {
+    new CacheRunner().clear(patterns)
+  })
+
+cache
+  .command('prune')
+  .description('remove expired cache entries')
+  .action(() => {
+    new CacheRunner().prune()
+  })
+
+cache
+  .command('warm')
+  .description('fetch the versions of every dependency in the workspace into the cache')
+  .action(async (_options, command) => {
+    const { cwd, projectConfig, excludePatterns, ignorePackages, registry, debug } =
+      resolveScanOptions(command.optsWithGlobals())
+
+    const runner = new CacheRunner({
+      cwd,
+      excludePatterns,
+      ignorePackages,
+      channels: projectConfig.channels,
+      registry,
+      debug,
+    })
+    process.exitCode = await runner.warm()
+  })
+
 // Handle uncaught errors gracefully
 process.on('uncaughtException', (error) => {
   console.error(chalk.red('Uncaught Exception:'), error.message)
@@ -1,3 +1,5 @@
+import { RangeStrategy } from '../types'
+
 export const PACKAGE_NAME = 'inup'
 export const NPM_REGISTRY_URL = 'https://registry.npmjs.org'
 export const JSDELIVR_CDN_URL = 'https://cdn.jsdelivr.net/npm'
@@ -8,3 +10,29 @@ export const JSDELIVR_RETRY_TIMEOUTS = [2000, 3500] // short retry budget to kee
 export const JSDELIVR_RETRY_DELAYS = [150] // tiny backoff between jsDelivr retries in ms
 export const JSDELIVR_POOL_TIMEOUT = 60000 // keep-alive/connect lifecycle should be looser than per-request timeouts
 export const DEFAULT_REGISTRY: 'jsdelivr' | 'npm' = 'jsdelivr'
+export const GITHUB_API_URL = 'https://api.github.com'
+export const RANGE_STRATEGIES: RangeStrategy[] = ['preserve', 'caret', 'tilde', 'exact']
+export const CHANGELOG_FILES = ['CHANGELOG.md', 'changelog.md', 'HISTORY.md', 'History.md']
+
+// Built-in .inuprc `groups`: package families released together
+export const GROUP_PRESETS: Record<string, string[]> = {
+  angular: ['@angular/*', '@angular-devkit/*', '@schematics/angular'],
+  babel: ['@babel/*'],
+  eslint: [
+    'eslint',
+    '@eslint/*',
+    'eslint-config-*',
+    'eslint-plugin-*',
+    '@typescript-eslint/*',
+    'typescript-eslint',
+  ],
+  jest: ['jest', 'jest-*', '@jest/*', 'babel-jest'],
+  nestjs: ['@nestjs/*'],
+  nx: ['nx', '@nx/*'],
+  react: ['react', 'react-dom', '@types/react', '@types/react-dom'],
+  storybook: ['storybook', '@storybook/*'],
+  tanstack: ['@tanstack/*'],
+  types: ['@types/*'],
+  vitest: ['vitest', '@vitest/*'],
+  vue: ['vue', '@vue/*'],
+}
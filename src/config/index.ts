@@ -1,2 +1,4 @@
 export * from './constants'
 export * from './project-config'
+export * from './npmrc'
+export * from './node-version'
@@ -0,0 +1,46 @@
+import { existsSync, readFileSync } from 'fs'
+import { dirname, join } from 'path'
+import * as semver from 'semver'
+
+const NODE_VERSION_FILES = ['.nvmrc', '.node-version']
+
+/**
+ * Read a semver range, ignoring a leading v (v20.11.0) and aliases (lts/*, node)
+ */
+function toNodeRange(value: string): string | null {
+  const range = value.trim().replace(/^v(?=\d)/, '')
+  return range && semver.validRange(range) ? range : null
+}
+
+/**
+ * Node versions the project runs on, as a semver range: `engines.node` of its package.json,
+ * otherwise the version in .nvmrc or .node-version, searched from cwd up to the root
+ */
+export function loadProjectNodeRange(cwd: string): string | null {
+  const packageJsonPath = join(cwd, 'package.json')
+  if (existsSync(packageJsonPath)) {
+    try {
+      const engines = JSON.parse(readFileSync(packageJsonPath, 'utf-8')).engines
+      if (typeof engines?.node === 'string' && toNodeRange(engines.node)) {
+        return toNodeRange(engines.node)
+      }
+    } catch {
+      // Invalid package.json, fall back to the version files
+    }
+  }
+
+  let currentDir = cwd
+  while (true) {
+    for (const file of NODE_VERSION_FILES) {
+      const filePath = join(currentDir, file)
+      if (existsSync(filePath)) {
+        return toNodeRange(readFileSync(filePath, 'utf-8').split(/\r?\n/)[0])
+      }
+    }
+    const parentDir = dirname(currentDir)
+    if (parentDir === currentDir) {
+      return null
+    }
+    currentDir = parentDir
+  }
+}
@@ -0,0 +1,138 @@
+import { existsSync, readFileSync } from 'fs'
+import { homedir } from 'os'
+import { dirname, join } from 'path'
+import { NPM_REGISTRY_URL } from './constants'
+
+/**
+ * Registry settings read from .npmrc files
+ */
+export interface NpmrcConfig {
+  registry: string // Default registry, without trailing slash
+  scopes: Record<string, string> // @scope -> registry URL
+  authTokens: Record<string, string> // //host/path/ -> token
+}
+
+/**
+ * Replace ${VAR} references with environment variables, like npm does
+ */
+function expandEnv(value: string): string {
+  return value.replace(/\$\{([^}]+)\}/g, (_match, name: string) => process.env[name] ?? '')
+}
+
+/**
+ * Strip the trailing slash so package names can be appended with a single slash
+ */
+function normalizeRegistryUrl(url: string): string {
+  return url.replace(/\/+$/, '')
+}
+
+/**
+ * Parse the registry related entries of one .npmrc file.
+ * Supports `registry`, `@scope:registry` and `//host/path/:_authToken`.
+ */
+export function parseNpmrc(content: string): Partial<NpmrcConfig> {
+  const config: Partial<NpmrcConfig> = {}
+  const scopes: Record<string, string> = {}
+  const authTokens: Record<string, string> = {}
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue
+
+    const separator = line.indexOf('=')
+    if (separator === -1) continue
+    const key = line.slice(0, separator).trim()
+    const value = expandEnv(
+      line
+        .slice(separator + 1)
+        .trim()
+        .replace(/^(['"])(.*)\1$/, '$2')
+    )
+    if (!value) continue
+
+    if (key === 'registry') {
+      config.registry = normalizeRegistryUrl(value)
+    } else if (/^@[^:]+:registry$/.test(key)) {
+      scopes[key.slice(0, key.indexOf(':'))] = normalizeRegistryUrl(value)
+    } else if (key.startsWith('//') && key.endsWith(':_authToken')) {
+      const prefix = key.slice(0, -':_authToken'.length)
+      authTokens[prefix.endsWith('/') ? prefix : `${prefix}/`] = value
+    }
+  }
+
+  if (Object.keys(scopes).length > 0) config.scopes = scopes
+  if (Object.keys(authTokens).length > 0) config.authTokens = authTokens
+  return config
+}
+
+/**
+ * List the .npmrc files that apply to a directory, lowest priority first:
+ * the user config, then project files from the filesystem root down to cwd
+ */
+function findNpmrcFiles(cwd: string): string[] {
+  const projectFiles: string[] = []
+  let currentDir = cwd
+  while (true) {
+    projectFiles.unshift(join(currentDir, '.npmrc'))
+    const parentDir = dirname(currentDir)
+    if (parentDir === currentDir) break
+    currentDir = parentDir
+  }
+
+  const userConfig = process.env.NPM_CONFIG_USERCONFIG || join(homedir(), '.npmrc')
+  return [userConfig, ...projectFiles.filter((file) => file !== userConfig)].filter((file) =>
+    existsSync(file)
+  )
+}
+
+/**
+ * Load the registry settings from the user and project .npmrc files.
+ * Files closer to cwd override the ones above them.
+ */
+export function loadNpmrc(cwd: string): NpmrcConfig {
+  const config: NpmrcConfig = { registry: NPM_REGISTRY_URL, scopes: {}, authTokens: {} }
+
+  for (const file of findNpmrcFiles(cwd)) {
+    try {
+      const parsed = parseNpmrc(readFileSync(file, 'utf-8'))
+      if (parsed.registry) config.registry = parsed.registry
+      Object.assign(config.scopes, parsed.scopes)
+      Object.assign(config.authTokens, parsed.authTokens)
+    } catch {
+      // Unreadable .npmrc - npm would fail on it too, keep the defaults
+    }
+  }
+
+  return config
+}
+
+/**
+ * Get the registry a package resolves from, using its scope registry when configured
+ */
+export function getRegistryForPackage(config: NpmrcConfig, packageName: string): string {
+  if (packageName.startsWith('@')) {
+    const scope = packageName.split('/')[0]
+    if (config.scopes[scope]) {
+      return config.scopes[scope]
+    }
+  }
+  return config.registry
+}
+
+/**
+ * Get the auth token for a registry URL, matching the longest //host/path/ prefix
+ */
+export function getAuthToken(config: NpmrcConfig, registryUrl: string): string | undefined {
+  const target = `${registryUrl.replace(/^https?:/, '')}/`
+  const match = Object.keys(config.authTokens)
+    .filter((prefix) => target.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+  return match ? config.authTokens[match] : undefined
+}
+
+/**
+ * Whether a registry URL is the public npm registry (the only one mirrored by jsDelivr)
+ */
+export function isPublicRegistry(registryUrl: string): boolean {
+  return /^https?:\/\/registry\.(npmjs\.org|yarnpkg\.com)$/.test(normalizeRegistryUrl(registryUrl))
+}
@@ -1,5 +1,8 @@
 import { existsSync, readFileSync } from 'fs'
 import { join } from 'path'
+import * as semver from 'semver'
+import { PackageGroup, RangeStrategy, RangeStrategyConfig, UpdateLevel } from '../types'
+import { GROUP_PRESETS, RANGE_STRATEGIES } from './constants'
 
 /**
  * Project-level configuration loaded from .inuprc or .inuprc.json
@@ -15,8 +18,68 @@ export interface InupProjectConfig {
    * Exclude directory patterns (regex patterns)
    */
   exclude?: string[]
+
+  /**
+   * Command run after install to verify the upgrade (e.g., "pnpm test", "tsc --noEmit").
+   * When it fails, the upgrades that break it are found by bisecting and reverted.
+   */
+  verify?: string
+
+  /**
+   * Dist-tag to follow per package instead of latest (e.g., { "typescript": "next" })
+   */
+  channels?: Record<string, string>
+
+  /**
+   * Registry provider: jsdelivr (default), npm, a registry URL or file:<fixture.json>
+   */
+  registry?: string
+
+  /**
+   * OSV JSON file with the advisories to use instead of the registry (e.g., for offline runs)
+   */
+  advisories?: string
+
+  /**
+   * Offer the newest versions whose engines.node accepts the project's Node version
+   * (engines.node, .nvmrc or .node-version) instead of the latest ones
+   */
+  respectEngines?: boolean
+
+  /**
+   * Days a version must have been published before it is offered, so freshly published
+   * (possibly compromised) releases are never picked up
+   */
+  minReleaseAge?: number
+
+  /**
+   * Packages upgraded together, shown as one row in the selector. The file lists
+   * built-in preset names (e.g., "babel", "storybook") or { "name", "patterns" } objects,
+   * presets are resolved when the config is loaded.
+   */
+  groups?: PackageGroup[]
+
+  /**
+   * Range the versions of a package must stay in, by name or glob pattern
+   * (e.g., { "typescript": "~5.4" })
+   */
+  pin?: Record<string, string>
+
+  /**
+   * Largest bump offered for a package, by name or glob pattern (e.g., { "react": "minor" })
+   */
+  maxUpdate?: Record<string, UpdateLevel>
+
+  /**
+   * How upgraded specifiers are written: "preserve" (the default), "caret", "tilde" or "exact".
+   * The file can also set it per dependency type and workspace package, e.g.
+   * { "default": "caret", "types": { "dependencies": "exact" }, "workspaces": { "apps/*": "exact" } }
+   */
+  rangeStrategy?: RangeStrategyConfig
 }
 
+const UPDATE_LEVELS: UpdateLevel[] = ['major', 'minor', 'patch']
+
 const CONFIG_FILES = ['.inuprc', '.inuprc.json', 'inup.config.json']
 
 /**
@@ -68,9 +131,130 @@ function normalizeConfig(config: InupProjectConfig): InupProjectConfig {
     }
   }
 
+  if (typeof config.verify === 'string' && config.verify.trim()) {
+    normalized.verify = config.verify.trim()
+  }
+
+  if (typeof config.registry === 'string' && config.registry.trim()) {
+    normalized.registry = config.registry.trim()
+  }
+
+  if (typeof config.advisories === 'string' && config.advisories.trim()) {
+    normalized.advisories = config.advisories.trim()
+  }
+
+  if (typeof config.respectEngines === 'boolean') {
+    normalized.respectEngines = config.respectEngines
+  }
+
+  if (
+    typeof config.minReleaseAge === 'number' &&
+    Number.isFinite(config.minReleaseAge) &&
+    config.minReleaseAge > 0
+  ) {
+    normalized.minReleaseAge = config.minReleaseAge
+  }
+
+  if (config.channels && typeof config.channels === 'object' && !Array.isArray(config.channels)) {
+    const channels = Object.entries(config.channels).filter(
+      ([, tag]) => typeof tag === 'string' && tag.trim()
+    )
+    if (channels.length > 0) {
+      normalized.channels = Object.fromEntries(channels.map(([name, tag]) => [name, tag.trim()]))
+    }
+  }
+
+  if (config.pin && typeof config.pin === 'object' && !Array.isArray(config.pin)) {
+    const pins = Object.entries(config.pin).filter(
+      ([, range]) => typeof range === 'string' && semver.validRange(range)
+    )
+    if (pins.length > 0) {
+      normalized.pin = Object.fromEntries(pins.map(([name, range]) => [name, range.trim()]))
+    }
+  }
+
+  if (
+    config.maxUpdate &&
+    typeof config.maxUpdate === 'object' &&
+    !Array.isArray(config.maxUpdate)
+  ) {
+    const limits = Object.entries(config.maxUpdate).filter(([, level]) =>
+      UPDATE_LEVELS.includes(level)
+    )
+    if (limits.length > 0) {
+      normalized.maxUpdate = Object.fromEntries(limits)
+    }
+  }
+
+  const rangeStrategy = normalizeRangeStrategy(config.rangeStrategy)
+  if (rangeStrategy) {
+    normalized.rangeStrategy = rangeStrategy
+  }
+
+  if (Array.isArray(config.groups)) {
+    const groups = (config.groups as unknown[]).flatMap((group) => normalizeGroup(group))
+    if (groups.length > 0) {
+      normalized.groups = groups
+    }
+  }
+
   return normalized
 }
 
+/**
+ * Accept a strategy name as the default, or an object with valid strategies only
+ */
+function normalizeRangeStrategy(value: unknown): RangeStrategyConfig | undefined {
+  const isStrategy = (strategy: unknown): strategy is RangeStrategy =>
+    RANGE_STRATEGIES.includes(strategy as RangeStrategy)
+  const pickStrategies = (map: unknown) =>
+    map && typeof map === 'object' && !Array.isArray(map)
+      ? Object.fromEntries(Object.entries(map).filter(([, strategy]) => isStrategy(strategy)))
+      : {}
+
+  if (isStrategy(value)) {
+    return { default: value }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined
+  }
+
+  const { default: defaultStrategy, types, workspaces } = value as Record<string, unknown>
+  const normalized: RangeStrategyConfig = {}
+  const typeStrategies = pickStrategies(types)
+  const workspaceStrategies = pickStrategies(workspaces)
+  if (isStrategy(defaultStrategy)) {
+    normalized.default = defaultStrategy
+  }
+  if (Object.keys(typeStrategies).length > 0) {
+    normalized.types = typeStrategies
+  }
+  if (Object.keys(workspaceStrategies).length > 0) {
+    normalized.workspaces = workspaceStrategies
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined
+}
+
+/**
+ * Resolve a group preset name, or keep a group with a name and at least one pattern
+ */
+function normalizeGroup(group: unknown): PackageGroup[] {
+  if (typeof group === 'string') {
+    if (!GROUP_PRESETS[group]) {
+      console.warn(`Warning: Unknown group preset "${group}"`)
+      return []
+    }
+    return [{ name: group, patterns: GROUP_PRESETS[group] }]
+  }
+
+  const { name, patterns } = (group || {}) as Partial<PackageGroup>
+  if (typeof name !== 'string' || !name.trim() || !Array.isArray(patterns)) {
+    return []
+  }
+  const validPatterns = patterns.filter((pattern) => typeof pattern === 'string')
+  return validPatterns.length > 0 ? [{ name: name.trim(), patterns: validPatterns }] : []
+}
+
 /**
  * Check if a package name matches any of the ignore patterns
  * Supports exact matches and glob patterns (* and ?)
@@ -84,6 +268,30 @@ export function isPackageIgnored(packageName: string, ignorePatterns: string[]):
   return false
 }
 
+/**
+ * Setting of a package in a name or pattern keyed map (`pin`, `maxUpdate`),
+ * an exact name taking precedence over patterns
+ */
+export function getPackageSetting<T>(
+  packageName: string,
+  settings: Record<string, T> = {}
+): T | undefined {
+  if (Object.prototype.hasOwnProperty.call(settings, packageName)) {
+    return settings[packageName]
+  }
+  const pattern = Object.keys(settings).find((key) => matchesPattern(packageName, key))
+  return pattern !== undefined ? settings[pattern] : undefined
+}
+
+/**
+ * Name of the first group with a pattern matching the package, if any
+ */
+export function getPackageGroup(packageName: string, groups: PackageGroup[]): string | undefined {
+  return groups.find((group) =>
+    group.patterns.some((pattern) => matchesPattern(packageName, pattern))
+  )?.name
+}
+
 /**
  * Match a package name against a pattern
  * Supports:
@@ -92,7 +300,7 @@ export function isPackageIgnored(packageName: string, ignorePatterns: string[]):
  * - Single char wildcard: "?" matches single character
  * - Scoped packages: "@babel/*" matches all @babel packages
  */
-function matchesPattern(name: string, pattern: string): boolean {
+export function matchesPattern(name: string, pattern: string): boolean {
   // Exact match
   if (pattern === name) {
     return true
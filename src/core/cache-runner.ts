@@ -0,0 +1,101 @@
+import chalk from 'chalk'
+import { PackageDetector } from './package-detector'
+import { UpgradeOptions } from '../types'
+import { persistentCache } from '../services'
+import { matchesPattern } from '../config'
+import { ConsoleUtils } from '../ui'
+
+/**
+ * Format a byte count for display
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Registry cache maintenance (`inup cache stats|clear|prune|warm`)
+ */
+export class CacheRunner {
+  private options: UpgradeOptions
+
+  constructor(options: UpgradeOptions = {}) {
+    this.options = options
+  }
+
+  /**
+   * Print entry counts, disk size and hit rate of the disk cache
+   */
+  public stats(): void {
+    const stats = persistentCache.getStats()
+    const lookups = stats.hits + stats.misses
+    const hitRate = lookups > 0 ? `${Math.round((stats.hits / lookups) * 100)}%` : '-'
+
+    console.log(chalk.bold(`📦 Registry cache ${chalk.gray(stats.cacheDir)}`))
+    console.log(`  Entries:   ${stats.entries} (${stats.expired} expired)`)
+    console.log(`  Disk size: ${formatSize(stats.sizeBytes)}`)
+    console.log(`  Hit rate:  ${hitRate} (${stats.hits} hits, ${stats.misses} misses)`)
+  }
+
+  /**
+   * Remove every entry, or only the packages matching one of the glob patterns.
+   * Returns the number of entries removed.
+   */
+  public clear(patterns: string[] = []): number {
+    let removed: number
+    if (patterns.length === 0) {
+      removed = persistentCache.getStats().entries
+      persistentCache.clearCache()
+    } else {
+      const names = persistentCache
+        .keys()
+        .filter((name) => patterns.some((pattern) => matchesPattern(name, pattern)))
+      names.forEach((name) => persistentCache.delete(name))
+      removed = names.length
+    }
+    persistentCache.flush()
+
+    console.log(chalk.green(`🧹 Removed ${removed} cache entr${removed === 1 ? 'y' : 'ies'}`))
+    return removed
+  }
+
+  /**
+   * Remove the expired entries. Returns the number of entries removed.
+   */
+  public prune(): number {
+    const removed = persistentCache.prune()
+    persistentCache.flush()
+
+    console.log(
+      chalk.green(`🧹 Pruned ${removed} expired cache entr${removed === 1 ? 'y' : 'ies'}`)
+    )
+    return removed
+  }
+
+  /**
+   * Fetch the versions of every dependency in the workspace into the cache.
+   * Returns the process exit code.
+   */
+  public async warm(): Promise<number> {
+    if (this.options.registry === 'offline') {
+      console.error(chalk.red('Error: the cache cannot be warmed offline'))
+      return 1
+    }
+
+    try {
+      const { resolved, total } = await new PackageDetector(this.options).warmCache()
+      ConsoleUtils.clearProgress()
+      console.log(chalk.green(`🔥 Cached versions of ${resolved}/${total} package(s)`))
+      return 0
+    } catch (error) {
+      ConsoleUtils.clearProgress()
+      console.error(chalk.red(`Error: ${error}`))
+      return 1
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import chalk from 'chalk'
+import { writeFileSync } from 'fs'
+import { resolve } from 'path'
+import { PackageDetector } from './package-detector'
+import { countUpdateLevels, UPDATE_LEVELS } from './upgrade-policy'
+import { CheckOptions, CheckThresholds, PackageInfo, UpdateLevel } from '../types'
+import { UIRenderer, ConsoleUtils } from '../ui'
+import { formatReport } from '../reporters'
+
+/**
+ * Find the update levels whose count exceeds the configured threshold.
+ * Without any threshold, every outdated package counts as a violation.
+ */
+export function findThresholdViolations(
+  counts: Record<UpdateLevel, number>,
+  thresholds: CheckThresholds = {}
+): UpdateLevel[] {
+  const hasThresholds = UPDATE_LEVELS.some((level) => thresholds[level] !== undefined)
+
+  return UPDATE_LEVELS.filter((level) => {
+    const limit = hasThresholds ? thresholds[level] : 0
+    return limit !== undefined && counts[level] > limit
+  })
+}
+
+/**
+ * Read-only outdated check for CI gates (`inup check`)
+ */
+export class CheckRunner {
+  private detector: PackageDetector
+  private renderer: UIRenderer
+  private options: CheckOptions
+
+  constructor(options: CheckOptions = {}) {
+    this.options = options
+    this.detector = new PackageDetector(options)
+    this.renderer = new UIRenderer()
+  }
+
+  /**
+   * Run the check and return the process exit code
+   */
+  public async run(): Promise<number> {
+    const { reporter, outputFile } = this.options
+    // A report on stdout must not be mixed with progress or summary output
+    const reportToStdout = Boolean(reporter && !outputFile)
+    const log = reportToStdout ? console.error : console.log
+    ConsoleUtils.silent = reportToStdout
+
+    try {
+      if (!this.detector.hasPackageJson()) {
+        throw new Error('No package.json found in current directory')
+      }
+
+      const packages = await this.detector.getOutdatedPackages()
+      ConsoleUtils.clearProgress()
+
+      if (reporter) {
+        const report = formatReport(reporter, packages, {
+          cwd: this.options.cwd || process.cwd(),
+          toolVersion: this.options.toolVersion,
+        })
+        if (outputFile) {
+          writeFileSync(resolve(outputFile), report.endsWith('\n') ? report : report + '\n')
+        } else {
+          process.stdout.write(report.endsWith('\n') ? report : report + '\n')
+        }
+      }
+
+      if (!reportToStdout) {
+        console.log(this.renderer.renderPackagesTable(packages, true))
+        if (outputFile) {
+          console.log(chalk.gray(`\n${reporter} report written to ${outputFile}`))
+        }
+      }
+
+      const counts = countUpdateLevels(packages)
+      const violations = findThresholdViolations(counts, this.options.thresholds)
+
+      log('')
+      log(
+        `${chalk.red(counts.major.toString())} major, ${chalk.yellow(counts.minor.toString())} minor, ${chalk.green(counts.patch.toString())} patch update(s) available`
+      )
+
+      if (violations.length === 0) {
+        return 0
+      }
+
+      for (const level of violations) {
+        const limit = this.options.thresholds?.[level] ?? 0
+        log(chalk.red(`✖ ${counts[level]} package(s) with a ${level} update (allowed: ${limit})`))
+      }
+      return this.options.failExitCode ?? 1
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`))
+      return 1
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { relative, dirname, sep } from 'path'
+import { CommitGroupBy, PackageInfo, PackageUpgradeChoice } from '../types'
+import { isChoiceFor } from '../utils'
+
+export const COMMIT_GROUP_BY: CommitGroupBy[] = ['package', 'file', 'type']
+
+/**
+ * Upgrade choices that end up in one git commit
+ */
+export interface CommitUnit {
+  message: string
+  choices: PackageUpgradeChoice[]
+}
+
+/**
+ * Describe one bump, merging specifiers when a package changes in several files
+ */
+function describeBump(name: string, choices: PackageUpgradeChoice[]): string {
+  const from = Array.from(new Set(choices.map((choice) => choice.currentVersionSpecifier)))
+  const to = Array.from(new Set(choices.map((choice) => choice.targetVersion)))
+  return `bump ${name} from ${from.join(', ')} to ${to.join(', ')}`
+}
+
+/**
+ * Build a conventional commit message, using the deps-dev scope when only devDependencies change
+ */
+function buildMessage(
+  choices: PackageUpgradeChoice[],
+  types: Map<PackageUpgradeChoice, PackageInfo['type']>,
+  location?: string
+): string {
+  const scope = choices.every((choice) => types.get(choice) === 'devDependencies')
+    ? 'deps-dev'
+    : 'deps'
+
+  const byName = new Map<string, PackageUpgradeChoice[]>()
+  choices.forEach((choice) => byName.set(choice.name, [...(byName.get(choice.name) || []), choice]))
+  const bumps = Array.from(byName.entries()).map(([name, list]) => describeBump(name, list))
+  const where = location ? ` in ${location}` : ''
+
+  if (bumps.length === 1) {
+    return `chore(${scope}): ${bumps[0]}${where}`
+  }
+  const body = bumps.map((bump) => `- ${bump}`).join('\n')
+  return `chore(${scope}): bump ${bumps.length} dependencies${where}\n\n${body}`
+}
+
+/**
+ * Split upgrade choices into commits: one per package name, per package.json file,
+ * or per dependency type. Units keep the order in which their first choice was selected.
+ */
+export function buildCommitUnits(
+  choices: PackageUpgradeChoice[],
+  packageInfos: PackageInfo[],
+  groupBy: CommitGroupBy,
+  cwd: string
+): CommitUnit[] {
+  const types = new Map<PackageUpgradeChoice, PackageInfo['type']>()
+  choices.forEach((choice) => {
+    const info = packageInfos.find((p) => isChoiceFor(p, choice))
+    types.set(choice, info?.type || 'dependencies')
+  })
+
+  const groups = new Map<string, PackageUpgradeChoice[]>()
+  choices.forEach((choice) => {
+    const key =
+      groupBy === 'package'
+        ? choice.name
+        : groupBy === 'file'
+          ? choice.packageJsonPath
+          : types.get(choice)!
+    groups.set(key, [...(groups.get(key) || []), choice])
+  })
+
+  return Array.from(groups.entries()).map(([key, list]) => {
+    let location: string | undefined
+    if (groupBy === 'file') {
+      location = relative(cwd, dirname(key)).split(sep).join('/') || undefined
+    } else if (groupBy === 'type' && new Set(list.map((choice) => choice.name)).size > 1) {
+      location = key
+    }
+    return { message: buildMessage(list, types, location), choices: list }
+  })
+}
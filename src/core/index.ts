@@ -5,3 +5,11 @@
 export * from './upgrade-runner'
 export * from './package-detector'
 export * from './upgrader'
+export * from './upgrade-policy'
+export * from './check-runner'
+export * from './cache-runner'
+export * from './rollback'
+export * from './verifier'
+export * from './commit-groups'
+export * from './peer-dependencies'
+export * from './range-strategy'
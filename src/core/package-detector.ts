@@ -1,15 +1,30 @@
 import * as semver from 'semver'
-import { PackageInfo, PackageJson, UpgradeOptions } from '../types'
+import { PackageInfo, PackageJson, QuarantinedVersion, UpdateLevel, UpgradeOptions } from '../types'
 import {
   findPackageJson,
   readPackageJson,
   findAllPackageJsonFiles,
   collectAllDependenciesAsync,
   findClosestMinorVersion,
+  getChannelUpdate,
+  isAffectedBy,
+  isNodeCompatible,
+  getAllowedRange,
+  isVersionAllowed,
+  findWorkspaceRoot,
+  getCatalogName,
+  loadPnpmCatalogs,
+  CollectedDependency,
 } from '../utils'
-import { getAllPackageDataFromJsdelivr, getAllPackageData } from '../services'
-import { DEFAULT_REGISTRY, isPackageIgnored } from '../config'
+import {
+  PackageVersionData,
+  RegistryProvider,
+  createRegistryProvider,
+  loadOsvAdvisories,
+} from '../services'
+import { getPackageSetting, isPackageIgnored, loadProjectNodeRange } from '../config'
 import { ConsoleUtils } from '../ui/utils'
+import { loadLockfile } from '../lockfiles'
 import { debugLog } from '../utils'
 
 export class PackageDetector {
@@ -18,11 +33,25 @@ export class PackageDetector {
   private cwd: string
   private excludePatterns: string[]
   private ignorePackages: string[]
+  private channels: Record<string, string>
+  private registry: RegistryProvider
+  private advisoriesFile?: string
+  private respectEngines: boolean
+  private minReleaseAge: number
+  private pin: Record<string, string>
+  private maxUpdate: Record<string, UpdateLevel>
 
-  constructor(options?: UpgradeOptions) {
+  constructor(options?: UpgradeOptions, registry?: RegistryProvider) {
     this.cwd = options?.cwd || process.cwd()
     this.excludePatterns = options?.excludePatterns || []
     this.ignorePackages = options?.ignorePackages || []
+    this.channels = options?.channels || {}
+    this.registry = registry || createRegistryProvider(options?.registry, this.cwd)
+    this.advisoriesFile = options?.advisories
+    this.respectEngines = options?.respectEngines || false
+    this.minReleaseAge = options?.minReleaseAge || 0
+    this.pin = options?.pin || {}
+    this.maxUpdate = options?.maxUpdate || {}
     this.packageJsonPath = findPackageJson(this.cwd)
     if (this.packageJsonPath) {
       this.packageJson = readPackageJson(this.packageJsonPath)
@@ -40,6 +69,174 @@ export class PackageDetector {
 
     const packages: PackageInfo[] = []
     const t0 = Date.now()
+    const { allDeps, allPackageData } = await this.fetchDependencyData()
+    const quarantined = this.applyMinReleaseAge(allPackageData)
+
+    // Compare against the versions actually installed, not the lower bound of the specifier
+    const lockfile = loadLockfile(this.cwd)
+    debugLog.info('PackageDetector', `lockfile: ${lockfile?.path ?? 'none'}`)
+
+    const loggedOutdated = new Set<string>()
+    const loggedNoData = new Set<string>()
+    try {
+      for (const dep of allDeps) {
+        try {
+          const packageData = allPackageData.get(dep.name)
+          if (!packageData) {
+            if (!loggedNoData.has(dep.name)) {
+              loggedNoData.add(dep.name)
+              debugLog.warn('PackageDetector', `no data returned for ${dep.name} — skipping`)
+            }
+            continue
+          }
+
+          const { allVersions } = packageData
+          const channel = this.channels[dep.name]
+          const channelVersion = channel ? packageData.distTags?.[channel] : undefined
+          if (channel && !channelVersion) {
+            debugLog.warn(
+              'PackageDetector',
+              `${dep.name} has no "${channel}" dist-tag, using latest`
+            )
+          }
+          const latestVersion = channelVersion || packageData.latestVersion
+
+          // A lockfile entry that no longer satisfies the specifier is stale, ignore it
+          const lockedVersion =
+            dep.catalog !== undefined
+              ? lockfile?.getCatalogVersion(dep.catalog, dep.name)
+              : lockfile?.getInstalledVersion(dep.name, dep.version, dep.packageJsonPath)
+          const installedVersion =
+            lockedVersion && semver.satisfies(lockedVersion, dep.version)
+              ? lockedVersion
+              : undefined
+
+          const installedClean =
+            installedVersion ||
+            semver.coerce(dep.version, { includePrerelease: true })?.version ||
+            dep.version
+
+          let closestMinorVersion: string | null
+          let hasRangeUpdate: boolean
+          let hasMajorUpdate: boolean
+          if (channelVersion) {
+            // The channel version is the only candidate, in range when it keeps the major
+            const channelUpdate = getChannelUpdate(installedClean, channelVersion)
+            closestMinorVersion = channelUpdate === 'range' ? channelVersion : null
+            hasRangeUpdate = channelUpdate === 'range'
+            hasMajorUpdate = channelUpdate === 'major'
+          } else {
+            // Find closest minor version (same major, higher minor) that satisfies the current range
+            // Falls back to patch updates if no minor updates are available
+            closestMinorVersion = findClosestMinorVersion(
+              installedVersion || dep.version,
+              allVersions
+            )
+
+            const minorClean = closestMinorVersion
+              ? semver.coerce(closestMinorVersion)?.version || closestMinorVersion
+              : null
+            const latestClean = semver.coerce(latestVersion)?.version || latestVersion
+
+            hasRangeUpdate = minorClean !== null && minorClean !== installedClean
+            hasMajorUpdate = semver.major(latestClean) > semver.major(installedClean)
+          }
+          const isOutdated = hasRangeUpdate || hasMajorUpdate
+          const quarantinedVersion = quarantined.get(dep.name)
+          const lockfileOnlyUpdate =
+            hasRangeUpdate && semver.validRange(dep.version) !== null
+              ? semver.satisfies(closestMinorVersion!, dep.version)
+              : false
+
+          if (isOutdated) {
+            const outdatedKey = `${dep.name}@${dep.version}`
+            if (!loggedOutdated.has(outdatedKey)) {
+              loggedOutdated.add(outdatedKey)
+              debugLog.info(
+                'PackageDetector',
+                `outdated: ${dep.name} ${dep.version} → range:${closestMinorVersion ?? '-'} latest:${latestVersion}`
+              )
+            }
+          }
+
+          packages.push({
+            name: dep.name,
+            currentVersion: dep.version, // Keep original version specifier with prefix
+            rangeVersion: closestMinorVersion || dep.version,
+            latestVersion,
+            type: dep.type as PackageInfo['type'],
+            packageJsonPath: dep.packageJsonPath,
+            overridePath: dep.overridePath,
+            catalog: dep.catalog,
+            catalogConsumers: dep.catalogConsumers,
+            isOutdated,
+            hasRangeUpdate,
+            hasMajorUpdate,
+            installedVersion,
+            lockfileOnlyUpdate,
+            channel: channelVersion ? channel : undefined,
+            distTags: packageData.distTags,
+            cachedAt: packageData.cachedAt,
+            quarantined:
+              quarantinedVersion && semver.gt(quarantinedVersion.version, installedClean)
+                ? quarantinedVersion
+                : undefined,
+          })
+        } catch (error) {
+          debugLog.error('PackageDetector', `error processing ${dep.name}`, error)
+          // Skip packages that can't be checked (private packages, etc.)
+          packages.push({
+            name: dep.name,
+            currentVersion: dep.version,
+            rangeVersion: 'unknown',
+            latestVersion: 'unknown',
+            type: dep.type as PackageInfo['type'],
+            packageJsonPath: dep.packageJsonPath,
+            overridePath: dep.overridePath,
+            catalog: dep.catalog,
+            catalogConsumers: dep.catalogConsumers,
+            isOutdated: false,
+            hasRangeUpdate: false,
+            hasMajorUpdate: false,
+          })
+        }
+      }
+
+      this.applyVersionPolicies(packages, allPackageData)
+      await this.checkNodeEngines(packages, allPackageData)
+      await this.attachAdvisories(packages)
+
+      const outdatedCount = packages.filter((p) => p.isOutdated).length
+      debugLog.perf(
+        'PackageDetector',
+        `total scan complete (${outdatedCount} outdated of ${packages.length} deps)`,
+        t0
+      )
+      return packages
+    } catch (error) {
+      this.showProgress('❌ Failed to check packages\n')
+      debugLog.error('PackageDetector', 'fatal error during package check', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch the version data of every dependency so later runs are served from the cache
+   * (`inup cache warm`). Returns how many of the packages were resolved.
+   */
+  public async warmCache(): Promise<{ resolved: number; total: number }> {
+    if (!this.packageJson) {
+      throw new Error('No package.json found in current directory')
+    }
+
+    const { packageNames, allPackageData } = await this.fetchDependencyData()
+    return { resolved: allPackageData.size, total: packageNames.length }
+  }
+
+  /**
+   * Collect the dependencies of every package.json in the tree and fetch their version data
+   */
+  private async fetchDependencyData() {
     debugLog.info('PackageDetector', `Starting scan in ${this.cwd}`)
 
     // Always check all package.json files recursively with timeout protection
@@ -56,10 +253,12 @@ export class PackageDetector {
     // Step 2: Collect all dependencies from package.json files (parallelized)
     this.showProgress('🔍 Reading dependencies from package.json files...')
     const tDeps = Date.now()
-    const allDepsRaw = await collectAllDependenciesAsync(allPackageJsonFiles, {
-      includePeerDeps: true,
-      includeOptionalDeps: true,
-    })
+    const allDepsRaw = this.resolveCatalogs(
+      await collectAllDependenciesAsync(allPackageJsonFiles, {
+        includePeerDeps: true,
+        includeOptionalDeps: true,
+      })
+    )
     debugLog.perf('PackageDetector', `dependency collection (${allDepsRaw.length} raw deps)`, tDeps)
 
     // Step 3: Get unique package names while filtering out workspace references and ignored packages
@@ -109,119 +308,330 @@ export class PackageDetector {
     }
 
     const tFetch = Date.now()
-    debugLog.info('PackageDetector', `fetching version data via ${DEFAULT_REGISTRY}`)
-    const allPackageData =
-      DEFAULT_REGISTRY === 'jsdelivr'
-        ? await getAllPackageDataFromJsdelivr(
-            packageNames,
-            currentVersions,
-            (_currentPackage: string, completed: number, total: number) => {
-              this.showProgress(`🌐 Checking versions... (${completed}/${total} packages)`)
-            }
-          )
-        : await getAllPackageData(
-            packageNames,
-            (_currentPackage: string, completed: number, total: number) => {
-              this.showProgress(`🌐 Checking versions... (${completed}/${total} packages)`)
-            }
-          )
+    debugLog.info('PackageDetector', `fetching version data via ${this.registry.name}`)
+    const allPackageData = await this.registry.fetchVersions(packageNames, {
+      currentVersions,
+      channels: this.channels,
+      publishTimes: this.minReleaseAge > 0,
+      onProgress: (_currentPackage: string, completed: number, total: number) => {
+        this.showProgress(`🌐 Checking versions... (${completed}/${total} packages)`)
+      },
+    })
     debugLog.perf(
       'PackageDetector',
       `registry fetch (${allPackageData.size}/${packageNames.length} resolved)`,
       tFetch
     )
 
-    const loggedOutdated = new Set<string>()
-    const loggedNoData = new Set<string>()
-    try {
-      for (const dep of allDeps) {
-        try {
-          const packageData = allPackageData.get(dep.name)
-          if (!packageData) {
-            if (!loggedNoData.has(dep.name)) {
-              loggedNoData.add(dep.name)
-              debugLog.warn('PackageDetector', `no data returned for ${dep.name} — skipping`)
-            }
-            continue
-          }
+    return { allDeps, packageNames, allPackageData }
+  }
 
-          const { latestVersion, allVersions } = packageData
+  /**
+   * Replace the `catalog:` references by the entries of the pnpm-workspace.yaml catalogs,
+   * so each entry is checked once, with the number of dependencies referencing it
+   */
+  private resolveCatalogs(deps: CollectedDependency[]): CollectedDependency[] {
+    const workspace = loadPnpmCatalogs(findWorkspaceRoot(this.cwd, 'pnpm') || this.cwd)
+    if (!workspace) {
+      return deps
+    }
 
-          // Find closest minor version (same major, higher minor) that satisfies the current range
-          // Falls back to patch updates if no minor updates are available
-          const closestMinorVersion = findClosestMinorVersion(dep.version, allVersions)
+    const consumers = new Map<string, number>()
+    const resolved = deps.filter((dep) => {
+      const catalog = getCatalogName(dep.version)
+      if (catalog === undefined) {
+        return true
+      }
+      if (workspace.catalogs[catalog]?.[dep.name] === undefined) {
+        debugLog.warn('PackageDetector', `${dep.name}: no entry in catalog "${catalog}"`)
+      }
+      const key = JSON.stringify([catalog, dep.name])
+      consumers.set(key, (consumers.get(key) || 0) + 1)
+      return false
+    })
 
-          const installedClean = semver.coerce(dep.version)?.version || dep.version
-          const minorClean = closestMinorVersion
-            ? semver.coerce(closestMinorVersion)?.version || closestMinorVersion
-            : null
-          const latestClean = semver.coerce(latestVersion)?.version || latestVersion
+    for (const [catalog, entries] of Object.entries(workspace.catalogs)) {
+      for (const [name, version] of Object.entries(entries)) {
+        resolved.push({
+          name,
+          version,
+          type: 'catalog',
+          packageJsonPath: workspace.path,
+          catalog,
+          catalogConsumers: consumers.get(JSON.stringify([catalog, name])) || 0,
+        })
+      }
+    }
+    return resolved
+  }
 
-          const hasRangeUpdate = minorClean !== null && minorClean !== installedClean
-          const hasMajorUpdate = semver.major(latestClean) > semver.major(installedClean)
-          const isOutdated = hasRangeUpdate || hasMajorUpdate
+  /**
+   * Drop the versions published less than minReleaseAge days ago, so they are never offered.
+   * Versions without a publish time are kept. Returns the newest dropped version per package.
+   */
+  private applyMinReleaseAge(
+    allPackageData: Map<string, PackageVersionData>
+  ): Map<string, QuarantinedVersion> {
+    const quarantined = new Map<string, QuarantinedVersion>()
+    if (this.minReleaseAge <= 0) {
+      return quarantined
+    }
 
-          if (isOutdated) {
-            const outdatedKey = `${dep.name}@${dep.version}`
-            if (!loggedOutdated.has(outdatedKey)) {
-              loggedOutdated.add(outdatedKey)
-              debugLog.info(
-                'PackageDetector',
-                `outdated: ${dep.name} ${dep.version} → range:${closestMinorVersion ?? '-'} latest:${latestVersion}`
-              )
-            }
-          }
+    const minAge = this.minReleaseAge * 24 * 60 * 60 * 1000
+    for (const [name, data] of allPackageData) {
+      const publishedAt = data.publishedAt || {}
+      const isTooRecent = (version: string): boolean =>
+        Boolean(publishedAt[version]) && Date.now() - Date.parse(publishedAt[version]) < minAge
 
-          packages.push({
-            name: dep.name,
-            currentVersion: dep.version, // Keep original version specifier with prefix
-            rangeVersion: closestMinorVersion || dep.version,
-            latestVersion,
-            type: dep.type as
-              | 'dependencies'
-              | 'devDependencies'
-              | 'optionalDependencies'
-              | 'peerDependencies',
-            packageJsonPath: dep.packageJsonPath,
-            isOutdated,
-            hasRangeUpdate,
-            hasMajorUpdate,
-          })
-        } catch (error) {
-          debugLog.error('PackageDetector', `error processing ${dep.name}`, error)
-          // Skip packages that can't be checked (private packages, etc.)
-          packages.push({
-            name: dep.name,
-            currentVersion: dep.version,
-            rangeVersion: 'unknown',
-            latestVersion: 'unknown',
-            type: dep.type as
-              | 'dependencies'
-              | 'devDependencies'
-              | 'optionalDependencies'
-              | 'peerDependencies',
-            packageJsonPath: dep.packageJsonPath,
-            isOutdated: false,
-            hasRangeUpdate: false,
-            hasMajorUpdate: false,
-          })
-        }
-      }
+      const tooRecent = [...new Set([...data.allVersions, ...Object.values(data.distTags || {})])]
+        .filter((version) => semver.valid(version) && isTooRecent(version))
+        .sort(semver.rcompare)
+      if (tooRecent.length === 0) continue
 
-      const outdatedCount = packages.filter((p) => p.isOutdated).length
-      debugLog.perf(
+      const allVersions = data.allVersions.filter((version) => !isTooRecent(version))
+      allPackageData.set(name, {
+        ...data,
+        allVersions,
+        latestVersion: isTooRecent(data.latestVersion)
+          ? [...allVersions].sort(semver.rcompare)[0] || 'unknown'
+          : data.latestVersion,
+        distTags: Object.fromEntries(
+          Object.entries(data.distTags || {}).filter(([, version]) => !isTooRecent(version))
+        ),
+      })
+
+      const version = tooRecent[0]
+      quarantined.set(name, {
+        version,
+        publishedAt: publishedAt[version],
+        availableAt: Date.parse(publishedAt[version]) + minAge,
+      })
+      debugLog.info('PackageDetector', `${name}@${version} is too recent, not offered yet`)
+    }
+    return quarantined
+  }
+
+  /**
+   * Cap the offered versions to the .inuprc `pin` and `maxUpdate` policies: versions outside the
+   * allowed range are replaced by the newest allowed ones, and the newest one held back is kept
+   * with the reason, so it can be shown greyed out.
+   */
+  private applyVersionPolicies(
+    packages: PackageInfo[],
+    allPackageData: Map<string, PackageVersionData>
+  ): void {
+    for (const pkg of packages) {
+      const pin = getPackageSetting(pkg.name, this.pin)
+      const maxUpdate = getPackageSetting(pkg.name, this.maxUpdate)
+      const installed =
+        pkg.installedVersion ||
+        semver.coerce(pkg.currentVersion, { includePrerelease: true })?.version
+      const allowedRange = installed ? getAllowedRange(installed, pin, maxUpdate) : undefined
+      if (!pkg.isOutdated || !installed || !allowedRange) continue
+
+      pkg.allowedRange = allowedRange
+      const heldBack = [
+        pkg.hasMajorUpdate && pkg.latestVersion,
+        pkg.hasRangeUpdate && pkg.rangeVersion,
+      ]
+        .filter((version): version is string => Boolean(version))
+        .find((version) => !isVersionAllowed(version, allowedRange))
+      if (!heldBack) continue
+
+      // Same candidates as the detection: stable versions, or the single channel version
+      const allowed = (allPackageData.get(pkg.name)?.allVersions || [])
+        .filter(
+          (version) =>
+            semver.valid(version) &&
+            !semver.prerelease(version) &&
+            semver.gt(version, installed) &&
+            isVersionAllowed(version, allowedRange)
+        )
+        .sort(semver.rcompare)
+      if (pkg.hasRangeUpdate && !isVersionAllowed(pkg.rangeVersion, allowedRange)) {
+        const inRange = pkg.channel
+          ? undefined
+          : allowed.find(
+              (version) =>
+                semver.major(version) === semver.major(installed) &&
+                semver.lte(version, pkg.rangeVersion)
+            )
+        pkg.rangeVersion = inRange || pkg.currentVersion
+        pkg.hasRangeUpdate = inRange !== undefined
+        pkg.lockfileOnlyUpdate =
+          inRange !== undefined && semver.validRange(pkg.currentVersion) !== null
+            ? semver.satisfies(inRange, pkg.currentVersion)
+            : false
+      }
+      if (pkg.hasMajorUpdate && !isVersionAllowed(pkg.latestVersion, allowedRange)) {
+        const major = pkg.channel
+          ? undefined
+          : allowed.find(
+              (version) =>
+                semver.major(version) > semver.major(installed) &&
+                semver.lte(version, pkg.latestVersion)
+            )
+        pkg.latestVersion = major || (pkg.hasRangeUpdate ? pkg.rangeVersion : installed)
+        pkg.hasMajorUpdate = major !== undefined
+      }
+      pkg.isOutdated = pkg.hasRangeUpdate || pkg.hasMajorUpdate
+      pkg.restricted = {
+        version: heldBack,
+        reason:
+          pin && !isVersionAllowed(heldBack, pin) ? `pinned to ${pin}` : `maxUpdate ${maxUpdate}`,
+      }
+      debugLog.info(
         'PackageDetector',
-        `total scan complete (${outdatedCount} outdated of ${packages.length} deps)`,
-        t0
+        `${pkg.name}@${heldBack} held back (${pkg.restricted.reason})`
       )
-      return packages
-    } catch (error) {
-      this.showProgress('❌ Failed to check packages\n')
-      debugLog.error('PackageDetector', 'fatal error during package check', error)
-      throw error
     }
   }
 
+  /**
+   * Check the engines.node of the offered versions against the project's Node version.
+   * With respectEngines, incompatible versions are replaced by the newest compatible ones
+   * and the skipped release is kept as heldBack, otherwise they are only marked.
+   */
+  private async checkNodeEngines(
+    packages: PackageInfo[],
+    allPackageData: Map<string, PackageVersionData>
+  ): Promise<void> {
+    const nodeRange = loadProjectNodeRange(this.cwd)
+    const outdated = packages.filter((pkg) => pkg.isOutdated)
+    if (!nodeRange || outdated.length === 0) {
+      return
+    }
+
+    this.showProgress(`⬢ Checking engines against Node ${nodeRange}...`)
+    const tEngines = Date.now()
+    const compatibility = new Map<string, Promise<boolean>>()
+    const isCompatible = (name: string, version: string): Promise<boolean> => {
+      const key = `${name}@${version}`
+      if (!compatibility.has(key)) {
+        compatibility.set(
+          key,
+          this.registry
+            .fetchManifest(name, version)
+            .then((manifest) => isNodeCompatible(nodeRange, manifest.engines.node))
+            .catch(() => true)
+        )
+      }
+      return compatibility.get(key)!
+    }
+
+    await Promise.all(
+      outdated.map((pkg) =>
+        this.checkPackageEngines(pkg, allPackageData.get(pkg.name)?.allVersions || [], (version) =>
+          isCompatible(pkg.name, version)
+        )
+      )
+    )
+    debugLog.perf('PackageDetector', `engine check (${compatibility.size} versions)`, tEngines)
+  }
+
+  /**
+   * Mark or replace the offered versions of one package that do not run on the project's Node
+   */
+  private async checkPackageEngines(
+    pkg: PackageInfo,
+    allVersions: string[],
+    isCompatible: (version: string) => Promise<boolean>
+  ): Promise<void> {
+    const incompatible: string[] = []
+    if (pkg.hasRangeUpdate && !(await isCompatible(pkg.rangeVersion))) {
+      incompatible.push(pkg.rangeVersion)
+    }
+    if (pkg.hasMajorUpdate && !(await isCompatible(pkg.latestVersion))) {
+      incompatible.push(pkg.latestVersion)
+    }
+    if (incompatible.length === 0) {
+      return
+    }
+
+    const installed =
+      pkg.installedVersion ||
+      semver.coerce(pkg.currentVersion, { includePrerelease: true })?.version
+    // A channel offers a single version, there is nothing to fall back to
+    if (!this.respectEngines || pkg.channel || !installed) {
+      pkg.engineIncompatible = incompatible
+      return
+    }
+
+    // Same candidates as the detection: stable versions, channels were handled above
+    const newer = allVersions
+      .filter(
+        (version) =>
+          semver.valid(version) && !semver.prerelease(version) && semver.gt(version, installed)
+      )
+      .sort(semver.compare)
+    if (pkg.hasRangeUpdate && incompatible.includes(pkg.rangeVersion)) {
+      const compatible = await findNewestCompatible(
+        newer.filter(
+          (version) =>
+            semver.major(version) === semver.major(installed) &&
+            semver.lte(version, pkg.rangeVersion)
+        ),
+        isCompatible
+      )
+      pkg.heldBack = pkg.rangeVersion
+      pkg.rangeVersion = compatible || pkg.currentVersion
+      pkg.hasRangeUpdate = compatible !== null
+      pkg.lockfileOnlyUpdate =
+        compatible !== null && semver.validRange(pkg.currentVersion) !== null
+          ? semver.satisfies(compatible, pkg.currentVersion)
+          : false
+    }
+    if (pkg.hasMajorUpdate && incompatible.includes(pkg.latestVersion)) {
+      const compatible = await findNewestCompatible(
+        newer.filter(
+          (version) =>
+            semver.major(version) > semver.major(installed) &&
+            semver.lte(version, pkg.latestVersion)
+        ),
+        isCompatible
+      )
+      // Replaces a held back range version on purpose: heldBack names the newest skipped release
+      pkg.heldBack = pkg.latestVersion
+      pkg.latestVersion = compatible || (pkg.hasRangeUpdate ? pkg.rangeVersion : installed)
+      pkg.hasMajorUpdate = compatible !== null
+    }
+    pkg.isOutdated = pkg.hasRangeUpdate || pkg.hasMajorUpdate
+  }
+
+  /**
+   * Attach the advisories affecting the installed version of each outdated package,
+   * from the OSV file when one is configured, otherwise from the registry
+   */
+  private async attachAdvisories(packages: PackageInfo[]): Promise<void> {
+    const installed = new Map<PackageInfo, string>()
+    const versions: Record<string, string[]> = {}
+    for (const pkg of packages) {
+      const version = pkg.installedVersion || semver.coerce(pkg.currentVersion)?.version
+      if (!pkg.isOutdated || !version) continue
+      installed.set(pkg, version)
+      versions[pkg.name] = [...new Set([...(versions[pkg.name] || []), version])]
+    }
+    if (installed.size === 0) {
+      return
+    }
+
+    this.showProgress('🔒 Checking security advisories...')
+    const tAdvisories = Date.now()
+    const advisories = this.advisoriesFile
+      ? loadOsvAdvisories(this.advisoriesFile)
+      : await this.registry.fetchAdvisories(versions)
+
+    for (const [pkg, version] of installed) {
+      const affecting = (advisories.get(pkg.name) || []).filter((advisory) =>
+        isAffectedBy(version, advisory)
+      )
+      if (affecting.length > 0) {
+        pkg.advisories = affecting
+      }
+    }
+    debugLog.perf('PackageDetector', `advisory lookup (${advisories.size} packages)`, tAdvisories)
+  }
+
   private findPackageJsonFilesWithTimeout(timeoutMs: number): string[] {
     // Synchronous file search with depth limiting and symlink protection
     // The timeout parameter is kept for future async implementation
@@ -247,6 +657,7 @@ export class PackageDetector {
     // Check for common workspace reference patterns
     return (
       version.includes('workspace:') ||
+      version.startsWith('catalog:') ||
       version === '*' ||
       version.startsWith('file:') ||
       version.startsWith('link:') ||
@@ -264,3 +675,26 @@ export class PackageDetector {
     return packages.filter((pkg) => pkg.isOutdated)
   }
 }
+
+/**
+ * Find the newest compatible version among ascending candidates. Engine requirements only
+ * tighten over releases, so the compatible ones come first and a binary search needs few fetches.
+ */
+async function findNewestCompatible(
+  candidates: string[],
+  isCompatible: (version: string) => Promise<boolean>
+): Promise<string | null> {
+  let newest: string | null = null
+  let low = 0
+  let high = candidates.length - 1
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2)
+    if (await isCompatible(candidates[middle])) {
+      newest = candidates[middle]
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+  return newest
+}
@@ -0,0 +1,199 @@
+import { existsSync, readFileSync } from 'fs'
+import { dirname, join, resolve } from 'path'
+import * as semver from 'semver'
+import { PackageInfo, PackageUpgradeChoice, PeerConflict } from '../types'
+import { RegistryProvider } from '../services/registry-provider'
+
+/**
+ * Package whose peerDependencies are checked
+ */
+interface PeerDeclaration {
+  name: string
+  version: string
+  packageJsonPath: string
+  peers: Record<string, string>
+  upgraded: boolean
+}
+
+/**
+ * Read the peerDependencies of an installed package, resolving node_modules like Node does:
+ * the package's own directory first, then its parents up to the project root
+ */
+function readInstalledPeerDependencies(
+  name: string,
+  fromDir: string,
+  rootDir: string
+): Record<string, string> | null {
+  const root = resolve(rootDir)
+  let dir = resolve(fromDir)
+  while (true) {
+    const manifestPath = join(dir, 'node_modules', name, 'package.json')
+    if (existsSync(manifestPath)) {
+      try {
+        return JSON.parse(readFileSync(manifestPath, 'utf-8')).peerDependencies || {}
+      } catch {
+        return null
+      }
+    }
+    if (dir === root || dirname(dir) === dir) {
+      return null
+    }
+    dir = dirname(dir)
+  }
+}
+
+/**
+ * Version a specifier installs, e.g. 19.0.0 for the target ^19.0.0
+ */
+function toVersion(specifier: string): string | null {
+  return (
+    semver.valid(specifier) ||
+    semver.coerce(specifier, { includePrerelease: true })?.version ||
+    null
+  )
+}
+
+/**
+ * Whether a version satisfies a peer range; ranges semver cannot read (workspace:, npm:) pass
+ */
+function satisfiesPeer(version: string, range: string): boolean {
+  return !semver.validRange(range) || semver.satisfies(version, range, { includePrerelease: true })
+}
+
+/**
+ * Find the peerDependencies that the selected upgrades break, before anything is installed:
+ * the peers of each target version (fetched from the registry) are checked against the other
+ * selected or current versions, and the peers of installed dependencies (read from node_modules)
+ * against the upgraded packages. Conflicts suggest a companion upgrade when one resolves them.
+ */
+export async function checkPeerDependencies(
+  choices: PackageUpgradeChoice[],
+  packages: PackageInfo[],
+  registry: RegistryProvider,
+  cwd: string = process.cwd()
+): Promise<PeerConflict[]> {
+  const selected = choices
+    .filter((choice) => choice.upgradeType !== 'none' && toVersion(choice.targetVersion))
+    .map((choice) => ({ ...choice, targetVersion: toVersion(choice.targetVersion)! }))
+  if (selected.length === 0) {
+    return []
+  }
+
+  const peerCache = new Map<string, Promise<Record<string, string>>>()
+  const fetchPeers = (name: string, version: string) => {
+    const key = `${name}@${version}`
+    if (!peerCache.has(key)) {
+      peerCache.set(
+        key,
+        registry
+          .fetchManifest(name, version)
+          .then((manifest) => manifest.peerDependencies)
+          .catch(() => ({}))
+      )
+    }
+    return peerCache.get(key)!
+  }
+
+  // Version of a dependency once the upgrades are applied, preferring the same package.json
+  const versionAfterUpgrade = (name: string, packageJsonPath: string): string | null => {
+    const choice =
+      selected.find((c) => c.name === name && c.packageJsonPath === packageJsonPath) ||
+      selected.find((c) => c.name === name)
+    if (choice) {
+      return choice.targetVersion
+    }
+    const pkg =
+      packages.find((p) => p.name === name && p.packageJsonPath === packageJsonPath) ||
+      packages.find((p) => p.name === name)
+    return pkg ? pkg.installedVersion || toVersion(pkg.currentVersion) : null
+  }
+
+  const declarations: PeerDeclaration[] = await Promise.all(
+    selected.map(async (choice) => ({
+      name: choice.name,
+      version: choice.targetVersion,
+      packageJsonPath: choice.packageJsonPath,
+      peers: await fetchPeers(choice.name, choice.targetVersion),
+      upgraded: true,
+    }))
+  )
+
+  // Dependencies kept at their version only matter when they peer on an upgraded package
+  const upgradedNames = new Set(selected.map((choice) => choice.name))
+  for (const pkg of packages) {
+    if (upgradedNames.has(pkg.name)) continue
+    const peers = readInstalledPeerDependencies(pkg.name, dirname(pkg.packageJsonPath), cwd)
+    const version = pkg.installedVersion || toVersion(pkg.currentVersion)
+    if (!peers || !version || !Object.keys(peers).some((peer) => upgradedNames.has(peer))) {
+      continue
+    }
+    declarations.push({
+      name: pkg.name,
+      version,
+      packageJsonPath: pkg.packageJsonPath,
+      peers,
+      upgraded: false,
+    })
+  }
+
+  const conflicts: PeerConflict[] = []
+  const seen = new Set<string>()
+  for (const declaration of declarations) {
+    for (const [peerName, peerRange] of Object.entries(declaration.peers)) {
+      if (!declaration.upgraded && !upgradedNames.has(peerName)) continue
+      const peerVersion = versionAfterUpgrade(peerName, declaration.packageJsonPath)
+      const key = `${declaration.name}@${declaration.version}>${peerName}@${peerVersion}`
+      if (!peerVersion || seen.has(key) || satisfiesPeer(peerVersion, peerRange)) continue
+      seen.add(key)
+
+      conflicts.push({
+        name: declaration.name,
+        version: declaration.version,
+        peerName,
+        peerRange,
+        peerVersion,
+        suggestion: await suggestCompanionUpgrade(
+          declaration,
+          peerName,
+          peerVersion,
+          peerRange,
+          packages,
+          fetchPeers
+        ),
+      })
+    }
+  }
+  return conflicts
+}
+
+/**
+ * Find an upgrade resolving a conflict: the newest release of the kept package that accepts
+ * the upgraded peer, or the newest available version of the peer within the required range
+ */
+async function suggestCompanionUpgrade(
+  declaration: PeerDeclaration,
+  peerName: string,
+  peerVersion: string,
+  peerRange: string,
+  packages: PackageInfo[],
+  fetchPeers: (name: string, version: string) => Promise<Record<string, string>>
+): Promise<PeerConflict['suggestion']> {
+  if (!declaration.upgraded) {
+    const pkg = packages.find((p) => p.name === declaration.name && p.isOutdated)
+    if (pkg && semver.valid(pkg.latestVersion) && pkg.latestVersion !== declaration.version) {
+      const range = (await fetchPeers(pkg.name, pkg.latestVersion))[peerName]
+      if (!range || satisfiesPeer(peerVersion, range)) {
+        return { name: pkg.name, version: pkg.latestVersion }
+      }
+    }
+    return undefined
+  }
+
+  const peer = packages.find((p) => p.name === peerName)
+  const candidates = peer ? [peer.latestVersion, peer.rangeVersion] : []
+  const version = candidates.find(
+    (candidate) =>
+      semver.valid(candidate) && candidate !== peerVersion && satisfiesPeer(candidate, peerRange)
+  )
+  return version ? { name: peerName, version } : undefined
+}
@@ -0,0 +1,64 @@
+import { dirname, relative, sep } from 'path'
+import * as semver from 'semver'
+import { PackageInfo, PackageUpgradeChoice, RangeStrategy, RangeStrategyConfig } from '../types'
+import { getPackageSetting } from '../config'
+import { isChoiceFor, readPackageJson, rewriteSpecifier } from '../utils'
+
+/**
+ * Strategy for a dependency of a package.json: the setting of its workspace package
+ * (by name, then by directory relative to the root), of its dependency type, or the default
+ */
+export function resolveRangeStrategy(
+  config: RangeStrategyConfig,
+  packageJsonPath: string,
+  type: PackageInfo['type'],
+  cwd: string
+): RangeStrategy {
+  if (config.workspaces) {
+    let name: string | undefined
+    try {
+      name = readPackageJson(packageJsonPath).name
+    } catch {
+      name = undefined
+    }
+    const directory = relative(cwd, dirname(packageJsonPath)).split(sep).join('/') || '.'
+    const strategy =
+      (name && getPackageSetting(name, config.workspaces)) ||
+      getPackageSetting(directory, config.workspaces)
+    if (strategy) {
+      return strategy
+    }
+  }
+  return config.types?.[type] || config.default || 'preserve'
+}
+
+/**
+ * Rewrite the target specifiers of the choices with the range strategy of their package.json.
+ * Choices are built with the preserve strategy, so they are left as-is when it applies.
+ */
+export function applyRangeStrategy(
+  choices: PackageUpgradeChoice[],
+  packages: PackageInfo[],
+  config: RangeStrategyConfig | undefined,
+  cwd: string
+): PackageUpgradeChoice[] {
+  if (!config) {
+    return choices
+  }
+
+  return choices.map((choice) => {
+    const pkg = packages.find((p) => isChoiceFor(p, choice))
+    if (!pkg || choice.upgradeType === 'none') {
+      return choice
+    }
+    const strategy = resolveRangeStrategy(config, choice.packageJsonPath, pkg.type, cwd)
+    const version = choice.upgradeType === 'range' ? pkg.rangeVersion : pkg.latestVersion
+    const target = semver.coerce(version, { includePrerelease: true })?.version || version
+    return strategy === 'preserve'
+      ? choice
+      : {
+          ...choice,
+          targetVersion: rewriteSpecifier(choice.currentVersionSpecifier, target, strategy),
+        }
+  })
+}
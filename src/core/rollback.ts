@@ -0,0 +1,110 @@
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs'
+import { dirname, join, resolve } from 'path'
+import { createHash } from 'crypto'
+import envPaths from 'env-paths'
+
+/**
+ * Saved content of one file. A null content means the file did not exist yet.
+ */
+interface FileSnapshot {
+  path: string
+  content: string | null // base64, so binary lockfiles (bun.lockb) survive
+}
+
+interface RollbackSnapshot {
+  cwd: string
+  timestamp: number
+  files: FileSnapshot[]
+}
+
+/**
+ * Put a file back to its snapshotted content, deleting it if it did not exist
+ */
+function writeSnapshotFile(file: FileSnapshot): void {
+  if (file.content === null) {
+    if (existsSync(file.path)) {
+      unlinkSync(file.path)
+    }
+  } else {
+    writeFileSync(file.path, Buffer.from(file.content, 'base64'))
+  }
+}
+
+/**
+ * Snapshots the files touched by an upgrade so they can be restored when the
+ * install fails, the user aborts, or later with `inup rollback`.
+ * Snapshots live in the user cache directory, one per project directory.
+ */
+export class RollbackManager {
+  private cwd: string
+  private snapshotPath: string
+
+  constructor(cwd: string = process.cwd(), storageDir?: string) {
+    this.cwd = resolve(cwd)
+    const dir = storageDir || join(envPaths('inup').cache, 'rollback')
+    const key = createHash('sha1').update(this.cwd).digest('hex').slice(0, 16)
+    this.snapshotPath = join(dir, `${key}.json`)
+  }
+
+  /**
+   * Save the current content of the given files, replacing any previous snapshot
+   */
+  public snapshot(paths: string[]): void {
+    const files = Array.from(new Set(paths.map((path) => resolve(path)))).map((path) => ({
+      path,
+      content: existsSync(path) ? readFileSync(path).toString('base64') : null,
+    }))
+    const snapshot: RollbackSnapshot = { cwd: this.cwd, timestamp: Date.now(), files }
+
+    mkdirSync(dirname(this.snapshotPath), { recursive: true })
+    writeFileSync(this.snapshotPath, JSON.stringify(snapshot))
+  }
+
+  /**
+   * Get the pending snapshot for this directory, if any
+   */
+  public getSnapshot(): RollbackSnapshot | null {
+    if (!existsSync(this.snapshotPath)) {
+      return null
+    }
+    try {
+      return JSON.parse(readFileSync(this.snapshotPath, 'utf-8')) as RollbackSnapshot
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Restore every file of the pending snapshot and remove it.
+   * Synchronous, so it can run from a signal handler. Returns the restored paths.
+   */
+  public restore(): string[] {
+    const snapshot = this.getSnapshot()
+    if (!snapshot) {
+      return []
+    }
+
+    snapshot.files.forEach(writeSnapshotFile)
+
+    this.discard()
+    return snapshot.files.map((file) => file.path)
+  }
+
+  /**
+   * Restore only the given files from the pending snapshot and keep it
+   */
+  public restoreFiles(paths: string[]): void {
+    const wanted = new Set(paths.map((path) => resolve(path)))
+    const snapshot = this.getSnapshot()
+    snapshot?.files.filter((file) => wanted.has(file.path)).forEach(writeSnapshotFile)
+  }
+
+  /**
+   * Drop the pending snapshot once the upgrade succeeded
+   */
+  public discard(): void {
+    if (existsSync(this.snapshotPath)) {
+      unlinkSync(this.snapshotPath)
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import * as semver from 'semver'
+import { PackageInfo, PackageUpgradeChoice, UpdateLevel, UpgradeTarget } from '../types'
+import { VersionUtils } from '../ui/utils'
+
+export const UPDATE_LEVELS: UpdateLevel[] = ['major', 'minor', 'patch']
+
+/**
+ * Check whether a range version only bumps the patch segment of the installed version
+ */
+function isPatchUpdate(pkg: PackageInfo): boolean {
+  const current = semver.coerce(pkg.installedVersion || pkg.currentVersion)
+  const range = semver.coerce(pkg.rangeVersion)
+  if (!current || !range) {
+    return false
+  }
+  return (
+    semver.major(current) === semver.major(range) && semver.minor(current) === semver.minor(range)
+  )
+}
+
+/**
+ * Get the highest update level available for a package, or null when it is up to date
+ */
+export function getUpdateLevel(pkg: PackageInfo): UpdateLevel | null {
+  if (pkg.hasMajorUpdate) {
+    return 'major'
+  }
+  if (pkg.hasRangeUpdate) {
+    return isPatchUpdate(pkg) ? 'patch' : 'minor'
+  }
+  return null
+}
+
+/**
+ * Count outdated packages per update level.
+ * A package that appears in several package.json files is counted once, at its highest level.
+ */
+export function countUpdateLevels(packages: PackageInfo[]): Record<UpdateLevel, number> {
+  const levelsByName = new Map<string, UpdateLevel>()
+
+  for (const pkg of packages) {
+    const level = getUpdateLevel(pkg)
+    if (!level) continue
+
+    const previous = levelsByName.get(pkg.name)
+    if (!previous || UPDATE_LEVELS.indexOf(level) < UPDATE_LEVELS.indexOf(previous)) {
+      levelsByName.set(pkg.name, level)
+    }
+  }
+
+  const counts: Record<UpdateLevel, number> = { major: 0, minor: 0, patch: 0 }
+  for (const level of levelsByName.values()) {
+    counts[level]++
+  }
+  return counts
+}
+
+/**
+ * Pick the upgrade type a package gets under the given target policy
+ */
+export function resolvePolicyUpgradeType(
+  pkg: PackageInfo,
+  target: UpgradeTarget
+): 'none' | 'range' | 'latest' {
+  if (!pkg.isOutdated) {
+    return 'none'
+  }
+
+  switch (target) {
+    case 'latest':
+      if (pkg.hasMajorUpdate) return 'latest'
+      return pkg.hasRangeUpdate ? 'range' : 'none'
+    case 'minor':
+      return pkg.hasRangeUpdate ? 'range' : 'none'
+    case 'patch':
+      return pkg.hasRangeUpdate && isPatchUpdate(pkg) ? 'range' : 'none'
+  }
+}
+
+/**
+ * Build upgrade choices from a target policy instead of the interactive selector.
+ * Creates one choice per package.json occurrence, mirroring the interactive flow.
+ */
+export function buildChoicesFromPolicy(
+  packages: PackageInfo[],
+  target: UpgradeTarget
+): PackageUpgradeChoice[] {
+  const choices: PackageUpgradeChoice[] = []
+
+  for (const pkg of packages) {
+    const upgradeType = resolvePolicyUpgradeType(pkg, target)
+    if (upgradeType === 'none') {
+      continue
+    }
+
+    const targetVersion = upgradeType === 'range' ? pkg.rangeVersion : pkg.latestVersion
+    choices.push({
+      name: pkg.name,
+      packageJsonPath: pkg.packageJsonPath,
+      upgradeType,
+      targetVersion: VersionUtils.applyVersionPrefix(
+        pkg.currentVersion,
+        semver.coerce(targetVersion, { includePrerelease: true })?.version || targetVersion
+      ),
+      currentVersionSpecifier: pkg.currentVersion,
+      overridePath: pkg.overridePath,
+      catalog: pkg.catalog,
+    })
+  }
+
+  return choices
+}
@@ -2,8 +2,22 @@ import chalk from 'chalk'
 import { PackageDetector } from './package-detector'
 import { InteractiveUI } from '../interactive-ui'
 import { PackageUpgrader } from './upgrader'
-import { UpgradeOptions, PackageManagerInfo } from '../types'
+import { buildChoicesFromPolicy } from './upgrade-policy'
+import { RollbackManager } from './rollback'
+import { checkPeerDependencies } from './peer-dependencies'
+import { applyRangeStrategy } from './range-strategy'
+import {
+  UpgradeOptions,
+  PackageManagerInfo,
+  PackageInfo,
+  PackageUpgradeChoice,
+  PeerConflict,
+} from '../types'
 import { PackageManagerDetector } from '../services/package-manager-detector'
+import { changelogFetcher, createRegistryProvider, RegistryProvider } from '../services'
+import { ConsoleUtils } from '../ui/utils'
+import { renderPeerConflicts } from '../ui/renderer/confirmation'
+import { isChoiceFor } from '../utils'
 
 /**
  * Main orchestrator for the inup upgrade process
@@ -14,6 +28,7 @@ export class UpgradeRunner {
   private upgrader: PackageUpgrader
   private options?: UpgradeOptions
   private packageManager: PackageManagerInfo
+  private registry: RegistryProvider
 
   constructor(options?: UpgradeOptions) {
     this.options = options
@@ -26,9 +41,13 @@ export class UpgradeRunner {
       this.packageManager = PackageManagerDetector.detect(cwd)
     }
 
-    this.detector = new PackageDetector(options)
-    this.ui = new InteractiveUI(this.packageManager)
-    this.upgrader = new PackageUpgrader(this.packageManager)
+    // One registry provider for version checks and the package info modal
+    this.registry = createRegistryProvider(options?.registry, cwd)
+    changelogFetcher.setRegistry(this.registry)
+
+    this.detector = new PackageDetector(options, this.registry)
+    this.ui = new InteractiveUI(this.packageManager, options?.groups)
+    this.upgrader = new PackageUpgrader(this.packageManager, this.options)
   }
 
   public async run(): Promise<void> {
@@ -39,6 +58,11 @@ export class UpgradeRunner {
       // Detect packages
       const packages = await this.detector.getOutdatedPackages()
 
+      if (this.options?.yes) {
+        await this.runNonInteractive(packages)
+        return
+      }
+
       // Display packages table
       await this.ui.displayPackagesTable(packages)
 
@@ -53,8 +77,11 @@ export class UpgradeRunner {
       let previousSelections: Map<string, 'none' | 'range' | 'latest'> | undefined
 
       while (true) {
-        // Interactive selection
-        selectedChoices = await this.ui.selectPackagesToUpgrade(packages, previousSelections)
+        // Interactive selection, specifiers written with the configured range strategy
+        selectedChoices = this.applyRangeStrategy(
+          await this.ui.selectPackagesToUpgrade(packages, previousSelections),
+          packages
+        )
 
         if (selectedChoices.length === 0) {
           console.log(chalk.yellow('No packages selected. Exiting...'))
@@ -78,8 +105,9 @@ export class UpgradeRunner {
           previousSelections!.set(key, upgradeType)
         })
 
-        // Confirm upgrade
-        shouldProceed = await this.ui.confirmUpgrade(selectedChoices)
+        // Confirm upgrade, showing the peer dependencies it would break
+        const conflicts = await this.checkPeerDependencies(selectedChoices, packages)
+        shouldProceed = await this.ui.confirmUpgrade(selectedChoices, conflicts)
 
         if (shouldProceed === null) {
           // User pressed N or ESC - go back to selection with current selections preserved
@@ -106,11 +134,91 @@ export class UpgradeRunner {
     }
   }
 
+  /**
+   * Apply upgrades chosen by the target policy without any prompts (--yes mode)
+   */
+  private async runNonInteractive(packages: PackageInfo[]): Promise<void> {
+    const target = this.options?.target || 'minor'
+    ConsoleUtils.clearProgress()
+
+    const selectedChoices = this.applyRangeStrategy(
+      buildChoicesFromPolicy(packages, target),
+      packages
+    )
+    if (selectedChoices.length === 0) {
+      console.log(chalk.green(`✅ No ${target} upgrades available.`))
+      return
+    }
+
+    this.validateSelectedChoices(selectedChoices, packages)
+    const conflicts = await this.checkPeerDependencies(selectedChoices, packages)
+    if (conflicts.length > 0) {
+      console.log(renderPeerConflicts(conflicts))
+    }
+    await this.upgrader.upgradePackages(selectedChoices, packages)
+  }
+
+  /**
+   * Rewrite the target specifiers with the range strategy of each dependency
+   */
+  private applyRangeStrategy(
+    choices: PackageUpgradeChoice[],
+    packages: PackageInfo[]
+  ): PackageUpgradeChoice[] {
+    return applyRangeStrategy(
+      choices,
+      packages,
+      this.options?.rangeStrategy,
+      this.options?.cwd || process.cwd()
+    )
+  }
+
+  /**
+   * Check the peerDependencies of the selected upgrades against each other and the kept versions
+   */
+  private async checkPeerDependencies(
+    choices: PackageUpgradeChoice[],
+    packages: PackageInfo[]
+  ): Promise<PeerConflict[]> {
+    ConsoleUtils.showProgress('🔗 Checking peer dependencies...')
+    try {
+      return await checkPeerDependencies(
+        choices,
+        packages,
+        this.registry,
+        this.options?.cwd || process.cwd()
+      )
+    } finally {
+      ConsoleUtils.clearProgress()
+    }
+  }
+
   private checkPrerequisites(): void {
     // Check if package.json exists
     if (!this.detector.hasPackageJson()) {
       throw new Error('No package.json found in current directory')
     }
+
+    // Refreshing the lockfile must keep package.json untouched, not every package manager can
+    if (this.options?.lockfileOnly && !this.packageManager.updateCommand) {
+      throw new Error(`--lockfile-only is not supported with ${this.packageManager.displayName}`)
+    }
+
+    // The interactive selector needs raw keypress input
+    if (!this.options?.yes && !process.stdin.isTTY) {
+      throw new Error(
+        'No TTY detected. Use --yes (optionally with --target patch|minor|latest) to run non-interactively.'
+      )
+    }
+
+    // A snapshot is only left behind when a previous upgrade was killed before finishing
+    if (!this.options?.dryRun && new RollbackManager(this.options?.cwd).getSnapshot()) {
+      console.log(
+        chalk.yellow(
+          '⚠️  A previous upgrade did not finish. Run `inup rollback` to restore its files, otherwise the next upgrade replaces its snapshot.\n'
+        )
+      )
+    }
   }
 
   private validateSelectedChoices(selectedChoices: any[], allPackages: any[]): void {
@@ -129,7 +237,19 @@ export class UpgradeRunner {
     }
 
     // Print summary of what will be upgraded
-    const packageJsonPaths = new Set(selectedChoices.map((c) => c.packageJsonPath))
+    // With --lockfile-only, in-range updates refresh the lockfile and leave package.json alone
+    const isRefresh = (choice: any): boolean =>
+      Boolean(this.options?.lockfileOnly) &&
+      choice.upgradeType === 'range' &&
+      allPackages.some((pkg) => isChoiceFor(pkg, choice) && pkg.lockfileOnlyUpdate)
+    const refreshCount = selectedChoices.filter(isRefresh).length
+    // Catalog entries are written to pnpm-workspace.yaml, not to package.json files
+    const catalogCount = selectedChoices.filter((c) => c.catalog !== undefined).length
+    const packageJsonPaths = new Set(
+      selectedChoices
+        .filter((c) => !isRefresh(c) && c.catalog === undefined)
+        .map((c) => c.packageJsonPath)
+    )
     const uniquePackages = new Set(selectedChoices.map((c) => c.name))
 
     console.log('\n' + chalk.bold('📋 Upgrade Summary'))
@@ -138,6 +258,14 @@ export class UpgradeRunner {
     console.log(
       `${chalk.cyan(packageJsonPaths.size.toString())} package.json file(s) will be modified`
     )
+    if (catalogCount > 0) {
+      console.log(
+        `${chalk.cyan(catalogCount.toString())} catalog entr${catalogCount === 1 ? 'y' : 'ies'} in pnpm-workspace.yaml will be modified`
+      )
+    }
+    if (refreshCount > 0) {
+      console.log(`${chalk.cyan(refreshCount.toString())} lockfile-only refresh(es)`)
+    }
 
     const rangeUpgrades = selectedChoices.filter((c) => c.upgradeType === 'range').length
     const majorUpgrades = selectedChoices.filter((c) => c.upgradeType === 'latest').length
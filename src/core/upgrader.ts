@@ -1,16 +1,53 @@
 import chalk from 'chalk'
 import { createSpinner } from 'nanospinner'
-import { existsSync, writeFileSync } from 'fs'
-import { dirname } from 'path'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, join, relative, resolve, sep } from 'path'
 import { spawnSync } from 'child_process'
-import { PackageInfo, PackageUpgradeChoice, PackageManagerInfo } from '../types'
-import { executeCommand, findWorkspaceRoot, readPackageJson } from '../utils'
+import { PackageInfo, PackageUpgradeChoice, PackageManagerInfo, UpgradeOptions } from '../types'
+import {
+  commitPaths,
+  createUnifiedDiff,
+  DEFAULT_CATALOG,
+  executeCommand,
+  findWorkspaceRoot,
+  getChangedPaths,
+  isChoiceFor,
+  isGitRepository,
+  updateCatalogVersions,
+  updateJsonStringValues,
+} from '../utils'
+import { renderDiff } from '../ui'
+import { RollbackManager } from './rollback'
+import { bisectFailures, runVerifyCommand } from './verifier'
+import { buildCommitUnits } from './commit-groups'
+
+type DependencyType =
+  | 'dependencies'
+  | 'devDependencies'
+  | 'optionalDependencies'
+  | 'peerDependencies'
+  | 'overrides'
+  | 'catalog'
+
+/**
+ * Content of a package.json file before and after applying upgrade choices
+ */
+export interface PlannedFileChange {
+  packageJsonPath: string
+  original: string
+  updated: string
+}
 
 export class PackageUpgrader {
   private packageManager: PackageManagerInfo
+  private options: UpgradeOptions
+  private rollback: RollbackManager
+  private refreshCommand: string | null = null
 
-  constructor(packageManager: PackageManagerInfo) {
+  constructor(packageManager: PackageManagerInfo, options: UpgradeOptions = {}) {
     this.packageManager = packageManager
+    this.options = options
+    this.rollback = new RollbackManager(options.cwd || process.cwd())
   }
 
   public async upgradePackages(
@@ -22,39 +59,383 @@ export class PackageUpgrader {
       return
     }
 
+    if (this.options.dryRun) {
+      this.previewUpgrades(choices, packageInfos)
+      return
+    }
+
     // Group choices by package.json path and dependency type
-    const choicesByFileAndType = this.groupChoicesByFileAndType(choices, packageInfos)
+    const specifierChoices = choices.filter((c) => !this.isLockfileRefresh(c, packageInfos))
+    const choicesByFileAndType = this.groupChoicesByFileAndType(specifierChoices, packageInfos)
+    const originals = new Map(
+      this.planFileChanges(choices, packageInfos).map((change) => [
+        change.packageJsonPath,
+        change.original,
+      ])
+    )
 
-    for (const [fileAndType, choiceList] of Object.entries(choicesByFileAndType)) {
-      if (choiceList.length === 0) continue
+    // Snapshot every file the upgrade may touch, so a failure leaves the project unchanged
+    const packageJsonPaths = Object.keys(choicesByFileAndType).map((key) => key.split('|')[0])
+    const lockFilePath = join(this.getInstallDir(choices), this.packageManager.lockFile)
+    if (this.options.commit) {
+      this.assertCommittable([...packageJsonPaths, lockFilePath])
+    }
+    this.rollback.snapshot([...packageJsonPaths, lockFilePath])
+
+    // Take over Ctrl+C while files are written, other handlers would exit without restoring them
+    const sigintListeners = process.listeners('SIGINT')
+    const onAbort = (): void => {
+      this.restoreSnapshot('Upgrade aborted')
+      process.exit(130)
+    }
+    process.removeAllListeners('SIGINT')
+    process.once('SIGINT', onAbort)
+
+    try {
+      if (this.options.commit) {
+        await this.upgradeWithCommits(choices, packageInfos, originals, lockFilePath)
+        this.rollback.discard()
+        return
+      }
+
+      for (const [fileAndType, choiceList] of Object.entries(choicesByFileAndType)) {
+        if (choiceList.length === 0) continue
+
+        const [packageJsonPath, type] = fileAndType.split('|')
+        console.log(`Processing ${type} in ${packageJsonPath}`)
+        await this.upgradeChoiceGroup(choiceList, packageJsonPath, type as any)
+      }
+
+      // Count unique packages upgraded
+      const uniquePackages = new Set(choices.map((c) => c.name))
+      console.log(chalk.green(`\n✅ Successfully upgraded ${uniquePackages.size} package(s)!`))
+
+      // Execute package manager install after all upgrades are complete
+      const installed = await this.runInstall(choices, packageInfos)
+      if (installed && this.options.verifyCommand) {
+        await this.verifyUpgrades(choices, packageInfos, originals)
+      }
+      this.rollback.discard()
+    } catch (error) {
+      this.restoreSnapshot('Upgrade failed')
+      throw error
+    } finally {
+      process.removeListener('SIGINT', onAbort)
+      sigintListeners.forEach((listener) => process.on('SIGINT', listener))
+    }
+  }
+
+  /**
+   * Restore the files saved before the upgrade and tell the user how to resync node_modules
+   */
+  private restoreSnapshot(reason: string): void {
+    const restored = this.rollback.restore()
+    if (restored.length === 0) {
+      return
+    }
+
+    console.log(chalk.yellow(`\n↩️  ${reason}, restored ${restored.length} file(s):`))
+    restored.forEach((path) => console.log(chalk.gray(`  ${path}`)))
+    console.log(
+      chalk.gray(`Run ${this.packageManager.installCommand} to bring node_modules back in sync.`)
+    )
+  }
+
+  /**
+   * Compute the package.json edits for the given choices without writing them.
+   * Returns one entry per file, with every dependency type applied.
+   * Lockfile refreshes (--lockfile-only) leave package.json untouched and are skipped.
+   * Pass original contents to plan on top of them instead of the files on disk.
+   */
+  public planFileChanges(
+    choices: PackageUpgradeChoice[],
+    packageInfos: PackageInfo[],
+    originals?: Map<string, string>
+  ): PlannedFileChange[] {
+    const changes = new Map<string, PlannedFileChange>()
+    const choicesByFileAndType = this.groupChoicesByFileAndType(
+      choices.filter((choice) => !this.isLockfileRefresh(choice, packageInfos)),
+      packageInfos
+    )
 
+    for (const [fileAndType, choiceList] of Object.entries(choicesByFileAndType)) {
       const [packageJsonPath, type] = fileAndType.split('|')
-      console.log(`Processing ${type} in ${packageJsonPath}`)
-      await this.upgradeChoiceGroup(choiceList, packageJsonPath, type as any)
+      if (choiceList.length === 0 || !existsSync(packageJsonPath)) continue
+
+      let change = changes.get(packageJsonPath)
+      if (!change) {
+        const original = originals?.get(packageJsonPath) ?? readFileSync(packageJsonPath, 'utf-8')
+        change = { packageJsonPath, original, updated: original }
+        changes.set(packageJsonPath, change)
+      }
+      change.updated = this.applyChoicesToContent(
+        change.updated,
+        choiceList,
+        type as DependencyType
+      )
+    }
+
+    return Array.from(changes.values())
+  }
+
+  /**
+   * Print a unified diff of every package.json change instead of applying it (--dry-run)
+   */
+  private previewUpgrades(choices: PackageUpgradeChoice[], packageInfos: PackageInfo[]): void {
+    const cwd = this.options.cwd || process.cwd()
+    const changes = this.planFileChanges(choices, packageInfos).filter(
+      (change) => change.updated !== change.original
+    )
+    const patches = changes.map((change) =>
+      createUnifiedDiff(change.original, change.updated, {
+        oldPath: relative(cwd, change.packageJsonPath).split(sep).join('/'),
+      })
+    )
+
+    console.log(chalk.bold('\n🔍 Dry run - no files will be changed\n'))
+    patches.forEach((patch) => console.log(renderDiff(patch)))
+
+    const refreshNames = this.getRefreshNames(choices, packageInfos)
+    if (refreshNames.length > 0) {
+      console.log(
+        chalk.cyan(
+          `🔄 Would refresh the lockfile: ${this.getRefreshCommand(this.getInstallDir(choices))} ${refreshNames.join(' ')}\n`
+        )
+      )
+    }
+
+    if (this.options.patchFile) {
+      const patchPath = resolve(this.options.patchFile)
+      writeFileSync(patchPath, patches.join(''))
+      console.log(chalk.green(`📝 Patch written to ${patchPath}`))
+    }
+
+    // Catalog entries live in pnpm-workspace.yaml, reported apart from the package.json files
+    const catalogFiles = new Set(
+      choices.filter((choice) => choice.catalog !== undefined).map((c) => c.packageJsonPath)
+    )
+    const workspaceChanges = changes.filter((change) => catalogFiles.has(change.packageJsonPath))
+    const skippedFiles = [
+      `${changes.length - workspaceChanges.length} package.json file(s)`,
+      ...workspaceChanges.map((change) =>
+        relative(cwd, change.packageJsonPath).split(sep).join('/')
+      ),
+    ]
+    console.log(
+      chalk.gray(
+        `Skipped writing ${skippedFiles.join(', ')} and running ${this.packageManager.installCommand}.`
+      )
+    )
+  }
+
+  /**
+   * Run the verify command from .inuprc. When it fails, bisect over the upgraded
+   * packages, revert the ones that break it and keep the rest.
+   */
+  private async verifyUpgrades(
+    choices: PackageUpgradeChoice[],
+    packageInfos: PackageInfo[],
+    originals: Map<string, string>
+  ): Promise<void> {
+    const command = this.options.verifyCommand!
+    const installDir = this.getInstallDir(choices)
+
+    console.log(chalk.cyan(`\n🧪 Running ${command}...\n`))
+    if (runVerifyCommand(command, installDir)) {
+      console.log(chalk.green(`\n✅ ${command} passed`))
+      return
+    }
+
+    const names = Array.from(new Set(choices.map((choice) => choice.name)))
+    console.log(chalk.yellow(`\n⚠️  ${command} failed, bisecting ${names.length} upgrade(s)...`))
+
+    // Apply a subset of the upgrades on top of the original files and verify it
+    let appliedNames: string[] = names
+    const apply = (subset: string[]): boolean => {
+      appliedNames = subset
+      const subsetChoices = choices.filter((choice) => subset.includes(choice.name))
+      return this.applyChoices(subsetChoices, subsetChoices, packageInfos, originals, installDir)
+    }
+
+    const { baselineFails, culprits } = await bisectFailures(names, async (subset) => {
+      console.log(chalk.gray(`  Verifying with ${subset.length} of ${names.length} upgrade(s)`))
+      return !apply(subset) || !runVerifyCommand(command, installDir, true)
+    })
+
+    const kept = baselineFails ? names : names.filter((name) => !culprits.includes(name))
+    // Leave the kept upgrades installed, unless the last bisect step already did
+    if (appliedNames.join('\n') !== kept.join('\n') && !apply(kept)) {
+      throw new Error(`${this.packageManager.installCommand} failed after bisecting`)
+    }
+
+    if (baselineFails) {
+      console.log(
+        chalk.yellow(`\n⚠️  ${command} also fails without any upgrade, keeping all upgrades.`)
+      )
+      return
+    }
+
+    console.log(chalk.red(`\n✖ ${command} fails because of ${culprits.length} upgrade(s):`))
+    culprits.forEach((name) => {
+      const choice = choices.find((c) => c.name === name)!
+      console.log(
+        `  ${chalk.red('↩')} ${chalk.cyan(name)} ${choice.currentVersionSpecifier} → ${choice.targetVersion} ${chalk.gray('(reverted)')}`
+      )
+    })
+    console.log(chalk.green(`Kept ${kept.length} upgrade(s) that pass ${command}.`))
+  }
+
+  /**
+   * Write exactly the given choices on top of the original package.json contents.
+   * Files without any of these choices go back to their original content.
+   */
+  private writeChoices(
+    choices: PackageUpgradeChoice[],
+    packageInfos: PackageInfo[],
+    originals: Map<string, string>
+  ): void {
+    const updated = new Map(
+      this.planFileChanges(choices, packageInfos, originals).map((change) => [
+        change.packageJsonPath,
+        change.updated,
+      ])
+    )
+    originals.forEach((original, path) => writeFileSync(path, updated.get(path) ?? original))
+  }
+
+  /**
+   * Bring the project to exactly the given choices on top of the snapshot: write the
+   * package.json files, restore the snapshotted lockfile, install, then refresh the
+   * lockfile for `refreshChoices` (--lockfile-only). Returns false when a command fails.
+   */
+  private applyChoices(
+    choices: PackageUpgradeChoice[],
+    refreshChoices: PackageUpgradeChoice[],
+    packageInfos: PackageInfo[],
+    originals: Map<string, string>,
+    installDir: string
+  ): boolean {
+    this.writeChoices(choices, packageInfos, originals)
+    this.rollback.restoreFiles([join(installDir, this.packageManager.lockFile)])
+
+    if (this.spawnInstall(installDir, true) !== 0) {
+      return false
+    }
+    const refreshNames = this.getRefreshNames(refreshChoices, packageInfos)
+    return refreshNames.length === 0 || this.spawnRefresh(installDir, refreshNames, true) === 0
+  }
+
+  /**
+   * Refuse to commit when the files we commit already have changes of their own
+   */
+  private assertCommittable(paths: string[]): void {
+    const cwd = this.options.cwd || process.cwd()
+    if (!isGitRepository(cwd)) {
+      throw new Error('--commit requires a git repository')
+    }
+
+    const changed = getChangedPaths(paths, cwd)
+    if (changed.length > 0) {
+      throw new Error(
+        `--commit requires these files to have no uncommitted changes: ${changed.join(', ')}`
+      )
+    }
+  }
+
+  /**
+   * Apply, install and commit one group of upgrades at a time (--commit).
+   * A group whose install or verify command fails is reverted and left out.
+   */
+  private async upgradeWithCommits(
+    choices: PackageUpgradeChoice[],
+    packageInfos: PackageInfo[],
+    originals: Map<string, string>,
+    lockFilePath: string
+  ): Promise<void> {
+    const cwd = this.options.cwd || process.cwd()
+    const installDir = this.getInstallDir(choices)
+    const units = buildCommitUnits(choices, packageInfos, this.options.commit!, cwd)
+    const committed: PackageUpgradeChoice[] = []
+    const skipped: string[] = []
+
+    // Every commit needs its own lockfile, so the install cannot be left to the user
+    try {
+      executeCommand(`${this.packageManager.name} --version`, installDir)
+    } catch {
+      throw new Error(`--commit requires ${this.packageManager.displayName} to be installed`)
+    }
+
+    for (const unit of units) {
+      const title = unit.message.split('\n')[0]
+      const spinner = createSpinner(title).start()
+
+      const installed = this.applyChoices(
+        [...committed, ...unit.choices],
+        unit.choices,
+        packageInfos,
+        originals,
+        installDir
+      )
+      const verified =
+        installed &&
+        (!this.options.verifyCommand ||
+          runVerifyCommand(this.options.verifyCommand, installDir, true))
+
+      if (!verified) {
+        spinner.error({
+          text: `${title} ${chalk.gray(installed ? '(verify failed, reverted)' : '(install failed, reverted)')}`,
+        })
+        skipped.push(title)
+        if (!this.applyChoices(committed, [], packageInfos, originals, installDir)) {
+          throw new Error(`${this.packageManager.installCommand} failed while reverting ${title}`)
+        }
+        continue
+      }
+
+      const paths = [...new Set(unit.choices.map((choice) => choice.packageJsonPath)), lockFilePath]
+      committed.push(...unit.choices)
+      if (!commitPaths(paths, unit.message, cwd)) {
+        spinner.warn({ text: `${title} ${chalk.gray('(nothing changed)')}` })
+        skipped.push(title)
+        continue
+      }
+      spinner.success({ text: title })
+
+      // A later failure only needs to go back to this commit
+      this.rollback.snapshot([...originals.keys(), lockFilePath])
     }
 
-    // Count unique packages upgraded
-    const uniquePackages = new Set(choices.map((c) => c.name))
-    console.log(chalk.green(`\n✅ Successfully upgraded ${uniquePackages.size} package(s)!`))
+    console.log(
+      chalk.green(`\n✅ Created ${units.length - skipped.length} commit(s)`) +
+        (skipped.length > 0 ? chalk.yellow(`, skipped ${skipped.length}`) : '')
+    )
+  }
 
-    // Execute package manager install after all upgrades are complete
-    await this.runInstall(choices, packageInfos)
+  /**
+   * Run the install command and return its exit status
+   */
+  private spawnInstall(installDir: string, quiet = false): number | null {
+    const [cmd, ...args] = this.packageManager.installCommand.split(' ')
+    const result = spawnSync(cmd, args, {
+      cwd: installDir,
+      stdio: quiet ? 'ignore' : 'inherit',
+    })
+    return result.status
   }
 
+  /**
+   * Run the install command after the upgrade.
+   * Returns false when it was skipped because the package manager is not installed.
+   */
   private async runInstall(
     choices: PackageUpgradeChoice[],
     packageInfos: PackageInfo[]
-  ): Promise<void> {
+  ): Promise<boolean> {
     if (choices.length === 0) {
-      return
+      return false
     }
 
-    // Determine the directory to run install in
-    // Use workspace root if it exists, otherwise use the directory of the first package.json
-    const firstPackageJsonPath = choices[0].packageJsonPath
-    const firstPackageDir = dirname(firstPackageJsonPath)
-    const workspaceRoot = findWorkspaceRoot(firstPackageDir, this.packageManager.name)
-    const installDir = workspaceRoot || firstPackageDir
+    const installDir = this.getInstallDir(choices)
 
     // Check if package manager is installed
     try {
@@ -68,20 +449,103 @@ export class PackageUpgrader {
             `  ${this.packageManager.installCommand}\n`
         )
       )
-      return // Skip install, let user do it manually
+      return false // Skip install, let user do it manually
     }
 
-    console.log(chalk.cyan(`\n📦 Running ${this.packageManager.installCommand}...\n`))
+    // Lockfile refreshes install on their own, skip the install when nothing else changed
+    const refreshNames = this.getRefreshNames(choices, packageInfos)
+    if (choices.some((choice) => !this.isLockfileRefresh(choice, packageInfos))) {
+      console.log(chalk.cyan(`\n📦 Running ${this.packageManager.installCommand}...\n`))
 
-    const [cmd, ...args] = this.packageManager.installCommand.split(' ')
-    const result = spawnSync(cmd, args, {
+      const status = this.spawnInstall(installDir)
+      if (status !== 0) {
+        throw new Error(`${this.packageManager.installCommand} exited with code ${status}`)
+      }
+    }
+
+    if (refreshNames.length > 0) {
+      const command = `${this.getRefreshCommand(installDir)} ${refreshNames.join(' ')}`
+      console.log(chalk.cyan(`\n🔄 Refreshing lockfile: ${command}\n`))
+
+      const status = this.spawnRefresh(installDir, refreshNames)
+      if (status !== 0) {
+        throw new Error(`${command} exited with code ${status}`)
+      }
+    }
+    return true
+  }
+
+  /**
+   * Whether a choice is applied by refreshing the lockfile instead of bumping its
+   * specifier (--lockfile-only with a range update the specifier already allows)
+   */
+  private isLockfileRefresh(choice: PackageUpgradeChoice, packageInfos: PackageInfo[]): boolean {
+    if (!this.options.lockfileOnly || choice.upgradeType !== 'range') {
+      return false
+    }
+    const info = packageInfos.find((p) => isChoiceFor(p, choice))
+    return Boolean(info?.lockfileOnlyUpdate)
+  }
+
+  /**
+   * Unique names of the packages among the choices that only need a lockfile refresh
+   */
+  private getRefreshNames(choices: PackageUpgradeChoice[], packageInfos: PackageInfo[]): string[] {
+    return Array.from(
+      new Set(
+        choices
+          .filter((choice) => this.isLockfileRefresh(choice, packageInfos))
+          .map((choice) => choice.name)
+      )
+    )
+  }
+
+  /**
+   * Get the command that refreshes the lockfile within ranges.
+   * Yarn classic has no `yarn up`, it uses `yarn upgrade` instead.
+   */
+  private getRefreshCommand(installDir: string): string {
+    if (this.refreshCommand) {
+      return this.refreshCommand
+    }
+
+    if (!this.packageManager.updateCommand) {
+      throw new Error(`--lockfile-only is not supported with ${this.packageManager.displayName}`)
+    }
+    this.refreshCommand = this.packageManager.updateCommand
+    if (this.packageManager.name === 'yarn') {
+      try {
+        const version = executeCommand('yarn --version', installDir).trim()
+        if (parseInt(version, 10) < 2) {
+          this.refreshCommand = 'yarn upgrade'
+        }
+      } catch {
+        // Keep the default, the refresh itself reports the error
+      }
+    }
+    return this.refreshCommand
+  }
+
+  /**
+   * Run the lockfile refresh command for the given packages and return its exit status
+   */
+  private spawnRefresh(installDir: string, names: string[], quiet = false): number | null {
+    const [cmd, ...args] = this.getRefreshCommand(installDir).split(' ')
+    const result = spawnSync(cmd, [...args, ...names], {
       cwd: installDir,
-      stdio: 'inherit',
+      stdio: quiet ? 'ignore' : 'inherit',
     })
+    return result.status
+  }
 
-    if (result.status !== 0) {
-      throw new Error(`${this.packageManager.installCommand} exited with code ${result.status}`)
-    }
+  /**
+   * Determine the directory to run install in.
+   * Use workspace root if it exists, otherwise use the directory of the first package.json
+   */
+  private getInstallDir(choices: PackageUpgradeChoice[]): string {
+    const firstPackageDir = dirname(choices[0].packageJsonPath)
+    const workspaceRoot = findWorkspaceRoot(firstPackageDir, this.packageManager.name)
+    return workspaceRoot || firstPackageDir
   }
 
   private groupChoicesByFileAndType(
@@ -91,9 +555,7 @@ export class PackageUpgrader {
     const groups: Record<string, PackageUpgradeChoice[]> = {}
 
     choices.forEach((choice) => {
-      const info = packageInfos.find(
-        (p) => p.name === choice.name && p.packageJsonPath === choice.packageJsonPath
-      )
+      const info = packageInfos.find((p) => isChoiceFor(p, choice))
       if (info) {
         const key = `${choice.packageJsonPath}|${info.type}`
         if (!groups[key]) {
@@ -106,10 +568,39 @@ export class PackageUpgrader {
     return groups
   }
 
+  /**
+   * Apply upgrade choices of one dependency type to package.json content.
+   * Only the version strings change, the rest of the file keeps its formatting.
+   * Overrides are rewritten where they are declared, catalog entries in pnpm-workspace.yaml.
+   */
+  private applyChoicesToContent(
+    content: string,
+    choices: PackageUpgradeChoice[],
+    type: DependencyType
+  ): string {
+    if (type === 'catalog') {
+      return updateCatalogVersions(
+        content,
+        choices.map((choice) => ({
+          catalog: choice.catalog || DEFAULT_CATALOG,
+          name: choice.name,
+          value: choice.targetVersion,
+        }))
+      )
+    }
+    return updateJsonStringValues(
+      content,
+      choices.map((choice) => ({
+        path: choice.overridePath || [type, choice.name],
+        value: choice.targetVersion,
+      }))
+    )
+  }
+
   private async upgradeChoiceGroup(
     choices: PackageUpgradeChoice[],
     packageJsonPath: string,
-    type: 'dependencies' | 'devDependencies' | 'optionalDependencies' | 'peerDependencies'
+    type: DependencyType
   ): Promise<void> {
     // Validate that package.json exists
     if (!existsSync(packageJsonPath)) {
@@ -123,46 +614,13 @@ export class PackageUpgrader {
     const spinner = createSpinner(`Upgrading ${type} in ${packageDir}...`).start()
 
     try {
-      // Read the current package.json
-      const packageJson = readPackageJson(packageJsonPath)
-
-      // Find workspace root
-      const workspaceRoot = findWorkspaceRoot(packageDir, this.packageManager.name)
-      const isWorkspaceRoot = packageDir === workspaceRoot
-
-      // Group by upgrade type (range vs latest)
-      const rangeChoices = choices.filter((c) => c.upgradeType === 'range')
-      const latestChoices = choices.filter((c) => c.upgradeType === 'latest')
-
-      let modified = false
-
-      // Upgrade range versions by directly modifying package.json
-      if (rangeChoices.length > 0) {
-        if (!packageJson[type]) {
-          packageJson[type] = {}
-        }
-
-        rangeChoices.forEach((choice) => {
-          packageJson[type]![choice.name] = choice.targetVersion
-          modified = true
-        })
-      }
-
-      // Upgrade to latest versions by directly modifying package.json
-      if (latestChoices.length > 0) {
-        if (!packageJson[type]) {
-          packageJson[type] = {}
-        }
-
-        latestChoices.forEach((choice) => {
-          packageJson[type]![choice.name] = choice.targetVersion
-          modified = true
-        })
-      }
+      // Read the current package.json and apply the target versions
+      const content = readFileSync(packageJsonPath, 'utf-8')
+      const updated = this.applyChoicesToContent(content, choices, type)
 
       // Write back the modified package.json
-      if (modified) {
-        writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2) + '\n')
+      if (updated !== content) {
+        writeFileSync(packageJsonPath, updated)
       }
 
       spinner.success({ text: `Upgraded ${choices.length} ${type} in ${packageDir}` })
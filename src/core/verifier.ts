@@ -0,0 +1,58 @@
+import { spawnSync } from 'child_process'
+
+/**
+ * Outcome of bisecting a failing verification
+ */
+export interface BisectResult<T> {
+  baselineFails: boolean // Verification fails even without any upgrade, nothing to blame
+  culprits: T[]
+}
+
+/**
+ * Run the verify command from .inuprc (e.g. `pnpm test`) and report whether it passed
+ */
+export function runVerifyCommand(command: string, cwd: string, quiet = false): boolean {
+  const result = spawnSync(command, {
+    cwd,
+    shell: true,
+    stdio: quiet ? 'ignore' : 'inherit',
+  })
+  return result.status === 0
+}
+
+/**
+ * Find the items whose upgrade makes verification fail, assuming the full set fails.
+ * Each culprit is the item that turns a passing prefix of the remaining items into a
+ * failing one (binary search); it is removed and the search repeats until the rest passes.
+ * `fails` applies exactly the given subset and verifies it.
+ */
+export async function bisectFailures<T>(
+  items: T[],
+  fails: (subset: T[]) => Promise<boolean>
+): Promise<BisectResult<T>> {
+  if (await fails([])) {
+    return { baselineFails: true, culprits: [] }
+  }
+
+  const culprits: T[] = []
+  let remaining = [...items]
+
+  do {
+    // The empty prefix passes and the full list fails
+    let passing = 0
+    let failing = remaining.length
+    while (failing - passing > 1) {
+      const middle = Math.floor((passing + failing) / 2)
+      if (await fails(remaining.slice(0, middle))) {
+        failing = middle
+      } else {
+        passing = middle
+      }
+    }
+
+    culprits.push(remaining[failing - 1])
+    remaining = remaining.filter((_, index) => index !== failing - 1)
+  } while (remaining.length > 0 && (await fails(remaining)))
+
+  return { baselineFails: false, culprits }
+}
@@ -2,10 +2,24 @@
  * Public API for inup
  */
 
-export { UpgradeRunner, PnpmUpgradeInteractive } from './core'
+export {
+  UpgradeRunner,
+  PnpmUpgradeInteractive,
+  CheckRunner,
+  CacheRunner,
+  RollbackManager,
+} from './core'
 export type {
   PackageInfo,
   UpgradeOptions,
   PackageManager,
   PackageManagerInfo,
+  UpgradeTarget,
+  CheckOptions,
+  CheckThresholds,
+  UpdateLevel,
+  ReporterFormat,
+  CommitGroupBy,
 } from './types'
+export { formatReport } from './reporters'
+export type { ReportContext, ReportEntry } from './reporters'
@@ -7,6 +7,8 @@ import {
   PackageUpgradeChoice,
   PackageSelectionState,
   PackageManagerInfo,
+  PeerConflict,
+  PackageGroup,
 } from './types'
 import { Key } from 'node:readline'
 import {
@@ -19,16 +21,19 @@ import {
   CursorUtils,
 } from './ui'
 import { changelogFetcher } from './services'
+import { getPackageGroup } from './config'
 import { themeNames, themes } from './ui/themes'
 import { getTerminalBgColorCode, getTerminalResetCode } from './ui/themes-colors'
 
 export class InteractiveUI {
   private renderer: UIRenderer
   private packageManager: PackageManagerInfo
+  private groups: PackageGroup[]
 
-  constructor(packageManager: PackageManagerInfo) {
+  constructor(packageManager: PackageManagerInfo, groups: PackageGroup[] = []) {
     this.renderer = new UIRenderer()
     this.packageManager = packageManager
+    this.groups = groups
   }
 
   public async displayPackagesTable(packages: PackageInfo[]): Promise<void> {
@@ -56,7 +61,12 @@ export class InteractiveUI {
     >()
 
     for (const pkg of outdatedPackages) {
-      const key = `${pkg.name}@${pkg.currentVersion}`
+      // Overrides and catalog entries are rewritten where they are declared, one row each
+      const location =
+        pkg.overridePath?.join('>') ?? (pkg.catalog && `catalog:${pkg.catalog}:${pkg.name}`)
+      const key = location
+        ? `${pkg.packageJsonPath}#${location}`
+        : `${pkg.name}@${pkg.currentVersion}`
       if (!uniquePackages.has(key)) {
         uniquePackages.set(key, {
           pkg,
@@ -91,9 +101,13 @@ export class InteractiveUI {
 
     // Create selection states for each unique package
     const selectionStates: PackageSelectionState[] = deduplicatedPackages.map((pkg) => {
-      const currentClean = semver.coerce(pkg.currentVersion)?.version || pkg.currentVersion
-      const rangeClean = semver.coerce(pkg.rangeVersion)?.version || pkg.rangeVersion
-      const latestClean = semver.coerce(pkg.latestVersion)?.version || pkg.latestVersion
+      // Keep pre-release tags, packages following a channel upgrade to them
+      const coerceOptions = { includePrerelease: true }
+      const currentClean =
+        semver.coerce(pkg.currentVersion, coerceOptions)?.version || pkg.currentVersion
+      const rangeClean = semver.coerce(pkg.rangeVersion, coerceOptions)?.version || pkg.rangeVersion
+      const latestClean =
+        semver.coerce(pkg.latestVersion, coerceOptions)?.version || pkg.latestVersion
 
       // Use previous selection if available, otherwise default to 'none'
       const key = `${pkg.name}@${pkg.currentVersion}`
@@ -110,10 +124,38 @@ export class InteractiveUI {
         selectedOption: previousSelection,
         hasRangeUpdate: pkg.hasRangeUpdate,
         hasMajorUpdate: pkg.hasMajorUpdate,
+        installedVersion: pkg.installedVersion,
+        lockfileOnlyUpdate: pkg.lockfileOnlyUpdate,
+        channel: pkg.channel,
+        distTags: pkg.distTags,
+        cachedAt: pkg.cachedAt,
+        advisories: pkg.advisories,
+        engineIncompatible: pkg.engineIncompatible,
+        heldBack: pkg.heldBack,
+        quarantined: pkg.quarantined,
+        allowedRange: pkg.allowedRange,
+        restricted: pkg.restricted,
+        overridePath: pkg.overridePath,
+        catalog: pkg.catalog,
+        catalogConsumers: pkg.catalogConsumers,
         type: pkg.type,
       }
     })
 
+    // Packages of a group share one row, once several of them are outdated
+    const groupSizes = new Map<string, number>()
+    for (const state of selectionStates) {
+      state.group = getPackageGroup(state.name, this.groups)
+      if (state.group) {
+        groupSizes.set(state.group, (groupSizes.get(state.group) || 0) + 1)
+      }
+    }
+    for (const state of selectionStates) {
+      if (state.group && groupSizes.get(state.group)! < 2) {
+        delete state.group
+      }
+    }
+
     // Use custom interactive table selector (simplified - no grouping)
     const selectedStates = await this.interactiveTableSelector(selectionStates)
 
@@ -138,6 +180,8 @@ export class InteractiveUI {
             upgradeType: state.selectedOption,
             targetVersion: targetVersionWithPrefix,
             currentVersionSpecifier: state.currentVersionSpecifier,
+            overridePath: state.overridePath,
+            catalog: state.catalog,
           })
         })
       })
@@ -153,6 +197,17 @@ export class InteractiveUI {
     return 24 // Fallback default
   }
 
+  /**
+   * Highest scroll offset of the release notes shown in the info modal
+   */
+  private getReleaseNotesMaxScroll(state: PackageSelectionState): number {
+    return this.renderer.getReleaseNotesMaxScroll(
+      state,
+      process.stdout.columns || 80,
+      this.getTerminalHeight()
+    )
+  }
+
   private async interactiveTableSelector(
     selectionStates: PackageSelectionState[]
   ): Promise<PackageSelectionState[]> {
@@ -170,12 +225,22 @@ export class InteractiveUI {
 
         switch (action.type) {
           case 'navigate_up':
-            if (!uiState.showInfoModal && !uiState.showThemeModal) {
+            if (uiState.showInfoModal) {
+              stateManager.scrollInfoModal(
+                -1,
+                this.getReleaseNotesMaxScroll(filteredStates[uiState.infoModalRow])
+              )
+            } else if (!uiState.showThemeModal) {
               stateManager.navigateUp(filteredStates.length)
             }
             break
           case 'navigate_down':
-            if (!uiState.showInfoModal && !uiState.showThemeModal) {
+            if (uiState.showInfoModal) {
+              stateManager.scrollInfoModal(
+                1,
+                this.getReleaseNotesMaxScroll(filteredStates[uiState.infoModalRow])
+              )
+            } else if (!uiState.showThemeModal) {
               stateManager.navigateDown(filteredStates.length)
             }
             break
@@ -199,11 +264,21 @@ export class InteractiveUI {
               stateManager.bulkSelectLatest(filteredStates)
             }
             break
+          case 'bulk_select_security':
+            if (!uiState.showInfoModal && !uiState.showThemeModal) {
+              stateManager.bulkSelectSecurity(filteredStates)
+            }
+            break
           case 'bulk_unselect_all':
             if (!uiState.showInfoModal && !uiState.showThemeModal) {
               stateManager.bulkUnselectAll(filteredStates)
             }
             break
+          case 'toggle_group':
+            if (!uiState.showInfoModal && !uiState.showThemeModal) {
+              stateManager.toggleGroup(filteredStates)
+            }
+            break
           case 'toggle_dep_type_filter':
             if (!uiState.showInfoModal && !uiState.showThemeModal) {
               stateManager.toggleDependencyTypeFilter(action.depType)
@@ -211,9 +286,13 @@ export class InteractiveUI {
             break
           case 'toggle_info_modal':
             if (!uiState.showInfoModal) {
+              // Group rows have no package to show
+              const currentState = filteredStates[uiState.currentRow]
+              if (!currentState || currentState.groupMembers) {
+                break
+              }
               // Opening modal - load package info asynchronously
               stateManager.toggleInfoModal()
-              const currentState = filteredStates[uiState.currentRow]
               stateManager.setModalLoading(true)
               renderInterface()
 
@@ -227,8 +306,27 @@ export class InteractiveUI {
                   currentState.author = metadata.author as string | undefined
                   currentState.license = metadata.license
                 }
+                // Then the release notes up to the selected version, shown once loaded
+                currentState.releaseNotes = undefined
                 stateManager.setModalLoading(false)
                 renderInterface()
+
+                const targetVersion =
+                  currentState.selectedOption === 'range'
+                    ? currentState.rangeVersion
+                    : currentState.latestVersion
+                changelogFetcher
+                  .fetchReleaseNotes(
+                    currentState.name,
+                    currentState.installedVersion || currentState.currentVersion,
+                    targetVersion
+                  )
+                  .then((notes) => {
+                    currentState.releaseNotes = notes
+                    if (stateManager.getUIState().showInfoModal) {
+                      renderInterface()
+                    }
+                  })
               })
             } else {
               // Closing modal
@@ -377,7 +475,10 @@ export class InteractiveUI {
           headerLines.push(
             '  ' +
               chalk.bold.white('I / Esc ') +
-              chalk.gray('Exit this view')
+              chalk.gray('Exit this view') +
+              '  ' +
+              chalk.bold.white('↑/↓ ') +
+              chalk.gray('Scroll release notes')
           )
           headerLines.push('')
           headerLines.forEach((line) => console.log(line))
@@ -388,7 +489,12 @@ export class InteractiveUI {
             modalLines.forEach((line) => console.log(line))
           } else {
             // Show full info
-            const modalLines = this.renderer.renderPackageInfoModal(selectedState, terminalWidth, terminalHeight)
+            const modalLines = this.renderer.renderPackageInfoModal(
+              selectedState,
+              terminalWidth,
+              terminalHeight,
+              uiState.infoModalScroll
+            )
             modalLines.forEach((line) => console.log(line))
           }
 
@@ -467,8 +573,11 @@ export class InteractiveUI {
     })
   }
 
-  public async confirmUpgrade(choices: PackageUpgradeChoice[]): Promise<boolean | null> {
-    console.log(this.renderer.renderConfirmation(choices))
+  public async confirmUpgrade(
+    choices: PackageUpgradeChoice[],
+    conflicts: PeerConflict[] = []
+  ): Promise<boolean | null> {
+    console.log(this.renderer.renderConfirmation(choices, conflicts))
 
     return new Promise((resolve) => {
       const handleConfirm = (confirmed: boolean | null) => {
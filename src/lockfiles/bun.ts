@@ -0,0 +1,70 @@
+import { LockfileData, cleanLockedVersion } from './lockfile-data'
+
+interface BunLock {
+  workspaces?: Record<string, { name?: string }>
+  packages?: Record<string, unknown[]>
+}
+
+function isFollowedByClosingBracket(content: string, from: number): boolean {
+  let i = from
+  while (i < content.length && /\s/.test(content[i])) i++
+  return content[i] === '}' || content[i] === ']'
+}
+
+/**
+ * Remove comments and trailing commas from JSONC text, leaving strings untouched
+ */
+export function stripJsonc(content: string): string {
+  let result = ''
+  let i = 0
+
+  while (i < content.length) {
+    const char = content[i]
+
+    if (char === '"') {
+      const start = i
+      i++
+      while (i < content.length && content[i] !== '"') {
+        i += content[i] === '\\' ? 2 : 1
+      }
+      i++
+      result += content.slice(start, i)
+    } else if (char === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') i++
+    } else if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2)
+      i = end === -1 ? content.length : end + 2
+    } else if (char === ',' && isFollowedByClosingBracket(content, i + 1)) {
+      i++ // Trailing comma
+    } else {
+      result += char
+      i++
+    }
+  }
+
+  return result
+}
+
+/**
+ * Parse the text bun.lock format (bun 1.2+). The binary bun.lockb is not supported.
+ * Packages are keyed by name, with `<workspace>/<name>` for copies that are not hoisted.
+ */
+export function parseBunLock(content: string): LockfileData {
+  const lock = JSON.parse(stripJsonc(content)) as BunLock
+
+  return {
+    getInstalledVersion(name, _specifier, importer) {
+      const workspaceName = importer === '.' ? null : lock.workspaces?.[importer]?.name
+      const keys = workspaceName ? [`${workspaceName}/${name}`, name] : [name]
+
+      for (const key of keys) {
+        // ["name@1.2.3", registry, info, integrity]
+        const ident = lock.packages?.[key]?.[0]
+        if (typeof ident === 'string') {
+          return cleanLockedVersion(ident.slice(ident.lastIndexOf('@') + 1))
+        }
+      }
+      return null
+    },
+  }
+}
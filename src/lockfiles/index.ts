@@ -0,0 +1,80 @@
+import { existsSync, readFileSync } from 'fs'
+import { dirname, join, relative, sep } from 'path'
+import { debugLog } from '../utils/debug-logger'
+import { LockfileData } from './lockfile-data'
+import { parsePnpmLock } from './pnpm'
+import { parseNpmLock } from './npm'
+import { parseYarnLock } from './yarn'
+import { parseBunLock } from './bun'
+
+/**
+ * Supported lockfiles in lookup order, with their parser
+ */
+const LOCKFILE_PARSERS: Array<[string, (content: string) => LockfileData]> = [
+  ['pnpm-lock.yaml', parsePnpmLock],
+  ['package-lock.json', parseNpmLock],
+  ['npm-shrinkwrap.json', parseNpmLock],
+  ['yarn.lock', parseYarnLock],
+  ['bun.lock', parseBunLock],
+]
+
+/**
+ * A parsed lockfile and the directory it belongs to
+ */
+export interface LoadedLockfile {
+  path: string
+  data: LockfileData
+  /**
+   * Installed version of a dependency declared in the given package.json
+   */
+  getInstalledVersion(name: string, specifier: string, packageJsonPath: string): string | null
+  /**
+   * Installed version of a pnpm catalog entry
+   */
+  getCatalogVersion(catalog: string, name: string): string | null
+}
+
+/**
+ * Find and parse the nearest lockfile, searching from cwd up to the filesystem root.
+ * Returns null when there is none or it cannot be parsed.
+ */
+export function loadLockfile(cwd: string): LoadedLockfile | null {
+  let currentDir = cwd
+
+  while (true) {
+    for (const [fileName, parse] of LOCKFILE_PARSERS) {
+      const path = join(currentDir, fileName)
+      if (!existsSync(path)) continue
+
+      try {
+        const data = parse(readFileSync(path, 'utf-8'))
+        const lockfileDir = currentDir
+        return {
+          path,
+          data,
+          getInstalledVersion(name, specifier, packageJsonPath) {
+            const importer =
+              relative(lockfileDir, dirname(packageJsonPath)).split(sep).join('/') || '.'
+            return data.getInstalledVersion(name, specifier, importer)
+          },
+          getCatalogVersion(catalog, name) {
+            return data.getCatalogVersion?.(catalog, name) ?? null
+          },
+        }
+      } catch (error) {
+        debugLog.warn('Lockfile', `failed to parse ${path}`, error)
+        return null
+      }
+    }
+
+    const parentDir = dirname(currentDir)
+    if (parentDir === currentDir) return null
+    currentDir = parentDir
+  }
+}
+
+export * from './lockfile-data'
+export * from './pnpm'
+export * from './npm'
+export * from './yarn'
+export * from './bun'
@@ -0,0 +1,27 @@
+import * as semver from 'semver'
+
+/**
+ * Installed versions read from a lockfile
+ */
+export interface LockfileData {
+  /**
+   * Version installed for a dependency declared as `name: specifier` in the package
+   * located at `importer` (directory relative to the lockfile, '.' for the root)
+   */
+  getInstalledVersion(name: string, specifier: string, importer: string): string | null
+  /**
+   * Version locked for an entry of a pnpm catalog (`default` for the `catalog` section)
+   */
+  getCatalogVersion?(catalog: string, name: string): string | null
+}
+
+/**
+ * Strip peer suffixes (`1.2.3(react@18.2.0)`, `1.2.3_react@18.2.0`) and reject non-semver entries
+ */
+export function cleanLockedVersion(version: unknown): string | null {
+  if (typeof version !== 'string') {
+    return null
+  }
+  const cleaned = version.split('(')[0].split('_')[0].trim()
+  return semver.valid(cleaned) ? cleaned : null
+}
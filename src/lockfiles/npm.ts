@@ -0,0 +1,40 @@
+import { cleanLockedVersion, LockfileData } from './lockfile-data'
+
+interface NpmLockV1Dependency {
+  version?: string
+  dependencies?: Record<string, NpmLockV1Dependency>
+}
+
+interface NpmLock {
+  lockfileVersion?: number
+  packages?: Record<string, { version?: string }>
+  dependencies?: Record<string, NpmLockV1Dependency>
+}
+
+/**
+ * Parse package-lock.json / npm-shrinkwrap.json.
+ * v2 and v3 map install paths to versions (`packages/a/node_modules/x`, `node_modules/x`),
+ * v1 only has a nested `dependencies` tree for the root package.
+ */
+export function parseNpmLock(content: string): LockfileData {
+  const lock = JSON.parse(content) as NpmLock
+
+  return {
+    getInstalledVersion(name, _specifier, importer) {
+      if (lock.packages) {
+        // Node resolution: the workspace's own node_modules first, then the hoisted copy
+        const candidates =
+          importer === '.'
+            ? [`node_modules/${name}`]
+            : [`${importer}/node_modules/${name}`, `node_modules/${name}`]
+        for (const key of candidates) {
+          const version = cleanLockedVersion(lock.packages[key]?.version)
+          if (version) return version
+        }
+        return null
+      }
+
+      return cleanLockedVersion(lock.dependencies?.[name]?.version)
+    },
+  }
+}
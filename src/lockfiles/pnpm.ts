@@ -0,0 +1,40 @@
+import { parseYaml } from '../utils/yaml'
+import { cleanLockedVersion, LockfileData } from './lockfile-data'
+
+type PnpmDependencyMap = Record<string, string | { specifier?: string; version?: string }>
+type PnpmImporter = Partial<Record<string, PnpmDependencyMap>>
+type PnpmCatalogs = Record<string, Record<string, { specifier?: string; version?: string }>>
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'optionalDependencies']
+
+/**
+ * Parse pnpm-lock.yaml (lockfile v5 to v9).
+ * v5 lists `name: version` per importer, v6+ lists `name: { specifier, version }`.
+ * Single-package v5/v6 lockfiles keep the root importer at the top level.
+ * Catalog entries are locked in their own `catalogs` section (v9).
+ */
+export function parsePnpmLock(content: string): LockfileData {
+  const lock = (parseYaml(content) || {}) as {
+    importers?: Record<string, PnpmImporter>
+    catalogs?: PnpmCatalogs
+  } & PnpmImporter
+  const importers: Record<string, PnpmImporter> = lock.importers || { '.': lock }
+
+  return {
+    getInstalledVersion(name, _specifier, importer) {
+      const entry = importers[importer]
+      if (!entry) return null
+
+      for (const field of DEPENDENCY_FIELDS) {
+        const locked = entry[field]?.[name]
+        if (locked !== undefined) {
+          return cleanLockedVersion(typeof locked === 'string' ? locked : locked?.version)
+        }
+      }
+      return null
+    },
+    getCatalogVersion(catalog, name) {
+      return cleanLockedVersion(lock.catalogs?.[catalog]?.[name]?.version)
+    },
+  }
+}
@@ -0,0 +1,51 @@
+import { cleanLockedVersion, LockfileData } from './lockfile-data'
+
+/**
+ * Strip surrounding quotes from a yarn.lock key or value
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim()
+  return trimmed.startsWith('"') && trimmed.endsWith('"') ? trimmed.slice(1, -1) : trimmed
+}
+
+/**
+ * Parse yarn.lock, both classic (v1) and berry (v2+) formats.
+ * Entries are keyed by descriptors (`name@^1.2.0` or `name@npm:^1.2.0`), so the
+ * installed version only depends on the specifier, not on the workspace.
+ */
+export function parseYarnLock(content: string): LockfileData {
+  const versions = new Map<string, string>()
+  let descriptors: string[] = []
+
+  for (const line of content.replace(/\r\n/g, '\n').split('\n')) {
+    if (line.trim() === '' || line.startsWith('#')) continue
+
+    if (!line.startsWith(' ')) {
+      // Entry header: `"a@^1.0.0", a@^1.1.0:` (classic) or `"a@npm:^1.0.0, a@npm:^1.1.0":` (berry)
+      descriptors = line
+        .replace(/:$/, '')
+        .replace(/"/g, '')
+        .split(/,\s*/)
+        .map((descriptor) => descriptor.trim())
+        .filter((descriptor) => descriptor !== '__metadata')
+      continue
+    }
+
+    const match = line.match(/^ {2}version:?\s+(.+)$/)
+    if (match && descriptors.length > 0) {
+      const version = cleanLockedVersion(unquote(match[1]))
+      if (version) {
+        descriptors.forEach((descriptor) => versions.set(descriptor, version))
+      }
+      descriptors = []
+    }
+  }
+
+  return {
+    getInstalledVersion(name, specifier) {
+      return (
+        versions.get(`${name}@${specifier}`) ?? versions.get(`${name}@npm:${specifier}`) ?? null
+      )
+    },
+  }
+}
@@ -0,0 +1,30 @@
+import { PackageInfo, ReporterFormat } from '../types'
+import { ReportContext } from './report-data'
+import { renderJsonReport } from './json'
+import { renderMarkdownReport } from './markdown'
+import { renderSarifReport } from './sarif'
+
+export const REPORTER_FORMATS: ReporterFormat[] = ['json', 'markdown', 'sarif']
+
+/**
+ * Render outdated packages in a machine-readable format
+ */
+export function formatReport(
+  format: ReporterFormat,
+  packages: PackageInfo[],
+  context: ReportContext
+): string {
+  switch (format) {
+    case 'json':
+      return renderJsonReport(packages, context)
+    case 'markdown':
+      return renderMarkdownReport(packages, context)
+    case 'sarif':
+      return renderSarifReport(packages, context)
+  }
+}
+
+export * from './report-data'
+export * from './json'
+export * from './markdown'
+export * from './sarif'
@@ -0,0 +1,22 @@
+import { PackageInfo } from '../types'
+import { countUpdateLevels } from '../core/upgrade-policy'
+import { buildReportEntries, ReportContext } from './report-data'
+
+/**
+ * Render outdated packages as JSON, with a summary for dashboards
+ */
+export function renderJsonReport(packages: PackageInfo[], context: ReportContext): string {
+  const entries = buildReportEntries(packages, context)
+  const counts = countUpdateLevels(packages)
+
+  const report = {
+    summary: {
+      total: new Set(packages.map((pkg) => pkg.name)).size,
+      outdated: counts.major + counts.minor + counts.patch,
+      ...counts,
+    },
+    packages: entries,
+  }
+
+  return JSON.stringify(report, null, 2)
+}
@@ -0,0 +1,55 @@
+import { PackageInfo } from '../types'
+import { countUpdateLevels } from '../core/upgrade-policy'
+import { VersionUtils } from '../ui/utils'
+import { buildReportEntries, ReportContext } from './report-data'
+
+/**
+ * Escape characters that would break a Markdown table cell
+ */
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|')
+}
+
+/**
+ * Render outdated packages as a Markdown table, suitable for PR comments
+ */
+export function renderMarkdownReport(packages: PackageInfo[], context: ReportContext): string {
+  const entries = buildReportEntries(packages, context)
+
+  if (entries.length === 0) {
+    return '## Outdated dependencies\n\n✅ All packages are up to date!\n'
+  }
+
+  const counts = countUpdateLevels(packages)
+  const lines = [
+    '## Outdated dependencies',
+    '',
+    '| Package | Current | Range | Latest | Type | Location |',
+    '| --- | --- | --- | --- | --- | --- |',
+  ]
+
+  for (const entry of entries) {
+    const range = entry.hasRangeUpdate
+      ? `\`${VersionUtils.applyVersionPrefix(entry.currentVersion, entry.rangeVersion)}\``
+      : '-'
+    const latest = entry.hasMajorUpdate
+      ? `\`${VersionUtils.applyVersionPrefix(entry.currentVersion, entry.latestVersion)}\` ⚠️`
+      : '-'
+    const cells = [
+      `\`${entry.name}\``,
+      `\`${entry.currentVersion}\``,
+      range,
+      latest,
+      entry.type,
+      `\`${entry.packageJsonPath}\``,
+    ]
+    lines.push(`| ${cells.map(escapeCell).join(' | ')} |`)
+  }
+
+  lines.push('')
+  lines.push(
+    `**${counts.major + counts.minor + counts.patch}** outdated: ${counts.major} major, ${counts.minor} minor, ${counts.patch} patch`
+  )
+
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,63 @@
+import { relative, sep } from 'path'
+import { PackageInfo, UpdateLevel } from '../types'
+import { getUpdateLevel } from '../core/upgrade-policy'
+
+/**
+ * Context shared by all reporters
+ */
+export interface ReportContext {
+  cwd: string // Paths in the report are relative to this directory
+  toolVersion?: string // inup version, included in SARIF output
+}
+
+/**
+ * One outdated dependency occurrence, as written to machine-readable reports
+ */
+export interface ReportEntry {
+  name: string
+  currentVersion: string // Version specifier from package.json
+  installedVersion?: string // Version resolved in the lockfile
+  rangeVersion: string
+  latestVersion: string
+  type: PackageInfo['type']
+  packageJsonPath: string // Relative to the report cwd, always with forward slashes
+  hasRangeUpdate: boolean
+  hasMajorUpdate: boolean
+  updateLevel: UpdateLevel
+}
+
+/**
+ * Convert detector results into report entries, keeping only outdated packages
+ */
+export function buildReportEntries(packages: PackageInfo[], context: ReportContext): ReportEntry[] {
+  const entries: ReportEntry[] = []
+
+  for (const pkg of packages) {
+    const updateLevel = getUpdateLevel(pkg)
+    if (!pkg.isOutdated || !updateLevel) continue
+
+    entries.push({
+      name: pkg.name,
+      currentVersion: pkg.currentVersion,
+      installedVersion: pkg.installedVersion,
+      rangeVersion: pkg.rangeVersion,
+      latestVersion: pkg.latestVersion,
+      type: pkg.type,
+      packageJsonPath: toReportPath(pkg.packageJsonPath, context.cwd),
+      hasRangeUpdate: pkg.hasRangeUpdate,
+      hasMajorUpdate: pkg.hasMajorUpdate,
+      updateLevel,
+    })
+  }
+
+  return entries.sort(
+    (a, b) => a.name.localeCompare(b.name) || a.packageJsonPath.localeCompare(b.packageJsonPath)
+  )
+}
+
+/**
+ * Make a path relative to the report cwd with forward slashes
+ */
+export function toReportPath(path: string, cwd: string): string {
+  return relative(cwd, path).split(sep).join('/')
+}
@@ -0,0 +1,92 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { PackageInfo, UpdateLevel } from '../types'
+import { buildReportEntries, ReportContext, ReportEntry } from './report-data'
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+
+const RULES: Record<UpdateLevel, { id: string; level: 'warning' | 'note'; text: string }> = {
+  major: { id: 'outdated-major', level: 'warning', text: 'Dependency has a new major version' },
+  minor: { id: 'outdated-minor', level: 'note', text: 'Dependency has a new minor version' },
+  patch: { id: 'outdated-patch', level: 'note', text: 'Dependency has a new patch version' },
+}
+
+/**
+ * Find the 1-based line of a dependency entry inside its package.json.
+ * Looks for the dependency key after the section key, falls back to the first match.
+ */
+function findDependencyLine(content: string, entry: ReportEntry): number | undefined {
+  const lines = content.split(/\r?\n/)
+  const sectionLine = lines.findIndex((line) => line.includes(`"${entry.type}"`))
+  const matches = (line: string) => line.includes(`"${entry.name}"`)
+
+  const inSection = lines.findIndex((line, index) => index > sectionLine && matches(line))
+  const index = sectionLine >= 0 && inSection >= 0 ? inSection : lines.findIndex(matches)
+  return index >= 0 ? index + 1 : undefined
+}
+
+/**
+ * Render outdated packages as a SARIF 2.1.0 log for code scanning dashboards
+ */
+export function renderSarifReport(packages: PackageInfo[], context: ReportContext): string {
+  const entries = buildReportEntries(packages, context)
+  const fileContents = new Map<string, string | null>()
+
+  const readContent = (path: string): string | null => {
+    if (!fileContents.has(path)) {
+      try {
+        fileContents.set(path, readFileSync(join(context.cwd, path), 'utf-8'))
+      } catch {
+        fileContents.set(path, null)
+      }
+    }
+    return fileContents.get(path)!
+  }
+
+  const results = entries.map((entry) => {
+    const rule = RULES[entry.updateLevel]
+    const target = entry.updateLevel === 'major' ? entry.latestVersion : entry.rangeVersion
+    const content = readContent(entry.packageJsonPath)
+    const startLine = content ? findDependencyLine(content, entry) : undefined
+
+    return {
+      ruleId: rule.id,
+      level: rule.level,
+      message: {
+        text: `${entry.name} ${entry.currentVersion} can be upgraded to ${target} (${entry.type})`,
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: entry.packageJsonPath },
+            ...(startLine ? { region: { startLine } } : {}),
+          },
+        },
+      ],
+    }
+  })
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'inup',
+            informationUri: 'https://github.com/donfear/inup',
+            ...(context.toolVersion ? { version: context.toolVersion } : {}),
+            rules: Object.values(RULES).map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.text },
+              defaultConfiguration: { level: rule.level },
+            })),
+          },
+        },
+        results,
+      },
+    ],
+  }
+
+  return JSON.stringify(log, null, 2)
+}
@@ -0,0 +1,177 @@
+import { existsSync, readFileSync } from 'fs'
+import { REQUEST_TIMEOUT } from '../config'
+import { Advisory, AdvisorySeverity } from '../types'
+import { ADVISORY_SEVERITIES } from '../utils'
+
+/**
+ * Map a severity label from npm, GitHub or OSV to an advisory severity
+ */
+function toSeverity(value: unknown): AdvisorySeverity {
+  const label = typeof value === 'string' ? value.toLowerCase() : ''
+  if (label === 'medium') {
+    return 'moderate'
+  }
+  return ADVISORY_SEVERITIES.includes(label as AdvisorySeverity)
+    ? (label as AdvisorySeverity)
+    : 'moderate'
+}
+
+/**
+ * Add an advisory to the list of a package
+ */
+function addAdvisory(advisories: Map<string, Advisory[]>, name: string, advisory: Advisory): void {
+  advisories.set(name, [...(advisories.get(name) || []), advisory])
+}
+
+/**
+ * Parse a response of the npm bulk advisory endpoint:
+ * { "lodash": [{ "id": 1, "url": "...", "title": "...", "severity": "high", "vulnerable_versions": "<4.17.21" }] }
+ */
+export function parseBulkAdvisories(data: any): Map<string, Advisory[]> {
+  const advisories = new Map<string, Advisory[]>()
+  if (!data || typeof data !== 'object') {
+    return advisories
+  }
+
+  for (const [name, entries] of Object.entries(data)) {
+    if (!Array.isArray(entries)) continue
+    for (const entry of entries) {
+      if (!entry || typeof entry.vulnerable_versions !== 'string') continue
+      const url = typeof entry.url === 'string' ? entry.url : undefined
+      addAdvisory(advisories, name, {
+        id: url?.match(/GHSA(-[a-z0-9]{4}){3}/i)?.[0] || String(entry.id),
+        title: entry.title || 'Unknown vulnerability',
+        severity: toSeverity(entry.severity),
+        vulnerableVersions: entry.vulnerable_versions,
+        url,
+      })
+    }
+  }
+  return advisories
+}
+
+/**
+ * Ask a registry for the advisories affecting the given versions
+ * (POST /-/npm/v1/security/advisories/bulk). Returns an empty map on any failure.
+ */
+export async function fetchBulkAdvisories(
+  registryUrl: string,
+  versions: Record<string, string[]>,
+  token?: string
+): Promise<Map<string, Advisory[]>> {
+  if (Object.keys(versions).length === 0) {
+    return new Map()
+  }
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
+  try {
+    const response = await fetch(`${registryUrl}/-/npm/v1/security/advisories/bulk`, {
+      method: 'POST',
+      headers: {
+        accept: 'application/json',
+        'content-type': 'application/json',
+        ...(token ? { authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(versions),
+      signal: controller.signal,
+    })
+    return response.ok ? parseBulkAdvisories(await response.json()) : new Map()
+  } catch {
+    return new Map()
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Find the OSV vulnerability records in a document, whatever wraps them
+ * (a single record, an array, an OSV API response or osv-scanner output)
+ */
+function collectOsvRecords(data: any): any[] {
+  if (Array.isArray(data)) {
+    return data.flatMap(collectOsvRecords)
+  }
+  if (!data || typeof data !== 'object') {
+    return []
+  }
+  if (typeof data.id === 'string' && Array.isArray(data.affected)) {
+    return [data]
+  }
+  return Object.values(data).flatMap(collectOsvRecords)
+}
+
+/**
+ * Convert the introduced/fixed events of an OSV range to semver ranges
+ */
+function osvEventsToRanges(events: any[] = []): string[] {
+  const ranges: string[] = []
+  let introduced: string | null = null
+  for (const event of events) {
+    if (typeof event.introduced === 'string') {
+      introduced = event.introduced
+    } else if (introduced !== null && typeof event.fixed === 'string') {
+      ranges.push(introduced === '0' ? `<${event.fixed}` : `>=${introduced} <${event.fixed}`)
+      introduced = null
+    } else if (introduced !== null && typeof event.last_affected === 'string') {
+      const upper = `<=${event.last_affected}`
+      ranges.push(introduced === '0' ? upper : `>=${introduced} ${upper}`)
+      introduced = null
+    }
+  }
+  if (introduced !== null) {
+    ranges.push(introduced === '0' ? '*' : `>=${introduced}`)
+  }
+  return ranges
+}
+
+/**
+ * Parse OSV vulnerability records (https://ossf.github.io/osv-schema/) for the npm ecosystem
+ */
+export function parseOsvAdvisories(data: any): Map<string, Advisory[]> {
+  const advisories = new Map<string, Advisory[]>()
+
+  for (const record of collectOsvRecords(data)) {
+    const aliases: string[] = Array.isArray(record.aliases) ? record.aliases : []
+    const cves = [record.id, ...aliases].filter((id: string) => /^CVE-/.test(id))
+    const references: any[] = Array.isArray(record.references) ? record.references : []
+    const url =
+      references.find((reference) => reference.type === 'ADVISORY')?.url ||
+      `https://osv.dev/vulnerability/${record.id}`
+
+    for (const affected of record.affected) {
+      const name = affected?.package?.name
+      if (affected?.package?.ecosystem !== 'npm' || typeof name !== 'string') continue
+
+      const ranges = [
+        ...(affected.ranges || [])
+          .filter((range: any) => range.type === 'SEMVER' || range.type === 'ECOSYSTEM')
+          .flatMap((range: any) => osvEventsToRanges(range.events)),
+        ...(affected.versions || []),
+      ]
+      if (ranges.length === 0) continue
+
+      addAdvisory(advisories, name, {
+        id: record.id,
+        title: record.summary || record.details?.split('\n')[0] || record.id,
+        severity: toSeverity(
+          record.database_specific?.severity || affected.ecosystem_specific?.severity
+        ),
+        vulnerableVersions: ranges.join(' || '),
+        url,
+        cves,
+      })
+    }
+  }
+  return advisories
+}
+
+/**
+ * Read the advisories from an OSV JSON file, for offline runs
+ */
+export function loadOsvAdvisories(filePath: string): Map<string, Advisory[]> {
+  if (!existsSync(filePath)) {
+    throw new Error(`Advisory file not found: ${filePath}`)
+  }
+  return parseOsvAdvisories(JSON.parse(readFileSync(filePath, 'utf-8')))
+}
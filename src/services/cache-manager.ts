@@ -1,5 +1,5 @@
 import { CACHE_TTL } from '../config'
-import { persistentCache } from './persistent-cache'
+import { persistentCache, PersistentCacheStats } from './persistent-cache'
 
 /**
  * Package version data structure
@@ -7,6 +7,9 @@ import { persistentCache } from './persistent-cache'
 export interface PackageVersionData {
   latestVersion: string
   allVersions: string[]
+  distTags?: Record<string, string> // Only known when fetched from the npm registry
+  publishedAt?: Record<string, string> // Publish time per version, only fetched for minReleaseAge
+  cachedAt?: number // Set when served from an expired cache entry (offline), never stored
 }
 
 /**
@@ -24,19 +27,34 @@ interface CacheEntry<T> {
 export class CacheManager<T = PackageVersionData> {
   private memoryCache = new Map<string, CacheEntry<T>>()
   private ttl: number
+  private bypass = false
+  private lookedUp = new Set<string>()
 
   constructor(ttl: number = CACHE_TTL) {
     this.ttl = ttl
   }
 
+  /**
+   * Skip cached data for this run (`--no-cache` / `--refresh`).
+   * Fresh data is still stored, so the next run benefits from it.
+   */
+  setBypass(bypass: boolean): void {
+    this.bypass = bypass
+  }
+
   /**
    * Get cached data for a key, checking memory first, then disk.
-   * Returns null if not found or expired.
+   * Returns null if not found, expired or bypassed.
    */
   get(key: string): T | null {
+    if (this.bypass) {
+      return null
+    }
+
     // Check in-memory cache first (fastest)
     const memoryCached = this.memoryCache.get(key)
     if (memoryCached && Date.now() - memoryCached.timestamp < this.ttl) {
+      this.recordLookup(key, true)
       return memoryCached.data
     }
 
@@ -48,12 +66,24 @@ export class CacheManager<T = PackageVersionData> {
         data: diskCached as T,
         timestamp: Date.now(),
       })
+      this.recordLookup(key, true)
       return diskCached as T
     }
 
+    this.recordLookup(key, false)
     return null
   }
 
+  /**
+   * Count the first lookup of each key per run, so fallbacks don't skew the hit rate
+   */
+  private recordLookup(key: string, hit: boolean): void {
+    if (!this.lookedUp.has(key)) {
+      this.lookedUp.add(key)
+      persistentCache.recordLookup(hit)
+    }
+  }
+
   /**
    * Store data in both memory and disk cache.
    */
@@ -112,7 +142,7 @@ export class CacheManager<T = PackageVersionData> {
   /**
    * Get cache statistics.
    */
-  getStats(): { memoryEntries: number; diskStats: { entries: number; cacheDir: string } } {
+  getStats(): { memoryEntries: number; diskStats: PersistentCacheStats } {
     return {
       memoryEntries: this.memoryCache.size,
       diskStats: persistentCache.getStats(),
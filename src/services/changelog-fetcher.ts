@@ -1,5 +1,8 @@
 import chalk from 'chalk'
-import { JSDELIVR_CDN_URL } from '../config/constants'
+import { CHANGELOG_FILES, GITHUB_API_URL, REQUEST_TIMEOUT } from '../config'
+import { ReleaseNote } from '../types'
+import { getReleaseTagVersion, parseChangelog, selectReleaseNotes } from '../utils'
+import { RegistryProvider, createRegistryProvider } from './registry-provider'
 
 export interface PackageMetadata {
   description: string
@@ -29,6 +32,20 @@ export interface PackageMetadata {
 export class ChangelogFetcher {
   private cache: Map<string, PackageMetadata> = new Map()
   private failureCache: Set<string> = new Set() // Track packages that failed to fetch
+  private releaseNotesCache: Map<string, ReleaseNote[]> = new Map()
+  private registry: RegistryProvider | null
+
+  constructor(registry?: RegistryProvider) {
+    this.registry = registry || null
+  }
+
+  /**
+   * Use another registry provider, e.g. the one selected with --registry
+   */
+  setRegistry(registry: RegistryProvider): void {
+    this.registry = registry
+    this.clearCache()
+  }
 
   /**
    * Fetch package metadata from npm registry
@@ -96,40 +113,21 @@ export class ChangelogFetcher {
   }
 
   /**
-   * Fetch data from jsdelivr CDN
-   * Returns the package data by fetching package.json directly from jsdelivr
+   * Fetch the package.json fields of the latest version from the registry provider
+   * (jsDelivr by default)
    */
   private async fetchFromRegistry(packageName: string): Promise<any> {
-    try {
-      // Fetch package.json directly from jsdelivr CDN (resolves to latest automatically)
-      const response = await fetch(
-        `${JSDELIVR_CDN_URL}/${encodeURIComponent(packageName)}@latest/package.json`,
-        {
-          method: 'GET',
-          headers: {
-            accept: 'application/json',
-          },
-        }
-      )
-
-      if (!response.ok) {
-        return null
-      }
-
-      const pkgData = (await response.json()) as Record<string, unknown>
+    return this.getRegistry().fetchMetadata(packageName)
+  }
 
-      return {
-        description: pkgData.description,
-        homepage: pkgData.homepage as string | undefined,
-        repository: pkgData.repository as any,
-        bugs: pkgData.bugs as any,
-        keywords: (pkgData.keywords || []) as string[],
-        author: pkgData.author as any,
-        license: pkgData.license as string | undefined,
-      }
-    } catch {
-      return null
+  /**
+   * The registry provider in use, jsDelivr unless one was set
+   */
+  private getRegistry(): RegistryProvider {
+    if (!this.registry) {
+      this.registry = createRegistryProvider()
     }
+    return this.registry
   }
 
   /**
@@ -192,7 +190,127 @@ export class ChangelogFetcher {
     if (!metadata || !metadata.releaseNotes) {
       return null
     }
-    return `${metadata.releaseNotes}/releases/tag/v${version}`
+    return `${metadata.releaseNotes}/tag/v${version}`
+  }
+
+  /**
+   * Fetch the release notes of the versions after fromVersion up to toVersion, newest first.
+   * GitHub Releases are used when the repository is on GitHub and has any,
+   * otherwise the CHANGELOG.md published in the target version's package.
+   */
+  async fetchReleaseNotes(
+    packageName: string,
+    fromVersion: string,
+    toVersion: string
+  ): Promise<ReleaseNote[]> {
+    const key = `${packageName}@${fromVersion}..${toVersion}`
+    const cached = this.releaseNotesCache.get(key)
+    if (cached) {
+      return cached
+    }
+
+    // Offline and fixture registries never touch the network
+    const registryName = this.registry?.name || ''
+    if (registryName === 'offline' || registryName.startsWith('file:')) {
+      return []
+    }
+
+    const metadata = await this.fetchPackageMetadata(packageName)
+    const github = metadata?.repositoryUrl?.match(/github\.com\/([^/]+)\/([^/#?]+)/)
+    let notes: ReleaseNote[] = []
+    if (github) {
+      const releases = await this.fetchGithubReleases(github[1], github[2], packageName)
+      notes = selectReleaseNotes(releases, fromVersion, toVersion)
+    }
+    if (notes.length === 0) {
+      const changelog = await this.fetchPackageChangelog(packageName, toVersion)
+      notes = changelog ? selectReleaseNotes(parseChangelog(changelog), fromVersion, toVersion) : []
+    }
+
+    this.releaseNotesCache.set(key, notes)
+    return notes
+  }
+
+  /**
+   * List the GitHub releases of a repository (latest 100), authenticated with
+   * GITHUB_TOKEN when set to avoid the anonymous rate limit
+   */
+  private async fetchGithubReleases(
+    owner: string,
+    repo: string,
+    packageName: string
+  ): Promise<ReleaseNote[]> {
+    const token = process.env.GITHUB_TOKEN
+    const body = await this.fetchText(
+      `${GITHUB_API_URL}/repos/${owner}/${repo}/releases?per_page=100`,
+      {
+        accept: 'application/vnd.github+json',
+        ...(token ? { authorization: `Bearer ${token}` } : {}),
+      }
+    )
+    if (!body) {
+      return []
+    }
+
+    try {
+      const releases = JSON.parse(body)
+      if (!Array.isArray(releases)) {
+        return []
+      }
+      return releases.flatMap((release: any) => {
+        const version = getReleaseTagVersion(String(release.tag_name || ''), packageName)
+        if (!version || release.draft) {
+          return []
+        }
+        return [
+          {
+            version,
+            title: release.name || undefined,
+            body: release.body || '',
+            date: release.published_at?.slice(0, 10),
+            url: release.html_url,
+          },
+        ]
+      })
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * Read the changelog shipped in a published version, through the registry provider
+   * so packages of private registries are not looked up on a public CDN
+   */
+  private async fetchPackageChangelog(
+    packageName: string,
+    version: string
+  ): Promise<string | null> {
+    for (const file of CHANGELOG_FILES) {
+      const content = await this.getRegistry().fetchPackageFile(packageName, version, file)
+      if (content) {
+        return content
+      }
+    }
+    return null
+  }
+
+  /**
+   * GET a text document, returning null on any failure
+   */
+  private async fetchText(
+    url: string,
+    headers: Record<string, string> = {}
+  ): Promise<string | null> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
+    try {
+      const response = await fetch(url, { method: 'GET', headers, signal: controller.signal })
+      return response.ok ? await response.text() : null
+    } catch {
+      return null
+    } finally {
+      clearTimeout(timeoutId)
+    }
   }
 
   /**
@@ -240,6 +358,7 @@ export class ChangelogFetcher {
   clearCache(): void {
     this.cache.clear()
     this.failureCache.clear()
+    this.releaseNotesCache.clear()
   }
 }
 
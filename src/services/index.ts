@@ -8,3 +8,5 @@ export * from './changelog-fetcher'
 export * from './version-checker'
 export * from './persistent-cache'
 export * from './cache-manager'
+export * from './registry-provider'
+export * from './advisories'
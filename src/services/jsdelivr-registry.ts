@@ -450,7 +450,8 @@ export async function getAllPackageDataFromJsdelivr(
       const npmData = await getAllPackageData([packageName])
       const result = npmData.get(packageName) ?? null
 
-      if (result) {
+      // Stale data served while offline must not be cached again as fresh
+      if (result && !result.cachedAt) {
         packageCache.set(packageName, result)
         debugLog.perf(
           'jsdelivr',
@@ -1,30 +1,64 @@
 import * as semver from 'semver'
-import { NPM_REGISTRY_URL, REQUEST_TIMEOUT } from '../config'
+import {
+  NPM_REGISTRY_URL,
+  REQUEST_TIMEOUT,
+  NpmrcConfig,
+  getAuthToken,
+  getRegistryForPackage,
+} from '../config'
 import { packageCache, PackageVersionData } from './cache-manager'
+import { persistentCache } from './persistent-cache'
 import { ConsoleUtils } from '../ui/utils'
 
+/**
+ * Options for fetching from the npm registry
+ */
+export interface RegistryFetchOptions {
+  onProgress?: (currentPackage: string, completed: number, total: number) => void
+  channels?: Record<string, string> // Dist-tag followed per package, see fetchPackageFromRegistry
+  npmrc?: NpmrcConfig // Registries and auth tokens from .npmrc, defaults to the public registry
+  publishTimes?: boolean // Fetch the full document for the publish time of each version
+}
+
+/**
+ * Options for fetching a single package, with the dist-tag it follows
+ */
+interface PackageFetchOptions extends Pick<RegistryFetchOptions, 'npmrc' | 'publishTimes'> {
+  channel?: string
+}
+
 /**
  * Fetches package data from npm registry.
- * Uses the shared CacheManager for caching.
+ * Uses the shared CacheManager for caching. When a channel is given, cached data
+ * without that dist-tag (e.g. filled from jsDelivr) is fetched again, and likewise
+ * cached data without publish times when they are asked for.
  */
-async function fetchPackageFromRegistry(packageName: string): Promise<PackageVersionData> {
+async function fetchPackageFromRegistry(
+  packageName: string,
+  options: PackageFetchOptions = {}
+): Promise<PackageVersionData> {
+  const { channel, npmrc, publishTimes } = options
   // Use CacheManager for unified caching (memory + disk)
   const cached = packageCache.get(packageName)
-  if (cached) {
+  if (cached && (!channel || cached.distTags?.[channel]) && (!publishTimes || cached.publishedAt)) {
     return cached
   }
 
   try {
-    const url = `${NPM_REGISTRY_URL}/${encodeURIComponent(packageName)}`
+    const registry = npmrc ? getRegistryForPackage(npmrc, packageName) : NPM_REGISTRY_URL
+    const url = `${registry}/${encodeURIComponent(packageName)}`
+    const token = npmrc ? getAuthToken(npmrc, registry) : undefined
 
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
 
     try {
+      // The abbreviated document is much smaller but has no publish times
       const response = await fetch(url, {
         method: 'GET',
         headers: {
-          accept: 'application/vnd.npm.install-v1+json',
+          accept: publishTimes ? 'application/json' : 'application/vnd.npm.install-v1+json',
+          ...(token ? { authorization: `Bearer ${token}` } : {}),
         },
         signal: controller.signal,
       })
@@ -46,6 +80,7 @@ async function fetchPackageFromRegistry(packageName: string): Promise<PackageVer
         author?: any
         license?: string
         'dist-tags'?: Record<string, string>
+        time?: Record<string, string>
       }
 
       // Extract versions and filter to valid semver (X.Y.Z format, no pre-releases)
@@ -58,9 +93,24 @@ async function fetchPackageFromRegistry(packageName: string): Promise<PackageVer
       const sortedVersions = allVersions.sort(semver.rcompare)
       const latestVersion = sortedVersions.length > 0 ? sortedVersions[0] : 'unknown'
 
+      // Keep dist-tags so packages can follow a channel such as next or beta
+      const distTags = Object.fromEntries(
+        Object.entries(data['dist-tags'] || {}).filter(
+          ([, version]) => typeof version === 'string' && semver.valid(version)
+        )
+      )
+
       const result: PackageVersionData = {
         latestVersion,
         allVersions,
+        distTags,
+      }
+      if (publishTimes) {
+        // Only the versions that can be offered, the full history is not needed
+        const offered = new Set([...allVersions, ...Object.values(distTags)])
+        result.publishedAt = Object.fromEntries(
+          Object.entries(data.time || {}).filter(([version]) => offered.has(version))
+        )
       }
 
       // Cache the result using CacheManager (handles both memory and disk)
@@ -71,20 +121,39 @@ async function fetchPackageFromRegistry(packageName: string): Promise<PackageVer
       clearTimeout(timeoutId)
     }
   } catch (error) {
+    // Registry unreachable or failing: serve the last known data, however old
+    const stale = getStaleCacheEntry(packageName)
+    if (stale) {
+      return stale
+    }
     // Return fallback data for failed packages
     return { latestVersion: 'unknown', allVersions: [] }
   }
 }
 
+/**
+ * Read a package from the disk cache regardless of its TTL, marked with the time it was cached
+ */
+export function getStaleCacheEntry(packageName: string): PackageVersionData | null {
+  const cached = persistentCache.getStale(packageName)
+  if (!cached) {
+    return null
+  }
+  const { timestamp, ...data } = cached
+  return { ...data, cachedAt: timestamp }
+}
+
 /**
  * Fetches package version data from npm registry for multiple packages.
  * Uses native fetch with timeout support for reliable performance.
- * Only returns valid semantic versions (X.Y.Z format, excluding pre-releases).
+ * Only returns valid semantic versions (X.Y.Z format, excluding pre-releases) in allVersions,
+ * pre-releases are reachable through distTags.
  */
 export async function getAllPackageData(
   packageNames: string[],
-  onProgress?: (currentPackage: string, completed: number, total: number) => void
+  options: RegistryFetchOptions = {}
 ): Promise<Map<string, PackageVersionData>> {
+  const { onProgress } = options
   const packageData = new Map<string, PackageVersionData>()
 
   if (packageNames.length === 0) {
@@ -97,7 +166,11 @@ export async function getAllPackageData(
   // Fire all requests simultaneously
   // Concurrency is handled naturally by the event loop with fetch
   const allPromises = packageNames.map(async (packageName) => {
-    const data = await fetchPackageFromRegistry(packageName)
+    const data = await fetchPackageFromRegistry(packageName, {
+      channel: options.channels?.[packageName],
+      npmrc: options.npmrc,
+      publishTimes: options.publishTimes,
+    })
     packageData.set(packageName, data)
 
     completedCount++
@@ -10,6 +10,7 @@ export interface PackageManagerInfo {
   lockFile: string
   workspaceFile: string | null // null means check package.json workspaces field
   installCommand: string
+  updateCommand: string | null // Refreshes the lockfile for named packages within their ranges
   color: typeof chalk
 }
 
@@ -20,6 +21,7 @@ const PACKAGE_MANAGERS: Record<PackageManager, PackageManagerInfo> = {
     lockFile: 'package-lock.json',
     workspaceFile: null, // Uses package.json workspaces field
     installCommand: 'npm install',
+    updateCommand: 'npm update',
     color: chalk.red,
   },
   yarn: {
@@ -28,6 +30,7 @@ const PACKAGE_MANAGERS: Record<PackageManager, PackageManagerInfo> = {
     lockFile: 'yarn.lock',
     workspaceFile: null, // Uses package.json workspaces field
     installCommand: 'yarn install',
+    updateCommand: 'yarn up -R',
     color: chalk.blue,
   },
   pnpm: {
@@ -36,6 +39,7 @@ const PACKAGE_MANAGERS: Record<PackageManager, PackageManagerInfo> = {
     lockFile: 'pnpm-lock.yaml',
     workspaceFile: 'pnpm-workspace.yaml',
     installCommand: 'pnpm install',
+    updateCommand: 'pnpm update --no-save',
     color: chalk.yellow,
   },
   bun: {
@@ -44,6 +48,7 @@ const PACKAGE_MANAGERS: Record<PackageManager, PackageManagerInfo> = {
     lockFile: 'bun.lockb',
     workspaceFile: null, // Uses package.json workspaces field
     installCommand: 'bun install',
+    updateCommand: null, // bun update also rewrites package.json
     color: chalk.magenta,
   },
 }
@@ -1,4 +1,12 @@
-import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync, unlinkSync } from 'fs'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+  readdirSync,
+  statSync,
+  unlinkSync,
+} from 'fs'
 import { join } from 'path'
 import envPaths from 'env-paths'
 
@@ -8,15 +16,35 @@ import envPaths from 'env-paths'
 interface PackageCacheEntry {
   latestVersion: string
   allVersions: string[]
+  distTags?: Record<string, string>
+  publishedAt?: Record<string, string> // Publish time per version, kept for minReleaseAge
   timestamp: number
 }
 
+/**
+ * Package version data as stored in the cache
+ */
+type CachedVersionData = Omit<PackageCacheEntry, 'timestamp'>
+
 /**
  * Persistent cache index structure
  */
 interface CacheIndex {
   version: number
   entries: Record<string, { file: string; timestamp: number }>
+  lookups?: { hits: number; misses: number } // Counted since the cache was last cleared
+}
+
+/**
+ * Disk cache statistics shown by `inup cache stats`
+ */
+export interface PersistentCacheStats {
+  entries: number
+  expired: number
+  sizeBytes: number
+  hits: number
+  misses: number
+  cacheDir: string
 }
 
 // Cache TTL: 24 hours for disk cache (much longer than in-memory 5 minutes)
@@ -113,19 +141,34 @@ class PersistentCacheManager {
   /**
    * Get cached data for a package
    */
-  get(packageName: string): { latestVersion: string; allVersions: string[] } | null {
-    const index = this.loadIndex()
-    const entry = index.entries[packageName]
+  get(packageName: string): CachedVersionData | null {
+    const entry = this.loadIndex().entries[packageName]
 
-    if (!entry) {
+    // Expired entries stay on disk so offline runs can still use them
+    if (!entry || Date.now() - entry.timestamp > DISK_CACHE_TTL) {
       return null
     }
 
-    // Check TTL
-    if (Date.now() - entry.timestamp > DISK_CACHE_TTL) {
-      // Expired, remove from index
-      delete index.entries[packageName]
-      this.dirty = true
+    const cached = this.getStale(packageName)
+    return cached
+      ? {
+          latestVersion: cached.latestVersion,
+          allVersions: cached.allVersions,
+          distTags: cached.distTags,
+          publishedAt: cached.publishedAt,
+        }
+      : null
+  }
+
+  /**
+   * Get cached data for a package regardless of its age, with the time it was cached.
+   * Used offline and when the registry cannot be reached.
+   */
+  getStale(packageName: string): PackageCacheEntry | null {
+    const index = this.loadIndex()
+    const entry = index.entries[packageName]
+
+    if (!entry) {
       return null
     }
 
@@ -144,6 +187,9 @@ class PersistentCacheManager {
       return {
         latestVersion: cached.latestVersion,
         allVersions: cached.allVersions,
+        distTags: cached.distTags,
+        publishedAt: cached.publishedAt,
+        timestamp: entry.timestamp,
       }
     } catch {
       // Corrupted cache file, remove from index
@@ -156,7 +202,7 @@ class PersistentCacheManager {
   /**
    * Store data for a package
    */
-  set(packageName: string, data: { latestVersion: string; allVersions: string[] }): void {
+  set(packageName: string, data: CachedVersionData): void {
     const index = this.loadIndex()
 
     // Evict old entries if cache is too large
@@ -189,8 +235,8 @@ class PersistentCacheManager {
   /**
    * Batch get multiple packages (returns map of found entries)
    */
-  getMany(packageNames: string[]): Map<string, { latestVersion: string; allVersions: string[] }> {
-    const results = new Map<string, { latestVersion: string; allVersions: string[] }>()
+  getMany(packageNames: string[]): Map<string, CachedVersionData> {
+    const results = new Map<string, CachedVersionData>()
 
     for (const name of packageNames) {
       const cached = this.get(name)
@@ -205,13 +251,67 @@ class PersistentCacheManager {
   /**
    * Batch set multiple packages
    */
-  setMany(entries: Map<string, { latestVersion: string; allVersions: string[] }>): void {
+  setMany(entries: Map<string, CachedVersionData>): void {
     for (const [name, data] of entries) {
       this.set(name, data)
     }
     this.flush()
   }
 
+  /**
+   * List the names of all cached packages
+   */
+  keys(): string[] {
+    return Object.keys(this.loadIndex().entries)
+  }
+
+  /**
+   * Remove a package from the cache. Returns false when it was not cached.
+   */
+  delete(packageName: string): boolean {
+    const index = this.loadIndex()
+    const entry = index.entries[packageName]
+    if (!entry) {
+      return false
+    }
+
+    try {
+      const filePath = join(this.cacheDir, entry.file)
+      if (existsSync(filePath)) {
+        unlinkSync(filePath)
+      }
+    } catch {
+      // Ignore deletion errors
+    }
+    delete index.entries[packageName]
+    this.dirty = true
+    return true
+  }
+
+  /**
+   * Remove the entries older than the TTL. Returns the number of entries removed.
+   */
+  prune(): number {
+    const now = Date.now()
+    const expired = Object.entries(this.loadIndex().entries)
+      .filter(([, entry]) => now - entry.timestamp > DISK_CACHE_TTL)
+      .map(([packageName]) => packageName)
+    expired.forEach((packageName) => this.delete(packageName))
+    return expired.length
+  }
+
+  /**
+   * Count a lookup for the hit rate in the stats
+   */
+  recordLookup(hit: boolean): void {
+    const index = this.loadIndex()
+    const lookups = index.lookups || { hits: 0, misses: 0 }
+    index.lookups = hit
+      ? { ...lookups, hits: lookups.hits + 1 }
+      : { ...lookups, misses: lookups.misses + 1 }
+    this.dirty = true
+  }
+
   /**
    * Evict oldest cache entries
    */
@@ -272,10 +372,28 @@ class PersistentCacheManager {
   /**
    * Get cache statistics
    */
-  getStats(): { entries: number; cacheDir: string } {
+  getStats(): PersistentCacheStats {
     const index = this.loadIndex()
+    const entries = Object.values(index.entries)
+    const now = Date.now()
+
+    let sizeBytes = 0
+    try {
+      if (existsSync(this.cacheDir)) {
+        for (const file of readdirSync(this.cacheDir)) {
+          sizeBytes += statSync(join(this.cacheDir, file)).size
+        }
+      }
+    } catch {
+      // Ignore - the size is informational
+    }
+
     return {
-      entries: Object.keys(index.entries).length,
+      entries: entries.length,
+      expired: entries.filter((entry) => now - entry.timestamp > DISK_CACHE_TTL).length,
+      sizeBytes,
+      hits: index.lookups?.hits ?? 0,
+      misses: index.lookups?.misses ?? 0,
       cacheDir: this.cacheDir,
     }
   }
@@ -0,0 +1,489 @@
+import { existsSync, readFileSync } from 'fs'
+import { resolve } from 'path'
+import * as semver from 'semver'
+import {
+  DEFAULT_REGISTRY,
+  JSDELIVR_CDN_URL,
+  REQUEST_TIMEOUT,
+  NpmrcConfig,
+  getAuthToken,
+  getRegistryForPackage,
+  isPublicRegistry,
+  loadNpmrc,
+} from '../config'
+import { Advisory } from '../types'
+import { PackageVersionData } from './cache-manager'
+import { getAllPackageData, getStaleCacheEntry } from './npm-registry'
+import { getAllPackageDataFromJsdelivr } from './jsdelivr-registry'
+import { fetchBulkAdvisories, parseBulkAdvisories } from './advisories'
+
+/**
+ * Package fields shown in the info modal, as published in package.json
+ */
+export interface RegistryPackageMetadata {
+  description?: string
+  homepage?: string
+  repository?: any
+  bugs?: any
+  keywords?: string[]
+  author?: any
+  license?: string
+}
+
+/**
+ * Fields of one published version checked before upgrading to it
+ */
+export interface VersionManifest {
+  peerDependencies: Record<string, string>
+  engines: Record<string, string>
+}
+
+export interface FetchVersionsOptions {
+  currentVersions?: Map<string, string> // Lets jsDelivr resolve the current major as well
+  channels?: Record<string, string> // Dist-tag followed per package
+  publishTimes?: boolean // Also fetch when each version was published (minReleaseAge)
+  onProgress?: (currentPackage: string, completed: number, total: number) => void
+}
+
+/**
+ * Source of package versions and metadata.
+ * Select one with `--registry` or `registry` in .inuprc, see createRegistryProvider.
+ */
+export interface RegistryProvider {
+  readonly name: string
+  fetchVersions(
+    packageNames: string[],
+    options?: FetchVersionsOptions
+  ): Promise<Map<string, PackageVersionData>>
+  fetchMetadata(packageName: string): Promise<RegistryPackageMetadata | null>
+  fetchDistTags(packageName: string): Promise<Record<string, string>>
+  fetchAdvisories(versions: Record<string, string[]>): Promise<Map<string, Advisory[]>>
+  fetchManifest(packageName: string, version: string): Promise<VersionManifest>
+  fetchPackageFile(packageName: string, version: string, file: string): Promise<string | null>
+}
+
+/**
+ * GET a JSON document, returning null on any failure
+ */
+async function fetchJson(url: string, token?: string): Promise<any | null> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        accept: 'application/json',
+        ...(token ? { authorization: `Bearer ${token}` } : {}),
+      },
+      signal: controller.signal,
+    })
+    return response.ok ? await response.json() : null
+  } catch {
+    return null
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * GET a text document, returning null on any failure
+ */
+async function fetchText(url: string): Promise<string | null> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
+  try {
+    const response = await fetch(url, { method: 'GET', signal: controller.signal })
+    return response.ok ? await response.text() : null
+  } catch {
+    return null
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Keep the package.json fields used for metadata
+ */
+function pickMetadata(data: any): RegistryPackageMetadata | null {
+  if (!data || typeof data !== 'object') {
+    return null
+  }
+  return {
+    description: data.description,
+    homepage: data.homepage,
+    repository: data.repository,
+    bugs: data.bugs,
+    keywords: data.keywords || [],
+    author: data.author,
+    license: data.license,
+  }
+}
+
+/**
+ * Keep the string entries of a package.json map field (peerDependencies, engines)
+ */
+function pickStringMap(value: any): Record<string, string> {
+  if (!value || typeof value !== 'object') {
+    return {}
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  )
+}
+
+/**
+ * Keep the package.json fields of a version manifest
+ */
+function pickManifest(data: any): VersionManifest {
+  return {
+    peerDependencies: pickStringMap(data?.peerDependencies),
+    engines: pickStringMap(data?.engines),
+  }
+}
+
+/**
+ * npm registry API, honoring the registries and auth tokens of .npmrc
+ */
+export class NpmRegistryProvider implements RegistryProvider {
+  readonly name: string = 'npm'
+  protected npmrc: NpmrcConfig
+
+  constructor(npmrc: NpmrcConfig = loadNpmrc(process.cwd())) {
+    this.npmrc = npmrc
+  }
+
+  async fetchVersions(
+    packageNames: string[],
+    options: FetchVersionsOptions = {}
+  ): Promise<Map<string, PackageVersionData>> {
+    return getAllPackageData(packageNames, {
+      onProgress: options.onProgress,
+      channels: options.channels,
+      npmrc: this.npmrc,
+      publishTimes: options.publishTimes,
+    })
+  }
+
+  /**
+   * Get the registry URL a package is fetched from
+   */
+  getRegistryUrl(packageName: string): string {
+    return getRegistryForPackage(this.npmrc, packageName)
+  }
+
+  async fetchMetadata(packageName: string): Promise<RegistryPackageMetadata | null> {
+    const registry = this.getRegistryUrl(packageName)
+    const token = getAuthToken(this.npmrc, registry)
+    return pickMetadata(
+      await fetchJson(`${registry}/${encodeURIComponent(packageName)}/latest`, token)
+    )
+  }
+
+  async fetchDistTags(packageName: string): Promise<Record<string, string>> {
+    // Asking for the latest channel refetches cached entries that have no dist-tags
+    const data = await getAllPackageData([packageName], {
+      onProgress: () => {},
+      channels: { [packageName]: 'latest' },
+      npmrc: this.npmrc,
+    })
+    return data.get(packageName)?.distTags || {}
+  }
+
+  async fetchAdvisories(versions: Record<string, string[]>): Promise<Map<string, Advisory[]>> {
+    // Each registry is asked about its own packages
+    const byRegistry = new Map<string, Record<string, string[]>>()
+    for (const [name, packageVersions] of Object.entries(versions)) {
+      const registry = this.getRegistryUrl(name)
+      byRegistry.set(registry, { ...byRegistry.get(registry), [name]: packageVersions })
+    }
+
+    const results = await Promise.all(
+      [...byRegistry].map(([registry, registryVersions]) =>
+        fetchBulkAdvisories(registry, registryVersions, getAuthToken(this.npmrc, registry))
+      )
+    )
+    return new Map(results.flatMap((result) => [...result]))
+  }
+
+  async fetchManifest(packageName: string, version: string): Promise<VersionManifest> {
+    const registry = this.getRegistryUrl(packageName)
+    const token = getAuthToken(this.npmrc, registry)
+    return pickManifest(
+      await fetchJson(`${registry}/${encodeURIComponent(packageName)}/${version}`, token)
+    )
+  }
+
+  /**
+   * Read a file shipped in a published version. The registry API has no file access,
+   * so public packages are read through jsDelivr and packages of other registries are skipped.
+   */
+  async fetchPackageFile(
+    packageName: string,
+    version: string,
+    file: string
+  ): Promise<string | null> {
+    if (!isPublicRegistry(this.getRegistryUrl(packageName))) {
+      return null
+    }
+    return fetchText(`${JSDELIVR_CDN_URL}/${packageName}@${version}/${file}`)
+  }
+}
+
+/**
+ * A private registry (Verdaccio, Artifactory...) used for every package without
+ * a scope registry of its own
+ */
+export class PrivateRegistryProvider extends NpmRegistryProvider {
+  readonly name: string
+
+  constructor(registryUrl: string, npmrc: NpmrcConfig = loadNpmrc(process.cwd())) {
+    const registry = registryUrl.replace(/\/+$/, '')
+    super({ ...npmrc, registry })
+    this.name = registry
+  }
+}
+
+/**
+ * jsDelivr CDN for public packages. Packages from private registries, packages
+ * following a channel and publish times need the registry API, so they go to the npm provider.
+ */
+export class JsdelivrRegistryProvider implements RegistryProvider {
+  readonly name = 'jsdelivr'
+  private npm: NpmRegistryProvider
+
+  constructor(npm: NpmRegistryProvider = new NpmRegistryProvider()) {
+    this.npm = npm
+  }
+
+  async fetchVersions(
+    packageNames: string[],
+    options: FetchVersionsOptions = {}
+  ): Promise<Map<string, PackageVersionData>> {
+    const channels = options.channels || {}
+    const npmNames = packageNames.filter(
+      (name) =>
+        options.publishTimes || channels[name] || !isPublicRegistry(this.npm.getRegistryUrl(name))
+    )
+    const jsdelivrNames = packageNames.filter((name) => !npmNames.includes(name))
+
+    // Report progress over both sources
+    let completed = 0
+    const onProgress = (currentPackage: string): void => {
+      completed++
+      options.onProgress?.(currentPackage, completed, packageNames.length)
+    }
+
+    const [jsdelivrData, npmData] = await Promise.all([
+      getAllPackageDataFromJsdelivr(jsdelivrNames, options.currentVersions, onProgress),
+      this.npm.fetchVersions(npmNames, {
+        channels,
+        publishTimes: options.publishTimes,
+        onProgress,
+      }),
+    ])
+    return new Map([...jsdelivrData, ...npmData])
+  }
+
+  async fetchMetadata(packageName: string): Promise<RegistryPackageMetadata | null> {
+    if (!isPublicRegistry(this.npm.getRegistryUrl(packageName))) {
+      return this.npm.fetchMetadata(packageName)
+    }
+    // jsDelivr resolves @latest to the package.json of the latest version
+    return pickMetadata(
+      await fetchJson(`${JSDELIVR_CDN_URL}/${encodeURIComponent(packageName)}@latest/package.json`)
+    )
+  }
+
+  async fetchDistTags(packageName: string): Promise<Record<string, string>> {
+    return this.npm.fetchDistTags(packageName)
+  }
+
+  async fetchAdvisories(versions: Record<string, string[]>): Promise<Map<string, Advisory[]>> {
+    return this.npm.fetchAdvisories(versions)
+  }
+
+  async fetchManifest(packageName: string, version: string): Promise<VersionManifest> {
+    if (!isPublicRegistry(this.npm.getRegistryUrl(packageName))) {
+      return this.npm.fetchManifest(packageName, version)
+    }
+    return pickManifest(
+      await fetchJson(
+        `${JSDELIVR_CDN_URL}/${encodeURIComponent(packageName)}@${version}/package.json`
+      )
+    )
+  }
+
+  async fetchPackageFile(
+    packageName: string,
+    version: string,
+    file: string
+  ): Promise<string | null> {
+    return this.npm.fetchPackageFile(packageName, version, file)
+  }
+}
+
+/**
+ * One package in a fixture file
+ */
+interface FixturePackage extends RegistryPackageMetadata {
+  versions: string[]
+  'dist-tags'?: Record<string, string>
+  time?: Record<string, string> // Publish time per version, as in the registry
+  advisories?: any[] // In the format of the npm bulk advisory endpoint
+  manifests?: Record<string, Partial<VersionManifest>> // peerDependencies and engines per version
+}
+
+/**
+ * Offline registry reading every package from a JSON fixture file:
+ * { "react": { "versions": ["18.3.1", "19.0.0"], "dist-tags": { "latest": "19.0.0" } } }
+ * Packages may also list `advisories` and the `manifests` of their versions.
+ * Nothing is fetched or cached, which makes runs reproducible in tests.
+ */
+export class FixtureRegistryProvider implements RegistryProvider {
+  readonly name: string
+  private packages: Record<string, FixturePackage>
+
+  constructor(fixturePath: string) {
+    if (!existsSync(fixturePath)) {
+      throw new Error(`Registry fixture not found: ${fixturePath}`)
+    }
+    this.name = `file:${fixturePath}`
+    this.packages = JSON.parse(readFileSync(fixturePath, 'utf-8'))
+  }
+
+  async fetchVersions(
+    packageNames: string[],
+    options: FetchVersionsOptions = {}
+  ): Promise<Map<string, PackageVersionData>> {
+    const data = new Map<string, PackageVersionData>()
+    packageNames.forEach((name, index) => {
+      const pkg = this.packages[name]
+      if (pkg) {
+        const allVersions = pkg.versions
+          .filter((version) => /^[0-9]+\.[0-9]+\.[0-9]+$/.test(version))
+          .sort(semver.rcompare)
+        const distTags = pkg['dist-tags'] || {}
+        data.set(name, {
+          latestVersion: distTags.latest || allVersions[0] || 'unknown',
+          allVersions,
+          distTags,
+          ...(pkg.time ? { publishedAt: pkg.time } : {}),
+        })
+      }
+      options.onProgress?.(name, index + 1, packageNames.length)
+    })
+    return data
+  }
+
+  async fetchMetadata(packageName: string): Promise<RegistryPackageMetadata | null> {
+    return pickMetadata(this.packages[packageName])
+  }
+
+  async fetchDistTags(packageName: string): Promise<Record<string, string>> {
+    return this.packages[packageName]?.['dist-tags'] || {}
+  }
+
+  async fetchAdvisories(versions: Record<string, string[]>): Promise<Map<string, Advisory[]>> {
+    return parseBulkAdvisories(
+      Object.fromEntries(
+        Object.keys(versions).map((name) => [name, this.packages[name]?.advisories || []])
+      )
+    )
+  }
+
+  async fetchManifest(packageName: string, version: string): Promise<VersionManifest> {
+    return pickManifest(this.packages[packageName]?.manifests?.[version])
+  }
+
+  async fetchPackageFile(): Promise<string | null> {
+    return null
+  }
+}
+
+/**
+ * Serves versions from the disk cache only, however old, and never touches the network.
+ * Entries carry cachedAt so the UI can show their age.
+ */
+export class OfflineRegistryProvider implements RegistryProvider {
+  readonly name = 'offline'
+
+  async fetchVersions(
+    packageNames: string[],
+    options: FetchVersionsOptions = {}
+  ): Promise<Map<string, PackageVersionData>> {
+    const data = new Map<string, PackageVersionData>()
+    packageNames.forEach((name, index) => {
+      const cached = getStaleCacheEntry(name)
+      if (cached) {
+        data.set(name, cached)
+      }
+      options.onProgress?.(name, index + 1, packageNames.length)
+    })
+    return data
+  }
+
+  async fetchMetadata(): Promise<RegistryPackageMetadata | null> {
+    return null
+  }
+
+  async fetchDistTags(packageName: string): Promise<Record<string, string>> {
+    return getStaleCacheEntry(packageName)?.distTags || {}
+  }
+
+  async fetchAdvisories(): Promise<Map<string, Advisory[]>> {
+    // Use an OSV file (`--advisories`) to check advisories offline
+    return new Map()
+  }
+
+  async fetchManifest(): Promise<VersionManifest> {
+    return pickManifest(null)
+  }
+
+  async fetchPackageFile(): Promise<string | null> {
+    return null
+  }
+}
+
+/**
+ * Whether a --registry value names a provider: jsdelivr, npm, offline, an http(s) URL
+ * or file:<path> to a fixture
+ */
+export function isRegistrySelection(value: string): boolean {
+  return (
+    value === 'jsdelivr' ||
+    value === 'npm' ||
+    value === 'offline' ||
+    /^https?:\/\/./.test(value) ||
+    (value.startsWith('file:') && value.length > 'file:'.length)
+  )
+}
+
+/**
+ * Create the registry provider for a --registry value (defaults to DEFAULT_REGISTRY).
+ * Fixture paths are resolved from cwd, and .npmrc is read from it.
+ */
+export function createRegistryProvider(
+  registry: string = DEFAULT_REGISTRY,
+  cwd: string = process.cwd()
+): RegistryProvider {
+  if (registry.startsWith('file:')) {
+    return new FixtureRegistryProvider(resolve(cwd, registry.slice('file:'.length)))
+  }
+  if (registry === 'offline') {
+    return new OfflineRegistryProvider()
+  }
+
+  const npmrc = loadNpmrc(cwd)
+  if (registry === 'jsdelivr') {
+    return new JsdelivrRegistryProvider(new NpmRegistryProvider(npmrc))
+  }
+  if (registry === 'npm') {
+    return new NpmRegistryProvider(npmrc)
+  }
+  if (/^https?:\/\//.test(registry)) {
+    return new PrivateRegistryProvider(registry, npmrc)
+  }
+  throw new Error(
+    `Unknown registry: ${registry} (expected jsdelivr, npm, offline, a URL or file:<path>)`
+  )
+}
@@ -1,13 +1,78 @@
+/**
+ * Severity levels used by npm advisories, lowest first
+ */
+export type AdvisorySeverity = 'low' | 'moderate' | 'high' | 'critical'
+
+/**
+ * Known vulnerability affecting a range of versions of a package
+ */
+export interface Advisory {
+  id: string // GHSA or OSV identifier
+  title: string
+  severity: AdvisorySeverity
+  vulnerableVersions: string // Semver range of the affected versions
+  url?: string
+  cves?: string[] // CVE aliases, when known
+}
+
+/**
+ * Release notes of one version, from GitHub Releases or the package changelog
+ */
+export interface ReleaseNote {
+  version: string
+  title?: string
+  body: string // Markdown
+  date?: string
+  url?: string
+}
+
+/**
+ * Version published too recently to be offered (minReleaseAge)
+ */
+export interface QuarantinedVersion {
+  version: string
+  publishedAt: string // ISO date from the registry `time` field
+  availableAt: number // When it becomes old enough to be offered, in ms
+}
+
+/**
+ * Newest version not offered because of a .inuprc `pin` or `maxUpdate` policy
+ */
+export interface RestrictedVersion {
+  version: string
+  reason: string // e.g. "pinned to ~5.4" or "maxUpdate minor"
+}
+
 export interface PackageInfo {
   name: string
   currentVersion: string // Raw version specifier from package.json (with ^/~ prefixes)
   rangeVersion: string // Version that satisfies current range
   latestVersion: string // Absolute latest version
-  type: 'dependencies' | 'devDependencies' | 'optionalDependencies' | 'peerDependencies'
+  type:
+    | 'dependencies'
+    | 'devDependencies'
+    | 'optionalDependencies'
+    | 'peerDependencies'
+    | 'overrides' // overrides, pnpm.overrides and resolutions
+    | 'catalog' // Entries of the pnpm-workspace.yaml catalogs
   packageJsonPath: string // Path to the package.json file
   isOutdated: boolean
   hasRangeUpdate: boolean // If range version is different from current
   hasMajorUpdate: boolean // If latest version is a major update
+  installedVersion?: string // Version resolved in the lockfile, when it satisfies the specifier
+  lockfileOnlyUpdate?: boolean // Range version already satisfies the specifier, a lockfile refresh is enough
+  channel?: string // Dist-tag tracked for this package (from .inuprc `channels`), e.g. next
+  distTags?: Record<string, string> // Dist-tags published on the registry
+  cachedAt?: number // When the version data was cached, set when it is served past its TTL (offline)
+  overridePath?: string[] // Location of an override in package.json, e.g. ['pnpm', 'overrides', 'a>b']
+  catalog?: string // pnpm catalog of the entry, packageJsonPath being its pnpm-workspace.yaml
+  catalogConsumers?: number // Dependencies referencing the catalog entry
+  advisories?: Advisory[] // Advisories affecting the installed version
+  engineIncompatible?: string[] // Offered versions whose engines.node excludes the project's Node
+  heldBack?: string // Newest version, not offered because its engines.node excludes the project's Node
+  quarantined?: QuarantinedVersion // Newest version, not offered until it is minReleaseAge days old
+  allowedRange?: string // Versions allowed by the .inuprc `pin` and `maxUpdate` policies
+  restricted?: RestrictedVersion // Newest version, not offered because of those policies
   description?: string // Package description from npm registry
   homepage?: string // Package homepage URL
   repository?: string // GitHub/repository URL for releases
@@ -22,6 +87,20 @@ export interface PackageUpgradeChoice {
   upgradeType: 'none' | 'range' | 'latest'
   targetVersion: string
   currentVersionSpecifier: string // Original version specifier with prefix
+  overridePath?: string[] // Location of the override to rewrite instead of the dependency
+  catalog?: string // pnpm catalog entry to rewrite, in the pnpm-workspace.yaml at packageJsonPath
+}
+
+/**
+ * peerDependencies range that the versions after an upgrade do not satisfy
+ */
+export interface PeerConflict {
+  name: string // Package declaring the peer dependency
+  version: string // Its version after the upgrade
+  peerName: string
+  peerRange: string
+  peerVersion: string // Version of the peer after the upgrade
+  suggestion?: { name: string; version: string } // Companion upgrade resolving the conflict
 }
 
 export interface PackageSelectionState {
@@ -35,43 +114,143 @@ export interface PackageSelectionState {
   selectedOption: 'none' | 'range' | 'latest'
   hasRangeUpdate: boolean
   hasMajorUpdate: boolean
-  type: 'dependencies' | 'devDependencies' | 'optionalDependencies' | 'peerDependencies'
+  installedVersion?: string // Version resolved in the lockfile
+  lockfileOnlyUpdate?: boolean // Range version already satisfies the specifier
+  channel?: string // Dist-tag tracked for this package
+  distTags?: Record<string, string> // Dist-tags published on the registry
+  cachedAt?: number // When the version data was cached, if served offline
+  advisories?: Advisory[] // Advisories affecting the installed version
+  engineIncompatible?: string[] // Offered versions whose engines.node excludes the project's Node
+  heldBack?: string // Newest version, not offered because of its engines.node
+  quarantined?: QuarantinedVersion // Newest version, too recent for minReleaseAge
+  allowedRange?: string // Targets allowed by the pin and maxUpdate policies
+  restricted?: RestrictedVersion // Newest version, held back by those policies
+  overridePath?: string[] // Location of the override, when the package is one
+  catalog?: string // pnpm catalog, when the package is one of its entries
+  catalogConsumers?: number // Dependencies referencing the catalog entry
+  type:
+    | 'dependencies'
+    | 'devDependencies'
+    | 'optionalDependencies'
+    | 'peerDependencies'
+    | 'overrides' // overrides, pnpm.overrides and resolutions
+    | 'catalog' // Entries of the pnpm-workspace.yaml catalogs
   description?: string // Package description from npm registry
   homepage?: string // Package homepage URL
   repository?: string // GitHub/repository URL for releases
   weeklyDownloads?: number // Weekly download count from npm
   author?: string // Package author
   license?: string // Package license
+  releaseNotes?: ReleaseNote[] // Notes between the installed and target version, undefined while loading
+  group?: string // Name of the group (.inuprc `groups`) the package is upgraded with
+  groupMembers?: PackageSelectionState[] // Set on the row of a group, selecting for all its members
+  groupExpanded?: boolean // Whether the members of a group row are listed below it
+}
+
+/**
+ * Family of packages upgraded together, e.g. { name: 'babel', patterns: ['@babel/*'] }
+ */
+export interface PackageGroup {
+  name: string
+  patterns: string[]
 }
 
 export interface GroupedPackages {
   main: PackageSelectionState[] // dependencies + devDependencies
   peer: PackageSelectionState[] // peerDependencies
   optional: PackageSelectionState[] // optionalDependencies
+  overrides: PackageSelectionState[] // overrides, pnpm.overrides and resolutions
 }
 
 export type RenderableItem =
-  | { type: 'header'; title: string; sectionType: 'main' | 'peer' | 'optional' }
+  | { type: 'header'; title: string; sectionType: 'main' | 'peer' | 'optional' | 'overrides' }
   | { type: 'spacer' }
   | { type: 'package'; state: PackageSelectionState; originalIndex: number }
 
 export type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun'
 
+/**
+ * How the specifier of an upgraded dependency is written: keeping the shape of the current one,
+ * or as ^version, ~version or the exact version
+ */
+export type RangeStrategy = 'preserve' | 'caret' | 'tilde' | 'exact'
+
+/**
+ * Range strategy for each dependency, the most specific setting applying:
+ * the workspace package, then the dependency type, then the default
+ */
+export interface RangeStrategyConfig {
+  default?: RangeStrategy
+  types?: Partial<Record<PackageInfo['type'], RangeStrategy>>
+  workspaces?: Record<string, RangeStrategy> // Workspace package name or directory, glob patterns allowed
+}
+
+/**
+ * Highest kind of version bump applied by the non-interactive (--yes) mode
+ */
+export type UpgradeTarget = 'patch' | 'minor' | 'latest'
+
 export interface PackageManagerInfo {
   name: PackageManager
   displayName: string
   lockFile: string
   workspaceFile: string | null
   installCommand: string
+  updateCommand: string | null // Refreshes the lockfile for named packages, null when unsupported
   color: any // chalk instance
 }
 
+/**
+ * How upgrades are split into git commits with --commit
+ */
+export type CommitGroupBy = 'package' | 'file' | 'type'
+
 export interface UpgradeOptions {
   cwd?: string
   excludePatterns?: string[]
   packageManager?: PackageManager // Manual override for package manager
   ignorePackages?: string[] // Package names/patterns to ignore (from .inuprc or --ignore flag)
   debug?: boolean // Write verbose debug log to /tmp/inup-debug-YYYY-MM-DD.log
+  yes?: boolean // Skip the interactive selector and apply upgrades from the target policy
+  target?: UpgradeTarget // Upgrade policy used with yes (defaults to 'minor')
+  dryRun?: boolean // Print a diff of the package.json edits without writing files or installing
+  patchFile?: string // Also write the dry-run diff to this file
+  verifyCommand?: string // Command run after install (from .inuprc `verify`), failures are bisected
+  commit?: CommitGroupBy // Install and commit the upgrades one group at a time
+  lockfileOnly?: boolean // Apply in-range updates with the package manager's update command, keeping specifiers
+  channels?: Record<string, string> // Dist-tag to follow per package (from .inuprc `channels`)
+  registry?: string // Registry provider: jsdelivr, npm, offline, a registry URL or file:<fixture.json>
+  advisories?: string // OSV JSON file read instead of the registry advisory endpoint
+  respectEngines?: boolean // Offer the newest versions whose engines.node accepts the project's Node
+  minReleaseAge?: number // Days a version must have been published before it is offered
+  groups?: PackageGroup[] // Package families shown as one row in the selector (from .inuprc `groups`)
+  pin?: Record<string, string> // Range the versions of a package must stay in (from .inuprc `pin`)
+  maxUpdate?: Record<string, UpdateLevel> // Largest bump allowed per package (from .inuprc `maxUpdate`)
+  rangeStrategy?: RangeStrategyConfig // How upgraded specifiers are written (defaults to preserve)
+}
+
+/**
+ * Size of the bump between the current and the newest available version
+ */
+export type UpdateLevel = 'major' | 'minor' | 'patch'
+
+/**
+ * Maximum number of outdated packages allowed per update level before `inup check` fails.
+ * Levels without a threshold are not counted.
+ */
+export type CheckThresholds = Partial<Record<UpdateLevel, number>>
+
+/**
+ * Machine-readable output formats for `inup check --reporter`
+ */
+export type ReporterFormat = 'json' | 'markdown' | 'sarif'
+
+export interface CheckOptions extends UpgradeOptions {
+  thresholds?: CheckThresholds // When no threshold is set, any outdated package fails the check
+  failExitCode?: number // Exit code returned when a threshold is exceeded (defaults to 1)
+  reporter?: ReporterFormat // Print a machine-readable report instead of the console table
+  outputFile?: string // Write the report to this file instead of stdout
+  toolVersion?: string // inup version recorded in SARIF reports
 }
 
 export interface PackageJson {
@@ -11,8 +11,10 @@ export type InputAction =
   | { type: 'confirm' }
   | { type: 'bulk_select_minor' }
   | { type: 'bulk_select_latest' }
+  | { type: 'bulk_select_security' }
   | { type: 'bulk_unselect_all' }
   | { type: 'toggle_info_modal' }
+  | { type: 'toggle_group' }
   | { type: 'toggle_theme_modal' }
   | { type: 'theme_navigate_up' }
   | { type: 'theme_navigate_down' }
@@ -201,6 +203,11 @@ export class InputHandler {
         this.onAction({ type: 'bulk_select_latest' })
         break
 
+      case 's':
+      case 'S':
+        this.onAction({ type: 'bulk_select_security' })
+        break
+
       case 'u':
       case 'U':
         this.onAction({ type: 'bulk_unselect_all' })
@@ -237,6 +244,11 @@ export class InputHandler {
         this.onAction({ type: 'toggle_theme_modal' })
         break
 
+      case 'g':
+      case 'G':
+        this.onAction({ type: 'toggle_group' })
+        break
+
       case 'escape':
         // Close modal if open
         if (uiState.showInfoModal) {
@@ -1,9 +1,30 @@
 import chalk from 'chalk'
+import { PeerConflict } from '../../types'
+
+/**
+ * Render the peer dependency conflicts of the selected upgrades, with their companion upgrades
+ */
+export function renderPeerConflicts(conflicts: PeerConflict[]): string {
+  if (conflicts.length === 0) {
+    return ''
+  }
+
+  let output = chalk.yellow.bold(`\n⚠️  ${conflicts.length} peer dependency conflict(s):\n`)
+  conflicts.forEach((conflict) => {
+    output += `  • ${chalk.cyan(`${conflict.name}@${conflict.version}`)} requires ${chalk.cyan(conflict.peerName)} ${chalk.yellow(conflict.peerRange)}, got ${chalk.red(conflict.peerVersion)}\n`
+    if (conflict.suggestion) {
+      output += chalk.gray(
+        `    → also upgrade ${conflict.suggestion.name} to ${conflict.suggestion.version}\n`
+      )
+    }
+  })
+  return output
+}
 
 /**
  * Render confirmation screen
  */
-export function renderConfirmation(choices: any[]): string {
+export function renderConfirmation(choices: any[], conflicts: PeerConflict[] = []): string {
   if (choices.length === 0) {
     return chalk.yellow('No packages selected for upgrade.')
   }
@@ -27,6 +48,7 @@ export function renderConfirmation(choices: any[]): string {
     output += `  • ${chalk.cyan(packageName)} → ${upgradeTypeColor(choice.targetVersion)} ${chalk.gray(`(${choice.upgradeType})`)}${instancesText}\n`
   })
 
+  output += renderPeerConflicts(conflicts)
   output += chalk.gray('Press Enter/Y to proceed, N to go back to selection, ESC to cancel\n')
 
   return output
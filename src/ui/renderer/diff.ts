@@ -0,0 +1,18 @@
+import chalk from 'chalk'
+
+/**
+ * Colorize a unified diff for terminal output
+ */
+export function renderDiff(patch: string): string {
+  return patch
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line)
+      if (line.startsWith('@@')) return chalk.cyan(line)
+      if (line.startsWith('+')) return chalk.green(line)
+      if (line.startsWith('-')) return chalk.red(line)
+      if (line.startsWith('\\')) return chalk.gray(line)
+      return line
+    })
+    .join('\n')
+}
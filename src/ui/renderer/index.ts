@@ -1,8 +1,14 @@
-import { PackageSelectionState, RenderableItem, PackageManagerInfo } from '../../types'
+import {
+  PackageSelectionState,
+  RenderableItem,
+  PackageManagerInfo,
+  PeerConflict,
+} from '../../types'
 import * as PackageList from './package-list'
 import * as Confirmation from './confirmation'
 import * as Modal from './modal'
 import * as ThemeSelector from './theme-selector'
+import * as Diff from './diff'
 
 /**
  * Main UI renderer class that composes all rendering parts
@@ -12,7 +18,10 @@ export class UIRenderer {
     return PackageList.renderPackageLine(state, index, isCurrentRow)
   }
 
-  renderSectionHeader(title: string, sectionType: 'main' | 'peer' | 'optional'): string {
+  renderSectionHeader(
+    title: string,
+    sectionType: 'main' | 'peer' | 'optional' | 'overrides'
+  ): string {
     return PackageList.renderSectionHeader(title, sectionType)
   }
 
@@ -50,12 +59,20 @@ export class UIRenderer {
     )
   }
 
-  renderPackagesTable(packages: any[]): string {
-    return PackageList.renderPackagesTable(packages)
+  renderPackagesTable(packages: any[], showDetails: boolean = false): string {
+    return PackageList.renderPackagesTable(packages, showDetails)
   }
 
-  renderConfirmation(choices: any[]): string {
-    return Confirmation.renderConfirmation(choices)
+  renderConfirmation(choices: any[], conflicts: PeerConflict[] = []): string {
+    return Confirmation.renderConfirmation(choices, conflicts)
+  }
+
+  renderPeerConflicts(conflicts: PeerConflict[]): string {
+    return Confirmation.renderPeerConflicts(conflicts)
+  }
+
+  renderDiff(patch: string): string {
+    return Diff.renderDiff(patch)
   }
 
   renderPackageInfoLoading(
@@ -69,9 +86,18 @@ export class UIRenderer {
   renderPackageInfoModal(
     state: PackageSelectionState,
     terminalWidth: number = 80,
-    terminalHeight: number = 24
+    terminalHeight: number = 24,
+    notesScroll: number = 0
   ): string[] {
-    return Modal.renderPackageInfoModal(state, terminalWidth, terminalHeight)
+    return Modal.renderPackageInfoModal(state, terminalWidth, terminalHeight, notesScroll)
+  }
+
+  getReleaseNotesMaxScroll(
+    state: PackageSelectionState,
+    terminalWidth: number = 80,
+    terminalHeight: number = 24
+  ): number {
+    return Modal.getReleaseNotesMaxScroll(state, terminalWidth, terminalHeight)
   }
 
   renderThemeSelectorModal(
@@ -89,3 +115,4 @@ export * from './package-list'
 export * from './confirmation'
 export * from './modal'
 export * from './theme-selector'
+export * from './diff'
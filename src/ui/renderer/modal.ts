@@ -1,7 +1,10 @@
 import chalk from 'chalk'
+import * as semver from 'semver'
 import { PackageSelectionState } from '../../types'
 import { getThemeColor } from '../themes-colors'
 import { VersionUtils } from '../utils'
+import { getSeverityColor } from './package-list'
+import { isAffectedBy, isBreakingChange } from '../../utils'
 
 // Use shared ANSI stripping utility
 const stripAnsi = VersionUtils.stripAnsi
@@ -39,6 +42,113 @@ function wrapText(text: string, maxWidth: number): string[] {
   return lines
 }
 
+/**
+ * Strip the markdown syntax that does not render in a terminal
+ */
+function cleanMarkdown(line: string): string {
+  return line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // Images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // Links keep their text
+    .replace(/<[^>]+>/g, '') // HTML tags
+    .replace(/\*\*|__|`/g, '')
+}
+
+/**
+ * Number of release notes lines visible at once in the info modal
+ */
+export function getReleaseNotesHeight(terminalHeight: number = 24): number {
+  return Math.max(5, terminalHeight - 24)
+}
+
+/**
+ * Format the release notes of a package for the info modal, one entry per output line.
+ * Major versions and breaking-change sections are highlighted.
+ */
+export function renderReleaseNotesLines(
+  state: PackageSelectionState,
+  contentWidth: number
+): string[] {
+  if (state.releaseNotes === undefined) {
+    return [chalk.cyan('⏳ Loading release notes...')]
+  }
+  if (state.releaseNotes.length === 0) {
+    return [chalk.gray('No release notes found')]
+  }
+
+  const installed = semver.coerce(state.installedVersion || state.currentVersion)
+  const lines: string[] = []
+  for (const note of state.releaseNotes) {
+    if (lines.length > 0) {
+      lines.push('')
+    }
+
+    const isMajor = installed !== null && semver.major(note.version) > installed.major
+    const majorText = isMajor ? ' major' : ''
+    const date = note.date ? ` ${note.date}` : ''
+    const titleWidth = Math.max(
+      0,
+      contentWidth - note.version.length - majorText.length - date.length
+    )
+    const title =
+      note.title && note.title.replace(/^v/, '') !== note.version
+        ? ` ${note.title}`.slice(0, titleWidth)
+        : ''
+    lines.push(
+      chalk.bold.cyan(note.version) +
+        chalk.bold.red(majorText) +
+        chalk.white(title) +
+        chalk.gray(date)
+    )
+
+    // A breaking-change heading highlights its whole section
+    let inBreakingSection = false
+    for (const rawLine of note.body.split(/\r?\n/)) {
+      const heading = rawLine.match(/^#{1,6}\s+(.*)$/)
+      const text = cleanMarkdown(heading ? heading[1] : rawLine).trimEnd()
+      if (heading) {
+        inBreakingSection = isBreakingChange(text)
+      }
+      if (!text.trim()) {
+        if (lines[lines.length - 1] !== '') {
+          lines.push('')
+        }
+        continue
+      }
+
+      const isBreaking = inBreakingSection || isBreakingChange(text)
+      const color = heading
+        ? isBreaking
+          ? chalk.bold.red
+          : chalk.bold.white
+        : isBreaking
+          ? chalk.red
+          : chalk.gray
+      for (const wrapped of wrapText(text.trim(), contentWidth)) {
+        lines.push(color(wrapped.slice(0, contentWidth)))
+      }
+    }
+  }
+
+  // No trailing blank line
+  while (lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+  return lines
+}
+
+/**
+ * Highest scroll offset of the release notes in the info modal
+ */
+export function getReleaseNotesMaxScroll(
+  state: PackageSelectionState,
+  terminalWidth: number = 80,
+  terminalHeight: number = 24
+): number {
+  const modalWidth = Math.min(terminalWidth - 6, 120)
+  const notesLines = renderReleaseNotesLines(state, modalWidth - 4)
+  return Math.max(0, notesLines.length - getReleaseNotesHeight(terminalHeight))
+}
+
 /**
  * Render a loading state for the info modal
  */
@@ -96,14 +206,17 @@ export function renderPackageInfoLoading(
 export function renderPackageInfoModal(
   state: PackageSelectionState,
   terminalWidth: number = 80,
-  terminalHeight: number = 24
+  terminalHeight: number = 24,
+  notesScroll: number = 0
 ): string[] {
   const modalWidth = Math.min(terminalWidth - 6, 120) // Leave margins
   const padding = Math.floor((terminalWidth - modalWidth) / 2)
   const lines: string[] = []
+  const notesLines = renderReleaseNotesLines(state, modalWidth - 4)
+  const notesHeight = Math.min(notesLines.length, getReleaseNotesHeight(terminalHeight))
 
   // Top padding to center vertically
-  const topPadding = Math.max(1, Math.floor((terminalHeight - 20) / 2))
+  const topPadding = Math.max(1, Math.floor((terminalHeight - 20 - notesHeight) / 2))
   for (let i = 0; i < topPadding; i++) {
     lines.push('')
   }
@@ -143,7 +256,10 @@ export function renderPackageInfoModal(
   const targetVersion = chalk.green(
     state.selectedOption === 'range' ? state.rangeVersion : state.latestVersion
   )
-  const versionText = `Current: ${currentVersion} → Target: ${targetVersion}`
+  const installedText = state.installedVersion
+    ? chalk.gray(` (installed ${state.installedVersion})`)
+    : ''
+  const versionText = `Current: ${currentVersion}${installedText} → Target: ${targetVersion}`
   const versionLength = stripAnsi(versionText).length
   const versionPadding = Math.max(0, modalWidth - 3 - versionLength)
   lines.push(
@@ -155,6 +271,55 @@ export function renderPackageInfoModal(
       chalk.gray('│')
   )
 
+  // Dist-tags published for the package, marking the followed channel
+  const distTags = Object.entries(state.distTags || {})
+  if (distTags.length > 1) {
+    const tagsText =
+      'Tags: ' +
+      distTags
+        .map(([tag, version]) => `${tag} ${version}${tag === state.channel ? ' (followed)' : ''}`)
+        .join(' • ')
+    for (const line of wrapText(tagsText, modalWidth - 4)) {
+      const tagsPadding = Math.max(0, modalWidth - 3 - line.length)
+      lines.push(
+        ' '.repeat(padding) +
+          chalk.gray('│') +
+          ' ' +
+          chalk.gray(line) +
+          ' '.repeat(tagsPadding) +
+          chalk.gray('│')
+      )
+    }
+  }
+
+  // Versions whose engines.node excludes the project's Node version, or too recent to be offered
+  const engineTarget = state.selectedOption === 'range' ? state.rangeVersion : state.latestVersion
+  const engineNotes = [
+    ...(state.engineIncompatible?.includes(engineTarget)
+      ? [chalk.red(`✗ ${engineTarget} does not support the project's Node version (engines.node)`)]
+      : []),
+    ...(state.heldBack
+      ? [chalk.yellow(`⇣ ${state.heldBack} held back, it does not support the project's Node`)]
+      : []),
+    // Time left until the newest release is old enough, formatAge measures from now to then
+    ...(state.quarantined
+      ? [
+          chalk.gray(
+            `◷ ${state.quarantined.version} published ${VersionUtils.formatAge(Date.parse(state.quarantined.publishedAt))} ago, offered in ${VersionUtils.formatAge(Date.now(), state.quarantined.availableAt)}`
+          ),
+        ]
+      : []),
+    ...(state.restricted
+      ? [chalk.gray(`⊘ ${state.restricted.version} held back, ${state.restricted.reason}`)]
+      : []),
+  ]
+  for (const note of engineNotes) {
+    const notePadding = Math.max(0, modalWidth - 3 - stripAnsi(note).length)
+    lines.push(
+      ' '.repeat(padding) + chalk.gray('│') + ' ' + note + ' '.repeat(notePadding) + chalk.gray('│')
+    )
+  }
+
   // Weekly downloads
   if (state.weeklyDownloads !== undefined) {
     const downloadsText = `📊 ${formatNumber(state.weeklyDownloads)} downloads/week`
@@ -188,6 +353,57 @@ export function renderPackageInfoModal(
     }
   }
 
+  // Advisories affecting the installed version, and whether the target fixes them
+  if (state.advisories?.length) {
+    lines.push(' '.repeat(padding) + chalk.gray('├' + '─'.repeat(modalWidth - 2) + '┤'))
+    const target = state.selectedOption === 'range' ? state.rangeVersion : state.latestVersion
+    for (const advisory of state.advisories) {
+      const ids = advisory.cves?.length
+        ? `${advisory.cves.join(', ')} (${advisory.id})`
+        : advisory.id
+      const fixText = isAffectedBy(target, advisory)
+        ? chalk.red('still affects target')
+        : chalk.green('fixed by target')
+      const headerText = `${getSeverityColor(advisory.severity)(`▲ ${advisory.severity}`)} ${chalk.white(ids)} · ${fixText}`
+      const advisoryLines = [
+        headerText,
+        ...wrapText(advisory.title, modalWidth - 6).map((line) => `  ${chalk.gray(line)}`),
+      ]
+      for (const line of advisoryLines) {
+        const linePadding = Math.max(0, modalWidth - 3 - stripAnsi(line).length)
+        lines.push(
+          ' '.repeat(padding) +
+            chalk.gray('│') +
+            ' ' +
+            line +
+            ' '.repeat(linePadding) +
+            chalk.gray('│')
+        )
+      }
+    }
+  }
+
+  // Release notes between the installed and target version, scrolled with ↑/↓
+  lines.push(' '.repeat(padding) + chalk.gray('├' + '─'.repeat(modalWidth - 2) + '┤'))
+  const notesOffset = Math.max(0, Math.min(notesScroll, notesLines.length - notesHeight))
+  const notesTarget = state.selectedOption === 'range' ? state.rangeVersion : state.latestVersion
+  const notesTitle =
+    chalk.bold(`Release notes ${state.installedVersion || state.currentVersion} → ${notesTarget}`) +
+    (notesLines.length > notesHeight
+      ? chalk.gray(`  ↑/↓ ${notesOffset + 1}-${notesOffset + notesHeight} of ${notesLines.length}`)
+      : '')
+  for (const line of [notesTitle, ...notesLines.slice(notesOffset, notesOffset + notesHeight)]) {
+    const linePadding = Math.max(0, modalWidth - 3 - stripAnsi(line).length)
+    lines.push(
+      ' '.repeat(padding) +
+        chalk.gray('│') +
+        ' ' +
+        line +
+        ' '.repeat(linePadding) +
+        chalk.gray('│')
+    )
+  }
+
   // Changelog/Releases section (moved to middle)
   if (state.repository) {
     lines.push(' '.repeat(padding) + chalk.gray('├' + '─'.repeat(modalWidth - 2) + '┤'))
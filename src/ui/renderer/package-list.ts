@@ -1,7 +1,9 @@
 import chalk from 'chalk'
-import { PackageSelectionState, RenderableItem, PackageInfo } from '../../types'
+import { PackageSelectionState, RenderableItem, PackageInfo, AdvisorySeverity } from '../../types'
 import { VersionUtils } from '../utils'
 import { getThemeColor } from '../themes-colors'
+import { getHighestSeverity } from '../../utils'
+import { getPackageStates } from '../state/group-manager'
 
 /**
  * Get type badge for dependency type (theme-aware)
@@ -14,12 +16,52 @@ function getTypeBadge(type: PackageInfo['type']): string {
       return getThemeColor('textSecondary')('[P]')
     case 'optionalDependencies':
       return getThemeColor('textSecondary')('[O]')
+    case 'overrides':
+      return getThemeColor('textSecondary')('[R]')
+    case 'catalog':
+      return getThemeColor('textSecondary')('[C]')
     case 'dependencies':
     default:
       return '' // No badge for regular dependencies
   }
 }
 
+/**
+ * Color used for an advisory severity
+ */
+export function getSeverityColor(severity: AdvisorySeverity): (text: string) => string {
+  switch (severity) {
+    case 'critical':
+      return chalk.bold.magenta
+    case 'high':
+      return chalk.red
+    case 'moderate':
+      return chalk.yellow
+    case 'low':
+    default:
+      return chalk.gray
+  }
+}
+
+/**
+ * Get the badge of the most severe advisory affecting the installed version
+ */
+function getAdvisoryBadge(advisories: PackageSelectionState['advisories']): string {
+  const severity = getHighestSeverity(advisories)
+  return severity ? getSeverityColor(severity)(`▲ ${severity}`) : ''
+}
+
+/**
+ * Get the badge of a catalog entry: its catalog, unless it is the default one, and its consumers
+ */
+function getCatalogBadge(state: PackageSelectionState): string {
+  if (!state.catalog) {
+    return ''
+  }
+  const catalog = state.catalog === 'default' ? '' : `${state.catalog} `
+  return chalk.gray(`${catalog}×${state.catalogConsumers ?? 0}`)
+}
+
 /**
  * Render a single package line
  * @param state Package selection state
@@ -69,6 +111,18 @@ export function renderPackageLine(state: PackageSelectionState, index: number, i
       state.rangeVersion
     )
     rangeVersionText = getThemeColor('versionRange')(rangeVersionWithPrefix)
+    // The specifier already allows this version, only the lockfile is behind
+    if (state.lockfileOnlyUpdate) {
+      rangeVersionText += chalk.gray(' ↻')
+    }
+    // Name the dist-tag the version comes from
+    if (state.channel) {
+      rangeVersionText += chalk.gray(` @${state.channel}`)
+    }
+    // Its engines.node excludes the project's Node version
+    if (state.engineIncompatible?.includes(state.rangeVersion)) {
+      rangeVersionText += chalk.red(' ✗node')
+    }
   } else {
     rangeDot = getThemeColor('dotEmpty')('○')
     rangeVersionText = ''
@@ -84,11 +138,57 @@ export function renderPackageLine(state: PackageSelectionState, index: number, i
       state.latestVersion
     )
     latestVersionText = getThemeColor('versionLatest')(latestVersionWithPrefix)
+    if (state.channel) {
+      latestVersionText += chalk.gray(` @${state.channel}`)
+    }
+    if (state.engineIncompatible?.includes(state.latestVersion)) {
+      latestVersionText += chalk.red(' ✗node')
+    }
   } else {
     latestDot = getThemeColor('dotEmpty')('○')
     latestVersionText = ''
   }
 
+  // A newer release was skipped because of its engines.node (respectEngines)
+  if (state.heldBack) {
+    const heldBackText = chalk.gray(' ⇣node')
+    if (state.hasMajorUpdate) {
+      latestVersionText += heldBackText
+    } else {
+      rangeVersionText += heldBackText
+    }
+  }
+
+  // A newer release exists but is too recent to be offered yet (minReleaseAge)
+  if (state.quarantined) {
+    const quarantinedText = chalk.gray(' ◷')
+    if (state.hasMajorUpdate) {
+      latestVersionText += quarantinedText
+    } else {
+      rangeVersionText += quarantinedText
+    }
+  }
+
+  // A newer release is outside the pin or maxUpdate policy of the package
+  if (state.restricted) {
+    const restrictedText = chalk.gray(` ⊘ ${state.restricted.version} ${state.restricted.reason}`)
+    if (state.hasMajorUpdate) {
+      latestVersionText += restrictedText
+    } else {
+      rangeVersionText += restrictedText
+    }
+  }
+
+  // Versions served from an expired cache entry (offline) show how old they are
+  if (state.cachedAt) {
+    const ageText = chalk.gray(` (${VersionUtils.formatAge(state.cachedAt)} old)`)
+    if (state.hasMajorUpdate) {
+      latestVersionText += ageText
+    } else {
+      rangeVersionText += ageText
+    }
+  }
+
   // Column widths with capped package name width
   // Layout: prefix(2) + name + dashes + spacing(3) + current(16) + spacing(3) + range(16) + spacing(3) + latest(16)
   const currentColumnWidth = 16 // Increased to accommodate ^ and ~ prefixes
@@ -104,9 +204,16 @@ export function renderPackageLine(state: PackageSelectionState, index: number, i
   const availableForPackageName = terminalWidth - prefixWidth - otherColumnsWidth - 1
   const packageNameWidth = Math.min(maxPackageNameWidth, Math.max(minPackageNameWidth, availableForPackageName))
 
+  // Members of an expanded group are indented below the group row
+  const indent = state.group && !state.groupMembers ? '  ' : ''
+
   // Apply ellipsis truncation if package name exceeds available width
   const badgeWidth = state.type === 'dependencies' ? 0 : 3 // [X] without leading space
-  const truncatedName = VersionUtils.truncateMiddle(state.name, packageNameWidth - 1 - badgeWidth) // -1 for space after name, -badgeWidth for badge
+  const nameBadge = [getAdvisoryBadge(state.advisories), getCatalogBadge(state)]
+    .filter(Boolean)
+    .join(' ')
+  const nameBadgeWidth = nameBadge ? VersionUtils.getVisualLength(nameBadge) + 1 : 0 // Badges and their trailing space
+  const truncatedName = VersionUtils.truncateMiddle(state.name, packageNameWidth - 1 - badgeWidth - nameBadgeWidth - indent.length) // -1 for space after name, -badgeWidth for badge
 
   // Helper function to determine if dashes should be shown based on available padding
   // Only show dashes if there's significant padding (> 2 chars) to fill
@@ -120,13 +227,14 @@ export function renderPackageLine(state: PackageSelectionState, index: number, i
   // Package name with dashes and badge at the end
   const typeBadge = getTypeBadge(state.type)
   const nameLength = VersionUtils.getVisualLength(truncatedName)
-  const namePadding = Math.max(0, packageNameWidth - nameLength - 1 - badgeWidth) // -1 for space after package name, -badgeWidth for badge at end
+  const namePadding = Math.max(0, packageNameWidth - nameLength - 1 - badgeWidth - nameBadgeWidth - indent.length) // -1 for space after package name, -badgeWidth for badge at end
   const nameDashes = shouldShowDashes(namePadding) ? dashColor('-').repeat(namePadding) : ' '.repeat(namePadding)
 
-  // Place badge at the end of dashes: name ------[D]
+  // Advisory and catalog badges right after the name, type badge at the end of dashes: name ▲ high ------[D]
+  const displayNameWithBadges = indent + (nameBadge ? `${displayName} ${nameBadge}` : displayName)
   const packageNameSection = typeBadge
-    ? `${displayName} ${nameDashes}${typeBadge}`
-    : `${displayName} ${nameDashes}`
+    ? `${displayNameWithBadges} ${nameDashes}${typeBadge}`
+    : `${displayNameWithBadges} ${nameDashes}`
 
   // Current version section with dashes only if needed
   const currentSection = `${currentDot} ${currentVersion}`
@@ -170,9 +278,18 @@ export function renderPackageLine(state: PackageSelectionState, index: number, i
 /**
  * Render section header
  */
-export function renderSectionHeader(title: string, sectionType: 'main' | 'peer' | 'optional'): string {
+export function renderSectionHeader(
+  title: string,
+  sectionType: 'main' | 'peer' | 'optional' | 'overrides'
+): string {
   const colorFn =
-    sectionType === 'main' ? chalk.cyan : sectionType === 'peer' ? chalk.magenta : chalk.yellow
+    sectionType === 'main'
+      ? chalk.cyan
+      : sectionType === 'peer'
+        ? chalk.magenta
+        : sectionType === 'optional'
+          ? chalk.yellow
+          : chalk.blue
   return '  ' + colorFn.bold(title)
 }
 
@@ -264,6 +381,10 @@ export function renderInterface(
         chalk.bold.white('D/P/O ') +
         getThemeColor('textSecondary')('Filter') +
         '  ' +
+        // Only offered when some packages are grouped
+        (states.some((state) => state.group)
+          ? chalk.bold.white('G ') + getThemeColor('textSecondary')('Group') + '  '
+          : '') +
         chalk.bold.white('I ') +
         getThemeColor('textSecondary')('Info') +
         '  ' +
@@ -273,17 +394,21 @@ export function renderInterface(
         chalk.bold.white('L ') +
         getThemeColor('textSecondary')('All') +
         '  ' +
+        // Only offered when some package has a known advisory
+        (states.some((state) => state.advisories?.length)
+          ? chalk.bold.white('S ') + getThemeColor('textSecondary')('Security') + '  '
+          : '') +
         chalk.bold.white('U ') +
         getThemeColor('textSecondary')('None')
     )
   }
 
-  // Show status line with item range
-  const totalPackages = states.length
+  // Show status line with item range (a group row counts all its members)
+  const totalPackages = getPackageStates(states).length
   const totalBeforeFilter = totalPackagesBeforeFilter || totalPackages
-  // Use renderableItems length only if we have renderable items (grouped mode), otherwise use totalPackages (flat mode)
+  // Use renderableItems length only if we have renderable items (grouped mode), otherwise use the rows (flat mode)
   const totalVisualItems =
-    renderableItems && renderableItems.length > 0 ? renderableItems.length : totalPackages
+    renderableItems && renderableItems.length > 0 ? renderableItems.length : states.length
   const startItem = scrollOffset + 1
   const endItem = Math.min(scrollOffset + maxVisibleItems, totalVisualItems)
 
@@ -393,10 +518,33 @@ export function renderInterface(
   return output
 }
 
+/**
+ * Short label for a dependency type in the plain packages table
+ */
+function getTypeLabel(type: PackageInfo['type']): string {
+  switch (type) {
+    case 'devDependencies':
+      return 'dev'
+    case 'peerDependencies':
+      return 'peer'
+    case 'optionalDependencies':
+      return 'optional'
+    case 'overrides':
+      return 'override'
+    case 'catalog':
+      return 'catalog'
+    case 'dependencies':
+    default:
+      return 'prod'
+  }
+}
+
 /**
  * Render packages table
+ * @param packages Packages returned by the package detector
+ * @param showDetails Print one row per outdated package (used by `inup check`)
  */
-export function renderPackagesTable(packages: any[]): string {
+export function renderPackagesTable(packages: any[], showDetails: boolean = false): string {
   if (packages.length === 0) {
     return chalk.green('✅ All packages are up to date!')
   }
@@ -407,6 +555,78 @@ export function renderPackagesTable(packages: any[]): string {
     return chalk.green('✅ All packages are up to date!')
   }
 
-  // Just show a simple message, the interactive interface will handle the display
-  return chalk.bold.blue('🚀 inup\n')
+  if (!showDetails) {
+    // Just show a simple message, the interactive interface will handle the display
+    return chalk.bold.blue('🚀 inup\n')
+  }
+
+  // One row per package and specifier, counting the package.json files it appears in
+  const rows = new Map<string, { pkg: PackageInfo; count: number }>()
+  for (const pkg of outdatedPackages as PackageInfo[]) {
+    const key = `${pkg.name}@${pkg.currentVersion}`
+    const row = rows.get(key)
+    if (row) {
+      row.count++
+    } else {
+      rows.set(key, { pkg, count: 1 })
+    }
+  }
+
+  const headers = ['Package', 'Current', 'Installed', 'Range', 'Latest', 'Type']
+  const cells = Array.from(rows.values()).map(({ pkg, count }) => {
+    // Versions served from an expired cache entry (offline) show how old they are
+    const age = pkg.cachedAt ? ` (${VersionUtils.formatAge(pkg.cachedAt)} old)` : ''
+    const severity = getHighestSeverity(pkg.advisories)
+    const engineText = (version: string) =>
+      pkg.engineIncompatible?.includes(version) ? ' ✗node' : ''
+    const heldBack =
+      (pkg.heldBack ? ' ⇣node' : '') +
+      (pkg.quarantined
+        ? ` ◷ ${pkg.quarantined.version} in ${VersionUtils.formatAge(Date.now(), pkg.quarantined.availableAt)}`
+        : '') +
+      (pkg.restricted ? ` ⊘ ${pkg.restricted.version} ${pkg.restricted.reason}` : '')
+    return [
+      (count > 1 ? `${pkg.name} (${count})` : pkg.name) + (severity ? ` ▲ ${severity}` : ''),
+      pkg.currentVersion,
+      pkg.installedVersion || '-',
+      pkg.hasRangeUpdate
+        ? VersionUtils.applyVersionPrefix(pkg.currentVersion, pkg.rangeVersion) +
+          (pkg.lockfileOnlyUpdate ? ' ↻' : '') +
+          (pkg.channel ? ` @${pkg.channel}` : '') +
+          engineText(pkg.rangeVersion) +
+          (pkg.hasMajorUpdate ? '' : heldBack + age)
+        : '-',
+      pkg.hasMajorUpdate
+        ? VersionUtils.applyVersionPrefix(pkg.currentVersion, pkg.latestVersion) +
+          (pkg.channel ? ` @${pkg.channel}` : '') +
+          engineText(pkg.latestVersion) +
+          heldBack +
+          age
+        : '-',
+      getTypeLabel(pkg.type),
+    ]
+  })
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...cells.map((row) => row[column].length))
+  )
+
+  const lines: string[] = []
+  lines.push(chalk.bold(headers.map((header, column) => header.padEnd(widths[column])).join('  ')))
+  for (const row of cells) {
+    const [name, current, installed, range, latest, type] = row.map((cell, column) =>
+      cell.padEnd(widths[column])
+    )
+    lines.push(
+      [
+        chalk.white(name),
+        chalk.gray(current),
+        chalk.white(installed),
+        chalk.yellow(range),
+        chalk.red(latest),
+        chalk.gray(type),
+      ].join('  ')
+    )
+  }
+
+  return lines.join('\n')
 }
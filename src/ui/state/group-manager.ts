@@ -0,0 +1,136 @@
+import * as semver from 'semver'
+import { PackageSelectionState } from '../../types'
+import { isVersionAllowed } from '../../utils'
+
+/**
+ * Highest of the given versions, ignoring the ones semver cannot read
+ */
+function highestVersion(versions: string[]): string {
+  const valid = versions.filter((version) => semver.valid(version))
+  return valid.length > 0 ? semver.rsort(valid)[0] : versions[0] || ''
+}
+
+/**
+ * Option shown on a group row: none when no member is selected,
+ * latest when any member is selected for its latest version, range otherwise
+ */
+function getGroupOption(members: PackageSelectionState[]): PackageSelectionState['selectedOption'] {
+  if (members.every((member) => member.selectedOption === 'none')) {
+    return 'none'
+  }
+  return members.some((member) => member.selectedOption === 'latest') ? 'latest' : 'range'
+}
+
+/**
+ * Build the row of a group, summarizing its members: the lowest current version
+ * and the highest range and latest versions they can be upgraded to
+ */
+function buildGroupRow(
+  name: string,
+  members: PackageSelectionState[],
+  expanded: boolean
+): PackageSelectionState {
+  const lowest = members.reduce((current, member) =>
+    semver.valid(member.currentVersion) &&
+    semver.valid(current.currentVersion) &&
+    semver.lt(member.currentVersion, current.currentVersion)
+      ? member
+      : current
+  )
+  const types = new Set(members.map((member) => member.type))
+  const advisories = members.flatMap((member) => member.advisories || [])
+
+  return {
+    name: `${expanded ? '▾' : '▸'} ${name} (${members.length})`,
+    packageJsonPath: members[0].packageJsonPath,
+    currentVersionSpecifier: lowest.currentVersionSpecifier,
+    currentVersion: lowest.currentVersion,
+    rangeVersion: highestVersion(
+      members.filter((member) => member.hasRangeUpdate).map((member) => member.rangeVersion)
+    ),
+    latestVersion: highestVersion(
+      members.filter((member) => member.hasMajorUpdate).map((member) => member.latestVersion)
+    ),
+    selectedOption: getGroupOption(members),
+    hasRangeUpdate: members.some((member) => member.hasRangeUpdate),
+    hasMajorUpdate: members.some((member) => member.hasMajorUpdate),
+    advisories: advisories.length > 0 ? advisories : undefined,
+    type: types.size === 1 ? members[0].type : 'dependencies',
+    group: name,
+    groupMembers: members,
+    groupExpanded: expanded,
+  }
+}
+
+/**
+ * Apply the option selected on a group row to its members, each member taking
+ * its own newest version when it has no update of the selected kind
+ */
+export function applyGroupSelection(row: PackageSelectionState): void {
+  for (const member of row.groupMembers || []) {
+    const canRange =
+      member.hasRangeUpdate && isVersionAllowed(member.rangeVersion, member.allowedRange)
+    const canLatest =
+      member.hasMajorUpdate && isVersionAllowed(member.latestVersion, member.allowedRange)
+    if (row.selectedOption === 'latest' && canLatest) {
+      member.selectedOption = 'latest'
+    } else if (row.selectedOption !== 'none' && canRange) {
+      member.selectedOption = 'range'
+    } else {
+      member.selectedOption = 'none'
+    }
+  }
+}
+
+/**
+ * Packages listed by the rows, group rows standing for all their members
+ */
+export function getPackageStates(rows: PackageSelectionState[]): PackageSelectionState[] {
+  return Array.from(new Set(rows.flatMap((row) => row.groupMembers || [row])))
+}
+
+export class GroupManager {
+  private expandedGroups = new Set<string>()
+
+  isExpanded(name: string): boolean {
+    return this.expandedGroups.has(name)
+  }
+
+  toggleGroup(name: string): void {
+    if (this.expandedGroups.has(name)) {
+      this.expandedGroups.delete(name)
+    } else {
+      this.expandedGroups.add(name)
+    }
+  }
+
+  /**
+   * Replace the members of each group by one row, placed where its first member was,
+   * followed by the members when the group is expanded
+   */
+  applyGroups(states: PackageSelectionState[]): PackageSelectionState[] {
+    const members = new Map<string, PackageSelectionState[]>()
+    for (const state of states) {
+      if (state.group) {
+        members.set(state.group, [...(members.get(state.group) || []), state])
+      }
+    }
+    if (members.size === 0) {
+      return states
+    }
+
+    const rows: PackageSelectionState[] = []
+    for (const state of states) {
+      if (!state.group) {
+        rows.push(state)
+      } else if (members.get(state.group)![0] === state) {
+        const expanded = this.isExpanded(state.group)
+        rows.push(buildGroupRow(state.group, members.get(state.group)!, expanded))
+        if (expanded) {
+          rows.push(...members.get(state.group)!)
+        }
+      }
+    }
+    return rows
+  }
+}
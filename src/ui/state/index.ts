@@ -2,3 +2,4 @@ export { StateManager, type UIState } from './state-manager'
 export { NavigationManager, type NavigationState } from './navigation-manager'
 export { ModalManager, type ModalState } from './modal-manager'
 export { FilterManager, type FilterState } from './filter-manager'
+export { GroupManager, applyGroupSelection, getPackageStates } from './group-manager'
@@ -2,6 +2,7 @@ export interface ModalState {
   showInfoModal: boolean // Whether to show package info modal
   infoModalRow: number // Which package's info to show
   isLoadingModalInfo: boolean // Whether we're fetching package info for the modal
+  infoModalScroll: number // First visible line of the release notes
 }
 
 export class ModalManager {
@@ -12,6 +13,7 @@ export class ModalManager {
       showInfoModal: false,
       infoModalRow: -1,
       isLoadingModalInfo: false,
+      infoModalScroll: 0,
     }
   }
 
@@ -39,6 +41,7 @@ export class ModalManager {
       // Open the modal for the current package
       this.state.showInfoModal = true
       this.state.infoModalRow = currentRow
+      this.state.infoModalScroll = 0
     }
   }
 
@@ -46,9 +49,20 @@ export class ModalManager {
     this.state.showInfoModal = false
     this.state.infoModalRow = -1
     this.state.isLoadingModalInfo = false
+    this.state.infoModalScroll = 0
   }
 
   setModalLoading(isLoading: boolean): void {
     this.state.isLoadingModalInfo = isLoading
   }
+
+  /**
+   * Scroll the release notes by delta lines, within 0..maxScroll
+   */
+  scrollInfoModal(delta: number, maxScroll: number): void {
+    this.state.infoModalScroll = Math.max(
+      0,
+      Math.min(maxScroll, this.state.infoModalScroll + delta)
+    )
+  }
 }
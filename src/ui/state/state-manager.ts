@@ -1,8 +1,10 @@
 import { PackageSelectionState, RenderableItem } from '../../types'
+import { getFixedAdvisories, isVersionAllowed } from '../../utils'
 import { NavigationManager, NavigationState } from './navigation-manager'
 import { ModalManager, ModalState } from './modal-manager'
 import { FilterManager, FilterState } from './filter-manager'
 import { ThemeManager, ThemeState } from './theme-manager'
+import { GroupManager, applyGroupSelection, getPackageStates } from './group-manager'
 
 export interface DisplayState {
   maxVisibleItems: number
@@ -28,6 +30,7 @@ export interface UIState {
   showInfoModal: boolean
   infoModalRow: number
   isLoadingModalInfo: boolean
+  infoModalScroll: number
   filterMode: boolean
   filterQuery: string
   showThemeModal: boolean
@@ -39,6 +42,7 @@ export class StateManager {
   private modalManager: ModalManager
   private filterManager: FilterManager
   private themeManager: ThemeManager
+  private groupManager: GroupManager
   private displayState: DisplayState
   private renderState: RenderState
   private readonly headerLines = 5 // title (with label) + empty + 1 instruction line + status + empty
@@ -50,6 +54,7 @@ export class StateManager {
     this.modalManager = new ModalManager()
     this.filterManager = new FilterManager()
     this.themeManager = new ThemeManager()
+    this.groupManager = new GroupManager()
 
     this.displayState = {
       maxVisibleItems,
@@ -83,6 +88,7 @@ export class StateManager {
       showInfoModal: modalState.showInfoModal,
       infoModalRow: modalState.infoModalRow,
       isLoadingModalInfo: modalState.isLoadingModalInfo,
+      infoModalScroll: modalState.infoModalScroll,
       filterMode: filterState.filterMode,
       filterQuery: filterState.filterQuery,
       showThemeModal: themeState.showThemeModal,
@@ -116,10 +122,18 @@ export class StateManager {
     const currentState = states[currentRow]
     if (!currentState) return
 
+    // Targets outside the pin and maxUpdate policies are never picked
+    const canRange =
+      currentState.hasRangeUpdate &&
+      isVersionAllowed(currentState.rangeVersion, currentState.allowedRange)
+    const canLatest =
+      currentState.hasMajorUpdate &&
+      isVersionAllowed(currentState.latestVersion, currentState.allowedRange)
+
     if (direction === 'left') {
       // Move selection left with wraparound: latest -> range -> none -> latest
       if (currentState.selectedOption === 'latest') {
-        if (currentState.hasRangeUpdate) {
+        if (canRange) {
           currentState.selectedOption = 'range'
         } else {
           currentState.selectedOption = 'none'
@@ -128,22 +142,22 @@ export class StateManager {
         currentState.selectedOption = 'none'
       } else if (currentState.selectedOption === 'none') {
         // Wrap around to the last available option
-        if (currentState.hasMajorUpdate) {
+        if (canLatest) {
           currentState.selectedOption = 'latest'
-        } else if (currentState.hasRangeUpdate) {
+        } else if (canRange) {
           currentState.selectedOption = 'range'
         }
       }
     } else {
       // Move selection right with wraparound: none -> range -> latest -> none
       if (currentState.selectedOption === 'none') {
-        if (currentState.hasRangeUpdate) {
+        if (canRange) {
           currentState.selectedOption = 'range'
-        } else if (currentState.hasMajorUpdate) {
+        } else if (canLatest) {
           currentState.selectedOption = 'latest'
         }
       } else if (currentState.selectedOption === 'range') {
-        if (currentState.hasMajorUpdate) {
+        if (canLatest) {
           currentState.selectedOption = 'latest'
         } else {
           // Wrap around to none
@@ -154,12 +168,37 @@ export class StateManager {
         currentState.selectedOption = 'none'
       }
     }
+
+    // The option selected on a group row applies to every member
+    if (currentState.groupMembers) {
+      applyGroupSelection(currentState)
+    }
+  }
+
+  /**
+   * Expand or collapse the group of the current row, moving to the group row when
+   * its members are collapsed from one of them
+   */
+  toggleGroup(states: PackageSelectionState[]): void {
+    const currentState = states[this.navigationManager.getCurrentRow()]
+    if (!currentState?.group) return
+
+    this.groupManager.toggleGroup(currentState.group)
+    if (!currentState.groupMembers) {
+      const groupRow = states.findIndex(
+        (state) => state.groupMembers && state.group === currentState.group
+      )
+      this.navigationManager.setCurrentRow(groupRow)
+      if (groupRow < this.navigationManager.getScrollOffset()) {
+        this.navigationManager.setScrollOffset(groupRow)
+      }
+    }
   }
 
   bulkSelectMinor(states: PackageSelectionState[]): void {
     if (states.length === 0) return
-    states.forEach((state) => {
-      if (state.hasRangeUpdate) {
+    getPackageStates(states).forEach((state) => {
+      if (state.hasRangeUpdate && isVersionAllowed(state.rangeVersion, state.allowedRange)) {
         state.selectedOption = 'range'
       }
     })
@@ -167,18 +206,42 @@ export class StateManager {
 
   bulkSelectLatest(states: PackageSelectionState[]): void {
     if (states.length === 0) return
-    states.forEach((state) => {
-      if (state.hasMajorUpdate) {
+    getPackageStates(states).forEach((state) => {
+      if (state.hasMajorUpdate && isVersionAllowed(state.latestVersion, state.allowedRange)) {
         state.selectedOption = 'latest'
-      } else if (state.hasRangeUpdate) {
+      } else if (state.hasRangeUpdate && isVersionAllowed(state.rangeVersion, state.allowedRange)) {
         state.selectedOption = 'range'
       }
     })
   }
 
+  /**
+   * Select the upgrades that fix a known advisory, preferring the range version
+   * unless the latest version fixes more of them
+   */
+  bulkSelectSecurity(states: PackageSelectionState[]): void {
+    if (states.length === 0) return
+    getPackageStates(states).forEach((state) => {
+      if (!state.advisories?.length) return
+      let bestFixCount = 0
+      if (state.hasRangeUpdate) {
+        bestFixCount = getFixedAdvisories(state.advisories, state.rangeVersion).length
+        if (bestFixCount > 0) {
+          state.selectedOption = 'range'
+        }
+      }
+      if (
+        state.hasMajorUpdate &&
+        getFixedAdvisories(state.advisories, state.latestVersion).length > bestFixCount
+      ) {
+        state.selectedOption = 'latest'
+      }
+    })
+  }
+
   bulkUnselectAll(states: PackageSelectionState[]): void {
     if (states.length === 0) return
-    states.forEach((state) => {
+    getPackageStates(states).forEach((state) => {
       state.selectedOption = 'none'
     })
   }
@@ -200,6 +263,10 @@ export class StateManager {
     this.renderState.forceFullRender = true
   }
 
+  scrollInfoModal(delta: number, maxScroll: number): void {
+    this.modalManager.scrollInfoModal(delta, maxScroll)
+  }
+
   // Filter delegation
   enterFilterMode(preserveQuery: boolean = false): void {
     this.filterManager.enterFilterMode(preserveQuery)
@@ -234,7 +301,7 @@ export class StateManager {
   }
 
   getFilteredStates(allStates: PackageSelectionState[]): PackageSelectionState[] {
-    return this.filterManager.getFilteredStates(allStates)
+    return this.groupManager.applyGroups(this.filterManager.getFilteredStates(allStates))
   }
 
   toggleDependencyTypeFilter(type: 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies'): void {
@@ -53,10 +53,16 @@ export const ConsoleUtils = {
    */
   LINE_WIDTH: 80,
 
+  /**
+   * Suppress progress output (used when stdout carries a machine-readable report)
+   */
+  silent: false,
+
   /**
    * Show a progress message on the current line (overwrites previous content)
    */
   showProgress(message: string): void {
+    if (ConsoleUtils.silent) return
     process.stdout.write(`\r${' '.repeat(ConsoleUtils.LINE_WIDTH)}\r${message}`)
   },
 
@@ -64,6 +70,7 @@ export const ConsoleUtils = {
    * Clear the current progress line
    */
   clearProgress(): void {
+    if (ConsoleUtils.silent) return
     process.stdout.write('\r' + ' '.repeat(ConsoleUtils.LINE_WIDTH) + '\r')
   },
 }
@@ -1,4 +1,5 @@
 import chalk from 'chalk'
+import { rewriteSpecifier } from '../../utils/specifier'
 
 /**
  * ANSI escape code pattern for stripping terminal colors
@@ -7,12 +8,19 @@ const ANSI_PATTERN = /\u001b\[[0-9;]*m/g
 
 export class VersionUtils {
   static applyVersionPrefix(originalSpecifier: string, targetVersion: string): string {
-    // Extract prefix from original specifier (^ or ~)
-    const prefixMatch = originalSpecifier.match(/^([^\d]+)/)
-    const prefix = prefixMatch ? prefixMatch[1] : ''
+    // Keep the shape of the original specifier: prefix, precision, comparators and unions
+    return rewriteSpecifier(originalSpecifier, targetVersion)
+  }
 
-    // Return target version with same prefix
-    return prefix + targetVersion
+  /**
+   * Format the age of a timestamp compactly (e.g., 45m, 6h, 3d)
+   */
+  static formatAge(timestamp: number, now: number = Date.now()): string {
+    const minutes = Math.max(0, Math.floor((now - timestamp) / 60000))
+    if (minutes < 60) return `${minutes}m`
+    const hours = Math.floor(minutes / 60)
+    if (hours < 24) return `${hours}h`
+    return `${Math.floor(hours / 24)}d`
   }
 
   /**
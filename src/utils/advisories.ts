@@ -0,0 +1,39 @@
+import * as semver from 'semver'
+import { Advisory, AdvisorySeverity } from '../types'
+
+/**
+ * Advisory severities, lowest first
+ */
+export const ADVISORY_SEVERITIES: AdvisorySeverity[] = ['low', 'moderate', 'high', 'critical']
+
+/**
+ * Whether a version is within the vulnerable range of an advisory
+ */
+export function isAffectedBy(version: string, advisory: Advisory): boolean {
+  try {
+    return semver.satisfies(version, advisory.vulnerableVersions, { includePrerelease: true })
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Get the highest severity of a list of advisories, or null when there are none
+ */
+export function getHighestSeverity(advisories: Advisory[] = []): AdvisorySeverity | null {
+  return advisories.reduce<AdvisorySeverity | null>(
+    (highest, advisory) =>
+      highest === null ||
+      ADVISORY_SEVERITIES.indexOf(advisory.severity) > ADVISORY_SEVERITIES.indexOf(highest)
+        ? advisory.severity
+        : highest,
+    null
+  )
+}
+
+/**
+ * Get the advisories that no longer apply once the package is upgraded to a version
+ */
+export function getFixedAdvisories(advisories: Advisory[] = [], targetVersion: string): Advisory[] {
+  return advisories.filter((advisory) => !isAffectedBy(targetVersion, advisory))
+}
@@ -0,0 +1,82 @@
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { parseYaml, updateYamlValues } from './yaml'
+
+export const DEFAULT_CATALOG = 'default'
+
+/**
+ * Catalogs declared in pnpm-workspace.yaml, referenced as `catalog:` or `catalog:<name>`
+ */
+export interface PnpmCatalogs {
+  path: string // pnpm-workspace.yaml declaring them
+  catalogs: Record<string, Record<string, string>> // Catalog name -> package -> specifier
+}
+
+interface PnpmWorkspace {
+  catalog?: Record<string, unknown>
+  catalogs?: Record<string, Record<string, unknown>>
+}
+
+/**
+ * Catalog a specifier refers to: `catalog:` and `catalog:default` are the default catalog
+ */
+export function getCatalogName(specifier: string): string | undefined {
+  const match = specifier.match(/^catalog:(.*)$/)
+  return match ? match[1].trim() || DEFAULT_CATALOG : undefined
+}
+
+/**
+ * Read the `catalog` and `catalogs` sections of the pnpm-workspace.yaml of a workspace root
+ */
+export function loadPnpmCatalogs(workspaceRoot: string): PnpmCatalogs | null {
+  const path = join(workspaceRoot, 'pnpm-workspace.yaml')
+  if (!existsSync(path)) {
+    return null
+  }
+
+  let workspace: PnpmWorkspace | null
+  try {
+    workspace = parseYaml(readFileSync(path, 'utf-8')) as PnpmWorkspace | null
+  } catch {
+    return null
+  }
+
+  const catalogs: PnpmCatalogs['catalogs'] = {}
+  const addCatalog = (name: string, entries: unknown): void => {
+    if (!entries || typeof entries !== 'object') {
+      return
+    }
+    for (const [pkg, specifier] of Object.entries(entries)) {
+      if (typeof specifier === 'string') {
+        catalogs[name] = { ...catalogs[name], [pkg]: specifier }
+      }
+    }
+  }
+
+  addCatalog(DEFAULT_CATALOG, workspace?.catalog)
+  for (const [name, entries] of Object.entries(workspace?.catalogs || {})) {
+    addCatalog(name, entries)
+  }
+  return Object.keys(catalogs).length > 0 ? { path, catalogs } : null
+}
+
+/**
+ * Write new specifiers for catalog entries into pnpm-workspace.yaml content.
+ * Entries of the default catalog are found under `catalog` or `catalogs.default`.
+ */
+export function updateCatalogVersions(
+  content: string,
+  updates: Array<{ catalog: string; name: string; value: string }>
+): string {
+  const workspace = parseYaml(content) as PnpmWorkspace | null
+  return updateYamlValues(
+    content,
+    updates.map(({ catalog, name, value }) => ({
+      path:
+        catalog === DEFAULT_CATALOG && workspace?.catalog?.[name] !== undefined
+          ? ['catalog', name]
+          : ['catalogs', catalog, name],
+      value,
+    }))
+  )
+}
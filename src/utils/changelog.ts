@@ -0,0 +1,93 @@
+import * as semver from 'semver'
+import { ReleaseNote } from '../types'
+
+/**
+ * Extract a semver version from a changelog heading or release tag,
+ * e.g. "## [2.1.0] - 2024-05-01", "v2.1.0" or "@scope/pkg@2.1.0"
+ */
+export function extractVersion(text: string): string | null {
+  const match = text.match(/(?:^|[\s[(@v])v?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)/)
+  return match && semver.valid(match[1]) ? match[1] : null
+}
+
+/**
+ * Get the version of a GitHub release tag, skipping tags of other packages in a monorepo
+ * (e.g. "@babel/core@7.24.0" is ignored for @babel/parser)
+ */
+export function getReleaseTagVersion(tag: string, packageName: string): string | null {
+  const separator = tag.lastIndexOf('@')
+  if (separator > 0 && tag.slice(0, separator) !== packageName) {
+    return null
+  }
+  return extractVersion(tag)
+}
+
+/**
+ * Split a CHANGELOG.md into one release note per version heading.
+ * The first heading with a version sets the heading level of the releases,
+ * deeper headings (### Breaking Changes) stay in the body.
+ */
+export function parseChangelog(markdown: string): ReleaseNote[] {
+  const notes: ReleaseNote[] = []
+  let releaseLevel: number | null = null
+  let current: { note: ReleaseNote; lines: string[] } | null = null
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(/^(#{1,4})\s+(.*)$/)
+    const version = heading ? extractVersion(heading[2]) : null
+    if (heading && version && (releaseLevel === null || heading[1].length <= releaseLevel)) {
+      if (current) {
+        notes.push({ ...current.note, body: current.lines.join('\n').trim() })
+      }
+      releaseLevel = heading[1].length
+      const date = heading[2].match(/\d{4}-\d{2}-\d{2}/)?.[0]
+      current = { note: { version, body: '', date }, lines: [] }
+    } else if (heading && releaseLevel !== null && heading[1].length <= releaseLevel) {
+      // Unversioned section at the release level (e.g. "## Unreleased") ends the release
+      if (current) {
+        notes.push({ ...current.note, body: current.lines.join('\n').trim() })
+      }
+      current = null
+    } else if (current) {
+      current.lines.push(line)
+    }
+  }
+  if (current) {
+    notes.push({ ...current.note, body: current.lines.join('\n').trim() })
+  }
+  return notes
+}
+
+/**
+ * Keep the notes of the versions after the installed one, up to the target, newest first
+ */
+export function selectReleaseNotes(
+  notes: ReleaseNote[],
+  fromVersion: string,
+  toVersion: string
+): ReleaseNote[] {
+  const from = semver.coerce(fromVersion, { includePrerelease: true })?.version
+  const to = semver.coerce(toVersion, { includePrerelease: true })?.version
+  if (!from || !to) {
+    return []
+  }
+
+  const seen = new Set<string>()
+  return notes
+    .filter((note) => {
+      if (seen.has(note.version) || !semver.gt(note.version, from) || semver.gt(note.version, to)) {
+        return false
+      }
+      seen.add(note.version)
+      return true
+    })
+    .sort((a, b) => semver.rcompare(a.version, b.version))
+}
+
+/**
+ * Whether a changelog line announces a breaking change: a "Breaking changes" heading,
+ * a BREAKING CHANGE note or a conventional commit marked with `!` (feat!: ...)
+ */
+export function isBreakingChange(line: string): boolean {
+  return /breaking/i.test(line) || /^\s*[-*]\s*(\*\*)?\w+(\([^)]*\))?!:/.test(line)
+}
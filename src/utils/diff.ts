@@ -0,0 +1,163 @@
+/**
+ * Minimal line-based unified diff, used to preview package.json edits
+ */
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string }
+
+export interface UnifiedDiffOptions {
+  oldPath: string
+  newPath?: string
+  context?: number // Number of unchanged lines around each change (default 3)
+}
+
+/**
+ * Split text into lines, remembering whether it ends with a newline
+ */
+function splitLines(text: string): { lines: string[]; hasFinalNewline: boolean } {
+  if (text === '') {
+    return { lines: [], hasFinalNewline: true }
+  }
+  const hasFinalNewline = text.endsWith('\n')
+  const lines = (hasFinalNewline ? text.slice(0, -1) : text).split('\n')
+  return { lines, hasFinalNewline }
+}
+
+/**
+ * Compute line operations with an LCS table over the region between the common prefix and suffix
+ */
+function computeOps(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix)
+  const b = newLines.slice(prefix, newLines.length - suffix)
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  )
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const ops: DiffOp[] = oldLines.slice(0, prefix).map((line) => ({ type: ' ', line }))
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i] })
+      i++
+      j++
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      // Prefer removals first, like git
+      ops.push({ type: '-', line: a[i] })
+      i++
+    } else {
+      ops.push({ type: '+', line: b[j] })
+      j++
+    }
+  }
+  for (const line of oldLines.slice(oldLines.length - suffix)) {
+    ops.push({ type: ' ', line })
+  }
+
+  return ops
+}
+
+/**
+ * Create a unified diff (git-compatible) between two texts.
+ * Returns an empty string when the texts are identical.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions
+): string {
+  if (oldText === newText) {
+    return ''
+  }
+
+  const context = options.context ?? 3
+  const oldSplit = splitLines(oldText)
+  const newSplit = splitLines(newText)
+
+  // A line that only differs by its trailing newline must still show up as changed
+  const NO_EOL_MARKER = '\u0000'
+  const markLastLine = (split: { lines: string[]; hasFinalNewline: boolean }): string[] =>
+    split.hasFinalNewline || split.lines.length === 0
+      ? split.lines
+      : [...split.lines.slice(0, -1), split.lines[split.lines.length - 1] + NO_EOL_MARKER]
+  const ops = computeOps(
+    oldSplit.hasFinalNewline === newSplit.hasFinalNewline ? oldSplit.lines : markLastLine(oldSplit),
+    oldSplit.hasFinalNewline === newSplit.hasFinalNewline ? newSplit.lines : markLastLine(newSplit)
+  )
+
+  // Line numbers (1-based) of each op in the old and new file
+  const positions: Array<{ oldLine: number; newLine: number }> = []
+  let oldLine = 1
+  let newLine = 1
+  for (const op of ops) {
+    positions.push({ oldLine, newLine })
+    if (op.type !== '+') oldLine++
+    if (op.type !== '-') newLine++
+  }
+
+  // Group changed ops into hunks with surrounding context
+  const hunks: Array<{ start: number; end: number }> = []
+  ops.forEach((op, index) => {
+    if (op.type === ' ') return
+    const start = Math.max(0, index - context)
+    const end = Math.min(ops.length, index + context + 1)
+    const last = hunks[hunks.length - 1]
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end)
+    } else {
+      hunks.push({ start, end })
+    }
+  })
+
+  const newPath = options.newPath ?? options.oldPath
+  const output = [`--- a/${options.oldPath}`, `+++ b/${newPath}`]
+
+  for (const hunk of hunks) {
+    const hunkOps = ops.slice(hunk.start, hunk.end)
+    const oldCount = hunkOps.filter((op) => op.type !== '+').length
+    const newCount = hunkOps.filter((op) => op.type !== '-').length
+    const oldStart =
+      oldCount === 0 ? positions[hunk.start].oldLine - 1 : positions[hunk.start].oldLine
+    const newStart =
+      newCount === 0 ? positions[hunk.start].newLine - 1 : positions[hunk.start].newLine
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`)
+
+    hunkOps.forEach((op, offset) => {
+      output.push(`${op.type}${op.line.replace(NO_EOL_MARKER, '')}`)
+
+      // Mark the last line of a file without a trailing newline
+      const index = hunk.start + offset
+      const isLastOld = op.type !== '+' && positions[index].oldLine === oldSplit.lines.length
+      const isLastNew = op.type !== '-' && positions[index].newLine === newSplit.lines.length
+      if ((isLastOld && !oldSplit.hasFinalNewline) || (isLastNew && !newSplit.hasFinalNewline)) {
+        output.push('\\ No newline at end of file')
+      }
+    })
+  }
+
+  return output.join('\n') + '\n'
+}
@@ -3,6 +3,7 @@ import { promises as fsPromises } from 'fs'
 import { join, relative } from 'path'
 import { PackageJson, PackageManager } from '../types'
 import { PackageManagerDetector } from '../services/package-manager-detector'
+import { collectOverrides } from './overrides'
 
 /**
  * Find package.json in the current working directory
@@ -59,38 +60,70 @@ export interface CollectDependenciesOptions {
   includeOptionalDeps?: boolean
 }
 
+export interface CollectedDependency {
+  name: string
+  version: string
+  type: string
+  packageJsonPath: string
+  overridePath?: string[] // Location of the value, for overrides, pnpm.overrides and resolutions
+  catalog?: string // pnpm catalog of the entry, when it is read from pnpm-workspace.yaml
+  catalogConsumers?: number // Dependencies referencing the catalog entry
+}
+
+/**
+ * Dependencies of one package.json, its version overrides last
+ */
+function getPackageJsonDependencies(
+  packageJson: PackageJson,
+  packageJsonPath: string
+): CollectedDependency[] {
+  const deps: CollectedDependency[] = []
+  const depTypes: Array<
+    'dependencies' | 'devDependencies' | 'optionalDependencies' | 'peerDependencies'
+  > = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']
+
+  for (const depType of depTypes) {
+    const entries = packageJson[depType]
+    if (entries && typeof entries === 'object') {
+      for (const [name, version] of Object.entries(entries)) {
+        deps.push({
+          name,
+          version: version as string,
+          type: depType,
+          packageJsonPath,
+        })
+      }
+    }
+  }
+
+  for (const override of collectOverrides(packageJson)) {
+    deps.push({
+      name: override.name,
+      version: override.version,
+      type: 'overrides',
+      packageJsonPath,
+      overridePath: override.path,
+    })
+  }
+
+  return deps
+}
+
 /**
  * Collects all dependencies from multiple package.json files.
- * Always includes regular dependencies and devDependencies.
+ * Always includes regular dependencies, devDependencies and version overrides.
  * Optionally includes peer and optional dependencies based on flags.
  */
 export function collectAllDependencies(
   packageJsonFiles: string[],
   options: CollectDependenciesOptions = {}
-): Array<{ name: string; version: string; type: string; packageJsonPath: string }> {
-  const allDeps: Array<{ name: string; version: string; type: string; packageJsonPath: string }> =
-    []
+): CollectedDependency[] {
+  const allDeps: CollectedDependency[] = []
 
   for (const packageJsonPath of packageJsonFiles) {
     try {
       const packageJson = readPackageJson(packageJsonPath)
-      const depTypes: Array<
-        'dependencies' | 'devDependencies' | 'optionalDependencies' | 'peerDependencies'
-      > = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']
-
-      for (const depType of depTypes) {
-        const deps = packageJson[depType]
-        if (deps && typeof deps === 'object') {
-          for (const [name, version] of Object.entries(deps)) {
-            allDeps.push({
-              name,
-              version: version as string,
-              type: depType,
-              packageJsonPath,
-            })
-          }
-        }
-      }
+      allDeps.push(...getPackageJsonDependencies(packageJson, packageJsonPath))
     } catch (error) {
       // Skip malformed package.json files
     }
@@ -102,13 +135,13 @@ export function collectAllDependencies(
 /**
  * Collects all dependencies from multiple package.json files asynchronously.
  * Reads all package.json files in parallel for better performance.
- * Always includes regular dependencies and devDependencies.
+ * Always includes regular dependencies, devDependencies and version overrides.
  * Optionally includes peer and optional dependencies based on flags.
  */
 export async function collectAllDependenciesAsync(
   packageJsonFiles: string[],
   options: CollectDependenciesOptions = {}
-): Promise<Array<{ name: string; version: string; type: string; packageJsonPath: string }>> {
+): Promise<CollectedDependency[]> {
   // Read all package.json files in parallel
   const packageJsonPromises = packageJsonFiles.map(async (packageJsonPath) => {
     try {
@@ -123,30 +156,13 @@ export async function collectAllDependenciesAsync(
   const results = await Promise.all(packageJsonPromises)
 
   // Collect dependencies from all successfully read package.json files
-  const allDeps: Array<{ name: string; version: string; type: string; packageJsonPath: string }> =
-    []
+  const allDeps: CollectedDependency[] = []
 
   for (const result of results) {
     if (!result) continue
 
     const { packageJson, packageJsonPath } = result
-    const depTypes: Array<
-      'dependencies' | 'devDependencies' | 'optionalDependencies' | 'peerDependencies'
-    > = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']
-
-    for (const depType of depTypes) {
-      const deps = packageJson[depType]
-      if (deps && typeof deps === 'object') {
-        for (const [name, version] of Object.entries(deps)) {
-          allDeps.push({
-            name,
-            version: version as string,
-            type: depType,
-            packageJsonPath,
-          })
-        }
-      }
-    }
+    allDeps.push(...getPackageJsonDependencies(packageJson, packageJsonPath))
   }
 
   return allDeps
@@ -0,0 +1,60 @@
+import { spawnSync } from 'child_process'
+import { existsSync } from 'fs'
+
+/**
+ * Run a git command with arguments passed as-is (no shell quoting)
+ */
+export function runGit(args: string[], cwd: string): string {
+  const result = spawnSync('git', args, { cwd, encoding: 'utf-8', stdio: 'pipe' })
+  if (result.status !== 0) {
+    throw new Error(`Command failed: git ${args.join(' ')}\n${result.stderr || result.error}`)
+  }
+  return result.stdout
+}
+
+/**
+ * Check whether a directory is inside a git work tree
+ */
+export function isGitRepository(cwd: string): boolean {
+  try {
+    return runGit(['rev-parse', '--is-inside-work-tree'], cwd).trim() === 'true'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * List the given paths that have staged or unstaged changes
+ */
+export function getChangedPaths(paths: string[], cwd: string): string[] {
+  const existing = paths.filter((path) => existsSync(path))
+  if (existing.length === 0) {
+    return []
+  }
+  return runGit(['status', '--porcelain', '--', ...existing], cwd)
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => line.slice(3))
+}
+
+/**
+ * Commit exactly the given paths, skipping missing and gitignored ones.
+ * Returns false when none of them changed.
+ */
+export function commitPaths(paths: string[], message: string, cwd: string): boolean {
+  const committable = paths.filter(
+    (path) =>
+      existsSync(path) && spawnSync('git', ['check-ignore', '-q', path], { cwd }).status !== 0
+  )
+  // Without paths, the diff and commit below would cover the whole index
+  if (committable.length === 0) {
+    return false
+  }
+  runGit(['add', '--', ...committable], cwd)
+  const diff = spawnSync('git', ['diff', '--cached', '--quiet', '--', ...committable], { cwd })
+  if (diff.status === 0) {
+    return false
+  }
+  runGit(['commit', '--quiet', '-m', message, '--', ...committable], cwd)
+  return true
+}
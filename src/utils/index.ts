@@ -6,6 +6,14 @@ export * from './filesystem'
 export * from './exec'
 export * from './version'
 export * from './debug-logger'
+export * from './diff'
+export * from './package-json-writer'
+export * from './git'
+export * from './advisories'
+export * from './changelog'
+export * from './specifier'
+export * from './overrides'
+export * from './catalogs'
 
 // Re-export async functions for convenience
 export { readPackageJsonAsync, collectAllDependenciesAsync } from './filesystem'
@@ -0,0 +1,111 @@
+import { PackageInfo, PackageJson, PackageUpgradeChoice } from '../types'
+
+/**
+ * Version override declared in package.json, with the location of its value
+ */
+export interface OverrideEntry {
+  name: string // Package whose version is overridden
+  version: string
+  path: string[] // e.g. ['overrides', 'react-dom', 'react'] or ['pnpm', 'overrides', 'a>b']
+}
+
+/**
+ * Package name of a selector without its version: @scope/pkg@^1 becomes @scope/pkg
+ */
+function stripVersion(selector: string): string {
+  return selector.replace(/^(@?[^@]+)@.*$/, '$1')
+}
+
+/**
+ * Values that do not set a version: references to a root dependency ($react)
+ * and removals (-, pnpm)
+ */
+function isVersionValue(value: unknown): value is string {
+  return typeof value === 'string' && value !== '-' && !value.startsWith('$')
+}
+
+/**
+ * npm `overrides`, nested objects applying below a package and their "." key to the package itself
+ */
+function collectNpmOverrides(
+  overrides: Record<string, unknown>,
+  path: string[],
+  parent: string | undefined,
+  entries: OverrideEntry[]
+): void {
+  for (const [selector, value] of Object.entries(overrides)) {
+    const name = selector === '.' ? parent : stripVersion(selector)
+    if (!name) {
+      continue
+    }
+    if (value && typeof value === 'object') {
+      collectNpmOverrides(value as Record<string, unknown>, [...path, selector], name, entries)
+    } else if (isVersionValue(value)) {
+      entries.push({ name, version: value, path: [...path, selector] })
+    }
+  }
+}
+
+/**
+ * Target of a pnpm selector: the package after the last >, e.g. bar for foo@1>bar@<2
+ */
+function getPnpmOverrideTarget(selector: string): string {
+  const segments = selector.split('>')
+  return stripVersion(segments[segments.length - 1].trim())
+}
+
+/**
+ * Target of a yarn resolution: the last package of its path, e.g. @scope/b for a/@scope/b
+ */
+function getResolutionTarget(selector: string): string {
+  const parts = selector.split('/')
+  const last = parts[parts.length - 1]
+  const scope = parts[parts.length - 2]
+  return stripVersion(scope?.startsWith('@') ? `${scope}/${last}` : last)
+}
+
+/**
+ * Collect the version overrides of a package.json: npm `overrides`, `pnpm.overrides`
+ * and yarn `resolutions`
+ */
+export function collectOverrides(packageJson: PackageJson): OverrideEntry[] {
+  const entries: OverrideEntry[] = []
+
+  if (packageJson.overrides && typeof packageJson.overrides === 'object') {
+    collectNpmOverrides(packageJson.overrides, ['overrides'], undefined, entries)
+  }
+
+  const pnpmOverrides = packageJson.pnpm?.overrides
+  if (pnpmOverrides && typeof pnpmOverrides === 'object') {
+    for (const [selector, value] of Object.entries(pnpmOverrides)) {
+      if (isVersionValue(value)) {
+        const name = getPnpmOverrideTarget(selector)
+        entries.push({ name, version: value, path: ['pnpm', 'overrides', selector] })
+      }
+    }
+  }
+
+  if (packageJson.resolutions && typeof packageJson.resolutions === 'object') {
+    for (const [selector, value] of Object.entries(packageJson.resolutions)) {
+      if (isVersionValue(value)) {
+        const name = getResolutionTarget(selector)
+        entries.push({ name, version: value, path: ['resolutions', selector] })
+      }
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Whether a package is the one an upgrade choice was made for: same name and file,
+ * and the same override or catalog when the choice rewrites one
+ */
+export function isChoiceFor(pkg: PackageInfo, choice: PackageUpgradeChoice): boolean {
+  return (
+    pkg.name === choice.name &&
+    pkg.packageJsonPath === choice.packageJsonPath &&
+    pkg.overridePath?.join('\0') === choice.overridePath?.join('\0') &&
+    pkg.catalog === choice.catalog
+  )
+}
@@ -0,0 +1,149 @@
+/**
+ * Formatting-preserving edits of package.json files.
+ * Only the changed string values are rewritten, so indentation, line endings,
+ * key order and the final newline stay exactly as they were.
+ */
+
+export interface JsonFormat {
+  indent: string
+  eol: '\n' | '\r\n'
+  finalNewline: boolean
+}
+
+export interface JsonStringUpdate {
+  path: string[] // Keys from the root object, e.g. ['dependencies', 'chalk']
+  value: string
+}
+
+type ValueSpan = { start: number; end: number; isString: boolean }
+
+/**
+ * Detect the indentation, line ending and final newline of a JSON document
+ */
+export function detectJsonFormat(content: string): JsonFormat {
+  // The first indented line belongs to the root object, so its indentation is one level
+  const indentMatch = content.match(/^[ \t]+(?=\S)/m)
+
+  return {
+    indent: indentMatch ? indentMatch[0] : '  ',
+    eol: content.includes('\r\n') ? '\r\n' : '\n',
+    finalNewline: content.endsWith('\n'),
+  }
+}
+
+/**
+ * Serialize a value using a previously detected format
+ */
+export function stringifyJson(value: unknown, format: JsonFormat): string {
+  const text = JSON.stringify(value, null, format.indent).replace(/\n/g, format.eol)
+  return format.finalNewline ? text + format.eol : text
+}
+
+/**
+ * Map every value in a (valid) JSON document to its character span, keyed by its path
+ */
+function collectValueSpans(content: string): Map<string, ValueSpan> {
+  const spans = new Map<string, ValueSpan>()
+  let pos = 0
+
+  const skipWhitespace = (): void => {
+    while (pos < content.length && /\s/.test(content[pos])) pos++
+  }
+
+  const readString = (): string => {
+    const start = pos
+    pos++ // Opening quote
+    while (pos < content.length && content[pos] !== '"') {
+      pos += content[pos] === '\\' ? 2 : 1
+    }
+    pos++ // Closing quote
+    return JSON.parse(content.slice(start, pos))
+  }
+
+  const readMembers = (close: '}' | ']', readMember: () => void): void => {
+    pos++ // Opening bracket
+    skipWhitespace()
+    while (pos < content.length && content[pos] !== close) {
+      readMember()
+      skipWhitespace()
+      if (content[pos] === ',') pos++
+      skipWhitespace()
+    }
+    pos++ // Closing bracket
+  }
+
+  const readValue = (path: string[]): void => {
+    skipWhitespace()
+    const start = pos
+    const char = content[pos]
+
+    if (char === '{') {
+      readMembers('}', () => {
+        const key = readString()
+        skipWhitespace()
+        pos++ // Colon
+        readValue([...path, key])
+      })
+    } else if (char === '[') {
+      let index = 0
+      readMembers(']', () => readValue([...path, String(index++)]))
+    } else if (char === '"') {
+      readString()
+    } else {
+      while (pos < content.length && !/[\s,}\]]/.test(content[pos])) pos++
+    }
+
+    // Duplicate keys resolve to the last occurrence, like JSON.parse
+    spans.set(JSON.stringify(path), { start, end: pos, isString: char === '"' })
+  }
+
+  readValue([])
+  return spans
+}
+
+/**
+ * Set a value at a path, creating intermediate objects when needed
+ */
+function setPath(target: Record<string, any>, path: string[], value: string): void {
+  let current = target
+  for (const key of path.slice(0, -1)) {
+    if (typeof current[key] !== 'object' || current[key] === null) {
+      current[key] = {}
+    }
+    current = current[key]
+  }
+  current[path[path.length - 1]] = value
+}
+
+/**
+ * Update string values of a JSON document in place.
+ * When a path does not exist yet (or holds a non-string value), the document is
+ * re-serialized with its detected format instead.
+ */
+export function updateJsonStringValues(content: string, updates: JsonStringUpdate[]): string {
+  const data = JSON.parse(content)
+
+  // Later updates of the same path win
+  const updatesByPath = new Map<string, JsonStringUpdate>()
+  updates.forEach((update) => updatesByPath.set(JSON.stringify(update.path), update))
+
+  const spans = collectValueSpans(content)
+  const located = Array.from(updatesByPath.entries()).map(([key, update]) => ({
+    update,
+    span: spans.get(key),
+  }))
+
+  if (located.every(({ span }) => span?.isString)) {
+    // Replace from the end so earlier offsets stay valid
+    return located
+      .sort((a, b) => b.span!.start - a.span!.start)
+      .reduce(
+        (text, { update, span }) =>
+          text.slice(0, span!.start) + JSON.stringify(update.value) + text.slice(span!.end),
+        content
+      )
+  }
+
+  updatesByPath.forEach((update) => setPath(data, update.path, update.value))
+  return stringifyJson(data, detectJsonFormat(content))
+}
@@ -0,0 +1,139 @@
+import * as semver from 'semver'
+import { RangeStrategy } from '../types'
+
+// One full version after an operator or protocol prefix: ^1.2.3, >=1.2.3, npm:pkg@~1.2.3
+const SIMPLE_SPECIFIER = /^(\S*?[^\d.\s]|)(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?)$/
+// Partial or X-range version, optionally after ^, ~ or a comparator: 1.x, ~1.2, >=2
+const PARTIAL_SPECIFIER = /^(\^|~|[<>]=?|=)?v?((?:\d+|[xX*])(?:\.(?:\d+|[xX*])){0,2})$/
+// One comparator of a comparator set: >=1.2, <2.0.0-0
+const COMPARATOR = /^([<>]=?|=)?v?(\d+(?:\.(?:\d+|[xX*])){0,2}(?:-[0-9A-Za-z.-]+)?)$/
+// Alias protocol kept in front of the rewritten range: npm:string-width@
+const NPM_ALIAS = /^npm:(?:@[^/@\s]+\/)?[^@\s]+@/
+// Operators that still allow the version they are written with
+const KEPT_OPERATORS = ['', '^', '~', '=', '>=', '<=']
+
+/**
+ * Write a version with the precision of a template: 2.x for 1.x, 2.3 for 1.2
+ */
+function formatLike(template: string, version: semver.SemVer): string {
+  const parts = template.split('.')
+  if (parts.length === 3 && parts.every((part) => /^\d+/.test(part))) {
+    return version.version
+  }
+  const values = [version.major, version.minor, version.patch]
+  return parts.map((part, i) => (/^[xX*]$/.test(part) ? part : String(values[i]))).join('.')
+}
+
+/**
+ * Move an upper bound past a version, at the level of the original bound:
+ * <2 becomes <3 for 2.1.0, <1.5.0 becomes <2.2.0 for 2.1.0
+ */
+function bumpLike(bound: string, version: semver.SemVer): string {
+  const [core, prerelease] = bound.split(/-(.*)/s)
+  const parts = core.split('.').map(Number)
+  const lastNonZero = parts.map((part) => part !== 0).lastIndexOf(true)
+  const level = lastNonZero === -1 ? parts.length - 1 : lastNonZero
+  const values = [version.major, version.minor, version.patch]
+  const bumped = parts.map((_, i) => (i < level ? values[i] : i === level ? values[i] + 1 : 0))
+  return bumped.join('.') + (prerelease !== undefined ? `-${prerelease}` : '')
+}
+
+/**
+ * Rewrite a single comparator for a target version. Strict bounds are turned around the
+ * target (>1.0.0 becomes >=2.0.0, <2 becomes <3 for 2.1.0), and anything that would still
+ * exclude the target becomes the exact version.
+ */
+function rewriteComparator(operator: string, version: string, target: semver.SemVer): string {
+  const result =
+    operator === '>'
+      ? `>=${formatLike(version, target)}`
+      : operator === '<'
+        ? `<${bumpLike(version, target)}`
+        : KEPT_OPERATORS.includes(operator)
+          ? operator + formatLike(version, target)
+          : target.version
+  return semver.satisfies(target, result, { includePrerelease: true }) ? result : target.version
+}
+
+/**
+ * Rewrite a range for a target version, keeping its shape
+ */
+function preserveRange(range: string, target: semver.SemVer): string {
+  const satisfies = semver.validRange(range)
+    ? semver.satisfies(target, range, { includePrerelease: true })
+    : false
+
+  const simple = range.match(SIMPLE_SPECIFIER)
+  if (simple) {
+    return rewriteComparator(simple[1], simple[2], target)
+  }
+
+  // Unions keep their alternatives, one for the target is added unless one allows it
+  if (range.includes('||')) {
+    const alternatives = range.split('||').map((alternative) => alternative.trim())
+    if (satisfies) {
+      return range
+    }
+    const last = alternatives[alternatives.length - 1]
+    return [...alternatives, preserveRange(last, target)].join(' || ')
+  }
+
+  // Hyphen ranges keep their lower bound and move the upper one: 1.2 - 2 becomes 1.2 - 3
+  const hyphen = range.match(/^(\S+)\s+-\s+(\S+)$/)
+  if (hyphen) {
+    return satisfies ? range : `${hyphen[1]} - ${formatLike(hyphen[2], target)}`
+  }
+
+  // Comparator sets raise the lower bound and move the upper one past the target:
+  // >=1.2 <2 becomes >=1.4 <2 for 1.4.0, >=2.1 <3 for 2.1.0
+  const comparators = range.split(/\s+/).map((comparator) => comparator.match(COMPARATOR))
+  if (comparators.length === 2 && comparators.every(Boolean)) {
+    const [lower, upper] = comparators as RegExpMatchArray[]
+    if (lower[1]?.startsWith('>') && upper[1]?.startsWith('<')) {
+      const upperBound = semver.satisfies(target, upper[0], { includePrerelease: true })
+        ? upper[0]
+        : upper[1] + bumpLike(upper[2], target)
+      return `${lower[1]}${formatLike(lower[2], target)} ${upperBound}`
+    }
+  }
+
+  // Partial versions and X-ranges keep their precision: 1.x becomes 2.x, ~1.2 becomes ~1.4
+  const partial = range.match(PARTIAL_SPECIFIER)
+  if (partial && !/^[xX*]/.test(partial[2])) {
+    return rewriteComparator(partial[1] || '', partial[2], target)
+  }
+
+  // Anything else (*, dist-tags, URLs) is kept when it allows the target
+  return satisfies || !semver.validRange(range) ? range : target.version
+}
+
+/**
+ * Write the specifier of an upgraded dependency. `preserve` keeps the shape of the current
+ * specifier (prefix, precision, comparators and || alternatives), the other strategies replace
+ * it with ^version, ~version or the exact version. An npm: alias prefix is always kept.
+ */
+export function rewriteSpecifier(
+  currentSpecifier: string,
+  targetVersion: string,
+  strategy: RangeStrategy = 'preserve'
+): string {
+  const alias = currentSpecifier.match(NPM_ALIAS)?.[0] || ''
+  const range = currentSpecifier.slice(alias.length).trim()
+  const target = semver.parse(targetVersion)
+  if (!target) {
+    // Not a plain version (e.g. "unknown"), keep the previous prefix behaviour
+    return (range.match(/^([^\d]+)/)?.[1] || '') + targetVersion
+  }
+
+  switch (strategy) {
+    case 'caret':
+      return `${alias}^${target.version}`
+    case 'tilde':
+      return `${alias}~${target.version}`
+    case 'exact':
+      return `${alias}${target.version}`
+    case 'preserve':
+    default:
+      return alias + preserveRange(range, target)
+  }
+}
@@ -1,4 +1,5 @@
 import * as semver from 'semver'
+import { UpdateLevel } from '../types'
 
 /**
  * Checks if a version is outdated compared to the latest version.
@@ -108,3 +109,65 @@ export function findClosestMinorVersion(
     return null
   }
 }
+
+/**
+ * Classify the version a dist-tag (channel) points to against the installed version.
+ * Pre-releases are compared as-is, so 5.6.0-beta.2 is newer than 5.6.0-beta.1.
+ * Returns 'range' within the same major, 'major' across majors, or null when it is not newer.
+ */
+export function getChannelUpdate(
+  installedVersion: string,
+  channelVersion: string
+): 'range' | 'major' | null {
+  const installed = semver.coerce(installedVersion, { includePrerelease: true })
+  const channel = semver.valid(channelVersion)
+  if (!installed || !channel || !semver.gt(channel, installed)) {
+    return null
+  }
+  return semver.major(channel) === semver.major(installed) ? 'range' : 'major'
+}
+
+/**
+ * Whether a package version runs on every Node version of the project, given its engines.node.
+ * Versions without engines.node, or with a range semver cannot read, are compatible.
+ */
+export function isNodeCompatible(projectNodeRange: string, enginesNode?: string): boolean {
+  if (!enginesNode || !semver.validRange(enginesNode)) {
+    return true
+  }
+  return semver.subset(projectNodeRange, enginesNode)
+}
+
+/**
+ * Range of the versions a package may be upgraded to under its .inuprc policies: the pin range,
+ * kept within the installed major (maxUpdate minor) or minor (maxUpdate patch).
+ * Returns undefined when no policy limits the package.
+ */
+export function getAllowedRange(
+  installedVersion: string,
+  pin?: string,
+  maxUpdate?: UpdateLevel
+): string | undefined {
+  const installed = semver.coerce(installedVersion)
+  let limit = ''
+  if (installed && maxUpdate === 'patch') {
+    limit = `<${installed.major}.${installed.minor + 1}.0-0`
+  } else if (installed && maxUpdate === 'minor') {
+    limit = `<${installed.major + 1}.0.0-0`
+  }
+  if (!pin || !limit) {
+    return pin || limit || undefined
+  }
+  // Limit each alternative of the pin range (semver has no range intersection)
+  return new semver.Range(pin).range
+    .split('||')
+    .map((part) => `${part.trim()} ${limit}`.trim())
+    .join(' || ')
+}
+
+/**
+ * Whether a version may be offered under the allowed range of the package's policies
+ */
+export function isVersionAllowed(version: string, allowedRange?: string): boolean {
+  return !allowedRange || semver.satisfies(version, allowedRange, { includePrerelease: true })
+}
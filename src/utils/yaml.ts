@@ -0,0 +1,372 @@
+/**
+ * Minimal YAML reader for the files inup needs to understand (pnpm-lock.yaml,
+ * pnpm-workspace.yaml). Supports block mappings and sequences, quoted and plain
+ * scalars, flow collections and block scalars. Anchors, tags and multi-document
+ * streams are not supported.
+ *
+ * Plain scalars are kept as strings (apart from null and booleans), so versions
+ * like 1.10 are never turned into numbers.
+ */
+
+interface YamlLine {
+  indent: number
+  text: string
+  lineNumber: number
+}
+
+/**
+ * Remove a trailing comment, ignoring # inside quotes
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i).trimEnd()
+    }
+  }
+  return line.trimEnd()
+}
+
+/**
+ * Parse a quoted or plain scalar
+ */
+function parseScalar(text: string): unknown {
+  const value = text.trim()
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    return JSON.parse(value)
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'")
+  }
+  if (value === '' || value === '~' || value === 'null') return null
+  if (value === 'true') return true
+  if (value === 'false') return false
+  return value
+}
+
+/**
+ * Parse an inline flow collection such as {integrity: sha512-..., tarball: x} or [a, b].
+ * `onScalar` is told where each mapping value sits, keyed by its path inside the collection.
+ */
+function parseFlow(
+  text: string,
+  onScalar?: (path: string[], start: number, end: number) => void
+): unknown {
+  let pos = 0
+
+  const skipSpaces = (): void => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++
+  }
+
+  const readToken = (stops: string): string => {
+    skipSpaces()
+    const start = pos
+    const quote = text[pos] === '"' || text[pos] === "'" ? text[pos] : null
+    if (quote) {
+      pos++
+      while (pos < text.length && text[pos] !== quote) {
+        pos += quote === '"' && text[pos] === '\\' ? 2 : 1
+      }
+      pos++
+    } else {
+      while (pos < text.length && !stops.includes(text[pos])) {
+        // A colon only separates a key when followed by a space
+        if (text[pos] === ':' && stops.includes(':') && /[\s,}\]]/.test(text[pos + 1] ?? ' ')) break
+        pos++
+      }
+    }
+    return text.slice(start, pos).trim()
+  }
+
+  const readValue = (path: string[] | null): unknown => {
+    skipSpaces()
+    if (text[pos] === '{') {
+      pos++
+      const result: Record<string, unknown> = {}
+      skipSpaces()
+      while (pos < text.length && text[pos] !== '}') {
+        const key = String(parseScalar(readToken(':,}')) ?? '')
+        skipSpaces()
+        let value: unknown = null
+        if (text[pos] === ':') {
+          pos++
+          value = readValue(path && [...path, key])
+        }
+        result[key] = value
+        skipSpaces()
+        if (text[pos] === ',') pos++
+        skipSpaces()
+      }
+      pos++
+      return result
+    }
+    if (text[pos] === '[') {
+      pos++
+      const result: unknown[] = []
+      skipSpaces()
+      while (pos < text.length && text[pos] !== ']') {
+        result.push(readValue(null)) // Sequence items are not reported
+        skipSpaces()
+        if (text[pos] === ',') pos++
+        skipSpaces()
+      }
+      pos++
+      return result
+    }
+    const start = pos
+    const token = readToken(',}]')
+    if (path) onScalar?.(path, start, start + token.length)
+    return parseScalar(token)
+  }
+
+  return readValue([])
+}
+
+/**
+ * Parse the value written after `key:` or `- ` on the same line
+ */
+function parseInlineValue(text: string): unknown {
+  const value = text.trim()
+  if (value.startsWith('{') || value.startsWith('[')) {
+    return parseFlow(value)
+  }
+  return parseScalar(value)
+}
+
+/**
+ * Split `key: value` into its parts. Returns null when the text is not a mapping entry.
+ */
+function splitKeyValue(text: string): { key: string; rest: string } | null {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const quote = text[0]
+    let end = 1
+    while (end < text.length) {
+      if (quote === '"' && text[end] === '\\') {
+        end += 2
+      } else if (quote === "'" && text[end] === "'" && text[end + 1] === "'") {
+        end += 2 // Escaped single quote
+      } else if (text[end] === quote) {
+        break
+      } else {
+        end++
+      }
+    }
+    const after = text.slice(end + 1)
+    if (!after.startsWith(':')) return null
+    return { key: String(parseScalar(text.slice(0, end + 1))), rest: after.slice(1) }
+  }
+
+  const match = text.match(/^([^\s].*?):(?:\s+(.*))?$/)
+  if (!match || match[1].startsWith('- ') || match[1].startsWith('{') || match[1].startsWith('[')) {
+    return null
+  }
+  return { key: match[1], rest: match[2] ?? '' }
+}
+
+export function parseYaml(content: string): unknown {
+  const rawLines = content.replace(/\r\n/g, '\n').split('\n')
+  const lines: YamlLine[] = []
+  const blockScalars = new Map<number, string>() // index in lines -> folded block scalar text
+
+  for (let i = 0; i < rawLines.length; i++) {
+    const raw = rawLines[i]
+    if (raw.trim() === '---' || raw.trim() === '...') continue
+    const text = stripComment(raw)
+    if (text.trim() === '') continue
+    const indent = raw.length - raw.trimStart().length
+    lines.push({ indent, text: text.trim(), lineNumber: i + 1 })
+
+    // Collect block scalars (| or >) eagerly, their content is not YAML structure
+    const blockMatch = text.trim().match(/(?:^|:\s+|^-\s+)([|>])[-+]?$/)
+    if (blockMatch) {
+      const body: string[] = []
+      let j = i + 1
+      while (
+        j < rawLines.length &&
+        (rawLines[j].trim() === '' || leadingSpaces(rawLines[j]) > indent)
+      ) {
+        body.push(rawLines[j])
+        j++
+      }
+      while (body.length > 0 && body[body.length - 1].trim() === '') body.pop()
+      const bodyIndent = Math.min(...body.filter((l) => l.trim()).map(leadingSpaces))
+      const stripped = body.map((l) => l.slice(Number.isFinite(bodyIndent) ? bodyIndent : 0))
+      blockScalars.set(
+        lines.length - 1,
+        blockMatch[1] === '|' ? stripped.join('\n') + '\n' : stripped.join(' ') + '\n'
+      )
+      i = j - 1
+    }
+  }
+
+  let index = 0
+
+  const valueAfter = (rest: string, lineIndex: number, parentIndent: number): unknown => {
+    if (blockScalars.has(lineIndex)) {
+      return blockScalars.get(lineIndex)
+    }
+    if (rest.trim() !== '') {
+      return parseInlineValue(rest)
+    }
+    // Nested block, or null when the next line is not indented further.
+    // Sequences may sit at the same indentation as their parent key.
+    const next = lines[index]
+    if (!next) return null
+    if (next.indent > parentIndent) return parseBlock(next.indent)
+    if (next.indent === parentIndent && next.text.startsWith('-')) return parseBlock(next.indent)
+    return null
+  }
+
+  const parseBlock = (indent: number): unknown => {
+    const first = lines[index]
+    if (first.text === '-' || first.text.startsWith('- ')) {
+      const result: unknown[] = []
+      while (index < lines.length && lines[index].indent === indent) {
+        const line = lines[index]
+        if (!(line.text === '-' || line.text.startsWith('- '))) break
+        const lineIndex = index
+        index++
+        const itemText = line.text.slice(1).trim()
+        const entry = splitKeyValue(itemText)
+        if (entry) {
+          // `- key: value` starts a mapping whose keys are aligned with `key`
+          const itemIndent = indent + (line.text.length - itemText.length)
+          const item: Record<string, unknown> = {
+            [entry.key]: valueAfter(entry.rest, lineIndex, itemIndent),
+          }
+          if (index < lines.length && lines[index].indent === itemIndent) {
+            Object.assign(item, parseBlock(itemIndent))
+          }
+          result.push(item)
+        } else {
+          result.push(valueAfter(itemText, lineIndex, indent))
+        }
+      }
+      return result
+    }
+
+    const result: Record<string, unknown> = {}
+    while (index < lines.length && lines[index].indent === indent) {
+      const line = lines[index]
+      const entry = splitKeyValue(line.text)
+      if (!entry) {
+        throw new Error(`Unsupported YAML at line ${line.lineNumber}: ${line.text}`)
+      }
+      const lineIndex = index
+      index++
+      result[entry.key] = valueAfter(entry.rest, lineIndex, indent)
+    }
+    return result
+  }
+
+  if (lines.length === 0) {
+    return null
+  }
+  if (lines.length === 1 && !splitKeyValue(lines[0].text) && !lines[0].text.startsWith('-')) {
+    return parseInlineValue(lines[0].text)
+  }
+  return parseBlock(lines[0].indent)
+}
+
+function leadingSpaces(line: string): number {
+  return line.length - line.trimStart().length
+}
+
+export interface YamlValueUpdate {
+  path: string[] // Keys of the nested block mappings leading to the value
+  value: string
+}
+
+/**
+ * Whether a string has to be quoted to be read back as the same plain scalar
+ */
+function needsQuotes(value: string): boolean {
+  return (
+    value === '' ||
+    /^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /\s$|:\s|\s#/.test(value) ||
+    typeof parseScalar(value) !== 'string'
+  )
+}
+
+/**
+ * Write a value over an existing scalar, keeping its quote style
+ */
+function formatValue(current: string, value: string, inFlow: boolean): string {
+  const quote = current[0] === '"' || current[0] === "'" ? current[0] : null
+  if (quote === '"') {
+    return JSON.stringify(value)
+  }
+  if (quote === "'" || needsQuotes(value) || (inFlow && /[,[\]{}]/.test(value))) {
+    return `'${value.replace(/'/g, "''")}'`
+  }
+  return value
+}
+
+/**
+ * Replace the scalars of a single-line flow mapping whose paths have a new value
+ */
+function updateFlowValues(flow: string, path: string[], values: Map<string, string>): string {
+  const edits: Array<{ start: number; end: number; value: string }> = []
+  parseFlow(flow, (scalarPath, start, end) => {
+    const value = values.get(JSON.stringify([...path, ...scalarPath]))
+    if (value !== undefined) {
+      edits.push({ start, end, value: formatValue(flow.slice(start, end), value, true) })
+    }
+  })
+  return edits.reduceRight(
+    (result, edit) => result.slice(0, edit.start) + edit.value + result.slice(edit.end),
+    flow
+  )
+}
+
+/**
+ * Replace scalar values of block mappings and single-line flow mappings in place,
+ * keeping quotes, comments and the rest of the file as they are. Paths that are not
+ * found (or sit in sequences) are left unchanged.
+ */
+export function updateYamlValues(content: string, updates: YamlValueUpdate[]): string {
+  const values = new Map(updates.map((update) => [JSON.stringify(update.path), update.value]))
+  const parents: Array<{ indent: number; key: string }> = []
+
+  return content
+    .split('\n')
+    .map((raw) => {
+      const text = stripComment(raw.replace(/\r$/, ''))
+      const trimmed = text.trim()
+      if (trimmed === '' || trimmed === '---' || trimmed === '...') {
+        return raw
+      }
+
+      const indent = leadingSpaces(text)
+      while (parents.length > 0 && parents[parents.length - 1].indent >= indent) {
+        parents.pop()
+      }
+      const entry = splitKeyValue(trimmed)
+      if (!entry) {
+        return raw
+      }
+
+      const path = [...parents.map((parent) => parent.key), entry.key]
+      const current = entry.rest.trim()
+      if (current === '') {
+        parents.push({ indent, key: entry.key })
+        return raw
+      }
+      const prefix = text.slice(0, text.length - current.length)
+      if (current.startsWith('{')) {
+        return prefix + updateFlowValues(current, path, values) + raw.slice(text.length)
+      }
+      const value = values.get(JSON.stringify(path))
+      if (value === undefined) {
+        return raw
+      }
+      return prefix + formatValue(current, value, false) + raw.slice(text.length)
+    })
+    .join('\n')
+}
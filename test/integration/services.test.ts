@@ -75,8 +75,10 @@ describe('Services Integration Tests', () => {
     it('should track progress with callback', async () => {
       const progressUpdates: Array<{ package: string; completed: number; total: number }> = []
 
-      await getAllPackageData([PACKAGE_NAME, PACKAGE_NAME, PACKAGE_NAME], (pkg, completed, total) => {
-        progressUpdates.push({ package: pkg, completed, total })
+      await getAllPackageData([PACKAGE_NAME, PACKAGE_NAME, PACKAGE_NAME], {
+        onProgress: (pkg, completed, total) => {
+          progressUpdates.push({ package: pkg, completed, total })
+        },
       })
 
       expect(progressUpdates.length).toBe(3)
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { loadProjectNodeRange } from '../../../src/config/node-version'
+import { isNodeCompatible } from '../../../src/utils/version'
+
+describe('node-version', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-node-version-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  describe('loadProjectNodeRange()', () => {
+    it('should prefer engines.node over .nvmrc', () => {
+      writeFileSync(join(testDir, 'package.json'), JSON.stringify({ engines: { node: '>=20' } }))
+      writeFileSync(join(testDir, '.nvmrc'), '18\n')
+
+      expect(loadProjectNodeRange(testDir)).toBe('>=20')
+    })
+
+    it('should read .nvmrc and .node-version from parent directories', () => {
+      const packageDir = join(testDir, 'packages', 'app')
+      mkdirSync(packageDir, { recursive: true })
+      writeFileSync(join(packageDir, 'package.json'), JSON.stringify({ name: 'app' }))
+      writeFileSync(join(testDir, '.node-version'), 'v20.11.0\n')
+
+      expect(loadProjectNodeRange(packageDir)).toBe('20.11.0')
+    })
+
+    it('should ignore aliases that need nvm to resolve', () => {
+      writeFileSync(join(testDir, '.nvmrc'), 'lts/iron')
+
+      expect(loadProjectNodeRange(testDir)).toBeNull()
+    })
+  })
+
+  describe('isNodeCompatible()', () => {
+    it('should require every Node version of the project to be supported', () => {
+      expect(isNodeCompatible('20.11.0', '>=18')).toBe(true)
+      expect(isNodeCompatible('>=18', '>=20')).toBe(false)
+      expect(isNodeCompatible('^20', '^18 || ^20 || >=22')).toBe(true)
+      expect(isNodeCompatible('18', undefined)).toBe(true)
+    })
+  })
+})
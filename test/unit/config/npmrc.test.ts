@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+  parseNpmrc,
+  loadNpmrc,
+  getRegistryForPackage,
+  getAuthToken,
+  isPublicRegistry,
+} from '../../../src/config/npmrc'
+
+describe('npmrc', () => {
+  let testDir: string
+  let previousUserConfig: string | undefined
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-npmrc-test-'))
+    previousUserConfig = process.env.NPM_CONFIG_USERCONFIG
+    process.env.NPM_CONFIG_USERCONFIG = join(testDir, 'user.npmrc')
+  })
+
+  afterEach(() => {
+    if (previousUserConfig === undefined) {
+      delete process.env.NPM_CONFIG_USERCONFIG
+    } else {
+      process.env.NPM_CONFIG_USERCONFIG = previousUserConfig
+    }
+    delete process.env.INUP_TEST_TOKEN
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  describe('parseNpmrc()', () => {
+    it('should read registries and auth tokens, expanding environment variables', () => {
+      process.env.INUP_TEST_TOKEN = 'secret'
+      const config = parseNpmrc(
+        [
+          '# comment',
+          'registry=https://npm.example.com/',
+          '@acme:registry = "https://verdaccio.acme.dev/npm/"',
+          '//verdaccio.acme.dev/npm/:_authToken=${INUP_TEST_TOKEN}',
+          'save-exact=true',
+        ].join('\n')
+      )
+
+      expect(config).toEqual({
+        registry: 'https://npm.example.com',
+        scopes: { '@acme': 'https://verdaccio.acme.dev/npm' },
+        authTokens: { '//verdaccio.acme.dev/npm/': 'secret' },
+      })
+    })
+  })
+
+  describe('loadNpmrc()', () => {
+    it('should let project files override the user config', () => {
+      const projectDir = join(testDir, 'project')
+      mkdirSync(projectDir)
+      writeFileSync(
+        join(testDir, 'user.npmrc'),
+        'registry=https://user.example.com\n@acme:registry=https://user.acme.dev'
+      )
+      writeFileSync(join(projectDir, '.npmrc'), '@acme:registry=https://project.acme.dev')
+
+      const config = loadNpmrc(projectDir)
+      expect(config.registry).toBe('https://user.example.com')
+      expect(config.scopes['@acme']).toBe('https://project.acme.dev')
+    })
+  })
+
+  describe('registry routing', () => {
+    const config = {
+      registry: 'https://registry.npmjs.org',
+      scopes: { '@acme': 'https://artifactory.acme.dev/api/npm/npm-local' },
+      authTokens: {
+        '//artifactory.acme.dev/': 'host-token',
+        '//artifactory.acme.dev/api/npm/npm-local/': 'repo-token',
+      },
+    }
+
+    it('should route scoped packages to their registry', () => {
+      expect(getRegistryForPackage(config, '@acme/ui')).toBe(
+        'https://artifactory.acme.dev/api/npm/npm-local'
+      )
+      expect(getRegistryForPackage(config, '@other/ui')).toBe('https://registry.npmjs.org')
+      expect(getRegistryForPackage(config, 'react')).toBe('https://registry.npmjs.org')
+    })
+
+    it('should use the most specific auth token', () => {
+      expect(getAuthToken(config, 'https://artifactory.acme.dev/api/npm/npm-local')).toBe(
+        'repo-token'
+      )
+      expect(getAuthToken(config, 'https://artifactory.acme.dev/api/npm/other')).toBe('host-token')
+      expect(getAuthToken(config, 'https://registry.npmjs.org')).toBeUndefined()
+    })
+
+    it('should only treat the public registry as mirrored by jsDelivr', () => {
+      expect(isPublicRegistry('https://registry.npmjs.org/')).toBe(true)
+      expect(isPublicRegistry('https://registry.yarnpkg.com')).toBe(true)
+      expect(isPublicRegistry('https://artifactory.acme.dev/api/npm/npm-local')).toBe(false)
+    })
+  })
+})
@@ -2,7 +2,12 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { mkdirSync, writeFileSync, rmSync } from 'fs'
 import { join } from 'path'
 import { tmpdir } from 'os'
-import { loadProjectConfig, isPackageIgnored } from '../../../src/config/project-config'
+import {
+  loadProjectConfig,
+  isPackageIgnored,
+  getPackageGroup,
+  getPackageSetting,
+} from '../../../src/config/project-config'
 
 describe('project-config', () => {
   let testDir: string
@@ -92,6 +97,104 @@ describe('project-config', () => {
       const config = loadProjectConfig(testDir)
       expect(config.ignore).toEqual(['valid', 'also-valid', 'still-valid'])
     })
+
+    it('should load a verify command and drop empty ones', () => {
+      writeFileSync(join(testDir, '.inuprc'), JSON.stringify({ verify: ' pnpm test ' }))
+      expect(loadProjectConfig(testDir).verify).toBe('pnpm test')
+
+      writeFileSync(join(testDir, '.inuprc'), JSON.stringify({ verify: '' }))
+      expect(loadProjectConfig(testDir).verify).toBeUndefined()
+    })
+
+    it('should load channels and drop invalid tags', () => {
+      writeFileSync(
+        join(testDir, '.inuprc'),
+        JSON.stringify({ channels: { typescript: ' next ', react: 42, vite: '' } })
+      )
+      expect(loadProjectConfig(testDir).channels).toEqual({ typescript: 'next' })
+    })
+
+    it('should load respectEngines only when it is a boolean', () => {
+      writeFileSync(join(testDir, '.inuprc'), JSON.stringify({ respectEngines: true }))
+      expect(loadProjectConfig(testDir).respectEngines).toBe(true)
+
+      writeFileSync(join(testDir, '.inuprc'), JSON.stringify({ respectEngines: 'yes' }))
+      expect(loadProjectConfig(testDir).respectEngines).toBeUndefined()
+    })
+
+    it('should load a positive minReleaseAge', () => {
+      writeFileSync(join(testDir, '.inuprc'), JSON.stringify({ minReleaseAge: 7 }))
+      expect(loadProjectConfig(testDir).minReleaseAge).toBe(7)
+
+      writeFileSync(join(testDir, '.inuprc'), JSON.stringify({ minReleaseAge: -1 }))
+      expect(loadProjectConfig(testDir).minReleaseAge).toBeUndefined()
+    })
+
+    it('should keep valid pin ranges and maxUpdate levels', () => {
+      writeFileSync(
+        join(testDir, '.inuprc'),
+        JSON.stringify({
+          pin: { typescript: '~5.4', react: 'not a range' },
+          maxUpdate: { react: 'minor', vite: 'huge' },
+        })
+      )
+
+      const config = loadProjectConfig(testDir)
+      expect(config.pin).toEqual({ typescript: '~5.4' })
+      expect(config.maxUpdate).toEqual({ react: 'minor' })
+    })
+
+    it('should load a range strategy name or per type and workspace strategies', () => {
+      writeFileSync(join(testDir, '.inuprc'), JSON.stringify({ rangeStrategy: 'exact' }))
+      expect(loadProjectConfig(testDir).rangeStrategy).toEqual({ default: 'exact' })
+
+      writeFileSync(
+        join(testDir, '.inuprc'),
+        JSON.stringify({
+          rangeStrategy: { types: { devDependencies: 'caret', dependencies: 'pinned' } },
+        })
+      )
+      expect(loadProjectConfig(testDir).rangeStrategy).toEqual({
+        types: { devDependencies: 'caret' },
+      })
+    })
+
+    it('should resolve group presets and keep custom groups', () => {
+      writeFileSync(
+        join(testDir, '.inuprc'),
+        JSON.stringify({
+          groups: ['babel', 'unknown', { name: 'lint', patterns: ['eslint*'] }, { name: 'empty' }],
+        })
+      )
+
+      expect(loadProjectConfig(testDir).groups).toEqual([
+        { name: 'babel', patterns: ['@babel/*'] },
+        { name: 'lint', patterns: ['eslint*'] },
+      ])
+    })
+  })
+
+  describe('getPackageSetting()', () => {
+    it('should prefer an exact name over a matching pattern', () => {
+      const maxUpdate = { '@types/*': 'minor', '@types/node': 'patch' }
+
+      expect(getPackageSetting('@types/node', maxUpdate)).toBe('patch')
+      expect(getPackageSetting('@types/react', maxUpdate)).toBe('minor')
+      expect(getPackageSetting('react', maxUpdate)).toBeUndefined()
+    })
+  })
+
+  describe('getPackageGroup()', () => {
+    it('should return the first group with a matching pattern', () => {
+      const groups = [
+        { name: 'react', patterns: ['react', '@types/react'] },
+        { name: 'types', patterns: ['@types/*'] },
+      ]
+
+      expect(getPackageGroup('@types/react', groups)).toBe('react')
+      expect(getPackageGroup('@types/node', groups)).toBe('types')
+      expect(getPackageGroup('lodash', groups)).toBeUndefined()
+    })
   })
 
   describe('isPackageIgnored()', () => {
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { PackageDetector } from '../../../src/core/package-detector'
+import { PackageUpgrader } from '../../../src/core/upgrader'
+import { buildChoicesFromPolicy } from '../../../src/core/upgrade-policy'
+import { FixtureRegistryProvider } from '../../../src/services/registry-provider'
+import { PackageManagerDetector } from '../../../src/services/package-manager-detector'
+
+describe('pnpm catalogs', () => {
+  let testDir: string
+  let workspacePath: string
+
+  const detect = () =>
+    new PackageDetector(
+      { cwd: testDir },
+      new FixtureRegistryProvider(join(testDir, 'registry.json'))
+    ).getOutdatedPackages()
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-catalogs-test-'))
+    workspacePath = join(testDir, 'pnpm-workspace.yaml')
+    mkdirSync(join(testDir, 'packages', 'app'), { recursive: true })
+    writeFileSync(
+      workspacePath,
+      [
+        'packages:',
+        "  - 'packages/*'",
+        'catalog:',
+        '  react: ^18.2.0 # shared by every app',
+        'catalogs:',
+        '  legacy:',
+        "    react: '~17.0.0'",
+        '',
+      ].join('\n')
+    )
+    writeFileSync(
+      join(testDir, 'package.json'),
+      JSON.stringify({ devDependencies: { react: 'catalog:' } })
+    )
+    writeFileSync(
+      join(testDir, 'packages', 'app', 'package.json'),
+      JSON.stringify({ dependencies: { react: 'catalog:default', 'react-dom': 'catalog:' } })
+    )
+    writeFileSync(
+      join(testDir, 'registry.json'),
+      JSON.stringify({ react: { versions: ['17.0.0', '17.0.2', '18.2.0', '18.3.1', '19.0.0'] } })
+    )
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should check each catalog entry once, with the number of its consumers', async () => {
+    const packages = await detect()
+
+    expect(packages).toHaveLength(2)
+    expect(packages[0]).toMatchObject({
+      name: 'react',
+      currentVersion: '^18.2.0',
+      rangeVersion: '18.3.1',
+      latestVersion: '19.0.0',
+      type: 'catalog',
+      packageJsonPath: workspacePath,
+      catalog: 'default',
+      catalogConsumers: 2,
+    })
+    expect(packages[1]).toMatchObject({ catalog: 'legacy', catalogConsumers: 0 })
+  })
+
+  it('should take installed versions from the catalogs section of pnpm-lock.yaml', async () => {
+    writeFileSync(
+      join(testDir, 'pnpm-lock.yaml'),
+      [
+        "lockfileVersion: '9.0'",
+        'catalogs:',
+        '  default:',
+        '    react:',
+        '      specifier: ^18.2.0',
+        '      version: 18.2.0',
+        '  legacy:',
+        '    react:',
+        '      specifier: ~17.0.0',
+        '      version: 17.0.2',
+        'importers:',
+        '  .:',
+        '    devDependencies:',
+        '      react:',
+        '        specifier: catalog:legacy',
+        '        version: 17.0.0',
+        '',
+      ].join('\n')
+    )
+
+    const [defaultEntry, legacyEntry] = await detect()
+
+    expect(defaultEntry.installedVersion).toBe('18.2.0')
+    expect(legacyEntry).toMatchObject({ installedVersion: '17.0.2', hasRangeUpdate: false })
+  })
+
+  it('should report pnpm-workspace.yaml apart from package.json files in a dry run', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const packages = await detect()
+    const upgrader = new PackageUpgrader(PackageManagerDetector.getInfo('pnpm'), {
+      cwd: testDir,
+      dryRun: true,
+    })
+
+    try {
+      await upgrader.upgradePackages(buildChoicesFromPolicy(packages, 'minor'), packages)
+      expect(log).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Skipped writing 0 package.json file(s), pnpm-workspace.yaml and running pnpm install.'
+        )
+      )
+    } finally {
+      log.mockRestore()
+    }
+  })
+
+  it('should write upgrades back to pnpm-workspace.yaml', async () => {
+    const packages = await detect()
+    const upgrader = new PackageUpgrader(PackageManagerDetector.getInfo('pnpm'))
+    const [change] = upgrader.planFileChanges(buildChoicesFromPolicy(packages, 'minor'), packages)
+
+    expect(change.packageJsonPath).toBe(workspacePath)
+    expect(change.updated).toBe(
+      readFileSync(workspacePath, 'utf-8')
+        .replace('^18.2.0', '^18.3.1')
+        .replace("'~17.0.0'", "'~17.0.2'")
+    )
+  })
+})
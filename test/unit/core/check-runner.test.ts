@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest'
+import { findThresholdViolations } from '../../../src/core/check-runner'
+
+describe('check-runner', () => {
+  describe('findThresholdViolations()', () => {
+    it('should fail on any outdated package when no threshold is set', () => {
+      expect(findThresholdViolations({ major: 0, minor: 0, patch: 1 })).toEqual(['patch'])
+      expect(findThresholdViolations({ major: 0, minor: 0, patch: 0 })).toEqual([])
+    })
+
+    it('should only check levels that have a threshold', () => {
+      const counts = { major: 1, minor: 4, patch: 10 }
+
+      expect(findThresholdViolations(counts, { minor: 5 })).toEqual([])
+      expect(findThresholdViolations(counts, { minor: 3 })).toEqual(['minor'])
+      expect(findThresholdViolations(counts, { major: 0, minor: 5 })).toEqual(['major'])
+    })
+  })
+})
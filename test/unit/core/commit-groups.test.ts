@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { buildCommitUnits } from '../../../src/core/commit-groups'
+import { PackageInfo, PackageUpgradeChoice } from '../../../src/types'
+
+const choice = (
+  name: string,
+  from: string,
+  to: string,
+  packageJsonPath = '/repo/package.json'
+): PackageUpgradeChoice => ({
+  name,
+  packageJsonPath,
+  upgradeType: 'latest',
+  targetVersion: to,
+  currentVersionSpecifier: from,
+})
+
+const info = (
+  name: string,
+  type: PackageInfo['type'],
+  packageJsonPath = '/repo/package.json'
+): PackageInfo => ({
+  name,
+  currentVersion: '^1.0.0',
+  rangeVersion: '1.0.0',
+  latestVersion: '2.0.0',
+  type,
+  packageJsonPath,
+  isOutdated: true,
+  hasRangeUpdate: false,
+  hasMajorUpdate: true,
+})
+
+describe('commit-groups', () => {
+  describe('buildCommitUnits()', () => {
+    const choices = [
+      choice('react', '^18.2.0', '^19.0.0'),
+      choice('vitest', '^1.0.0', '^3.2.0'),
+      choice('react', '^18.2.0', '^19.0.0', '/repo/packages/app/package.json'),
+    ]
+    const infos = [
+      info('react', 'dependencies'),
+      info('vitest', 'devDependencies'),
+      info('react', 'dependencies', '/repo/packages/app/package.json'),
+    ]
+
+    it('should create one commit per package', () => {
+      const units = buildCommitUnits(choices, infos, 'package', '/repo')
+
+      expect(units.map((unit) => unit.message)).toEqual([
+        'chore(deps): bump react from ^18.2.0 to ^19.0.0',
+        'chore(deps-dev): bump vitest from ^1.0.0 to ^3.2.0',
+      ])
+      expect(units[0].choices).toHaveLength(2)
+    })
+
+    it('should create one commit per package.json file', () => {
+      const units = buildCommitUnits(choices, infos, 'file', '/repo')
+
+      expect(units.map((unit) => unit.message)).toEqual([
+        'chore(deps): bump 2 dependencies\n\n- bump react from ^18.2.0 to ^19.0.0\n- bump vitest from ^1.0.0 to ^3.2.0',
+        'chore(deps): bump react from ^18.2.0 to ^19.0.0 in packages/app',
+      ])
+    })
+
+    it('should create one commit per dependency type', () => {
+      const units = buildCommitUnits(choices, infos, 'type', '/repo')
+
+      expect(units.map((unit) => unit.message)).toEqual([
+        'chore(deps): bump react from ^18.2.0 to ^19.0.0',
+        'chore(deps-dev): bump vitest from ^1.0.0 to ^3.2.0',
+      ])
+    })
+  })
+})
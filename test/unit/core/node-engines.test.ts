@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { PackageDetector } from '../../../src/core/package-detector'
+import { FixtureRegistryProvider } from '../../../src/services/registry-provider'
+
+describe('PackageDetector node engines', () => {
+  let testDir: string
+
+  const detect = (respectEngines?: boolean) =>
+    new PackageDetector(
+      { cwd: testDir, respectEngines },
+      new FixtureRegistryProvider(join(testDir, 'registry.json'))
+    ).getOutdatedPackages()
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-engines-test-'))
+    writeFileSync(join(testDir, '.nvmrc'), '18.19.0\n')
+    writeFileSync(
+      join(testDir, 'package.json'),
+      JSON.stringify({ dependencies: { eslint: '^8.50.0', vite: '^4.0.0' } })
+    )
+    writeFileSync(
+      join(testDir, 'registry.json'),
+      JSON.stringify({
+        eslint: {
+          versions: ['8.50.0', '8.57.0', '9.0.0', '9.10.0'],
+          manifests: {
+            '8.57.0': { engines: { node: '^12.22.0 || ^14.17.0 || >=16.0.0' } },
+            '9.0.0': { engines: { node: '^18.18.0 || ^20.9.0 || >=21.1.0' } },
+            '9.10.0': { engines: { node: '^18.18.0 || ^20.9.0 || >=21.1.0' } },
+          },
+        },
+        vite: {
+          versions: ['4.0.0', '5.0.0', '6.0.0'],
+          manifests: {
+            '5.0.0': { engines: { node: '^18.0.0 || >=20.0.0' } },
+            '6.0.0': { engines: { node: '^18.0.0 || ^20.0.0 || >=22.0.0' } },
+          },
+        },
+      })
+    )
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should mark the offered versions that do not support the project Node', async () => {
+    writeFileSync(join(testDir, '.nvmrc'), '21.0.0\n')
+    const packages = await detect()
+
+    expect(packages.find((pkg) => pkg.name === 'eslint')).toMatchObject({
+      latestVersion: '9.10.0',
+      engineIncompatible: ['9.10.0'],
+    })
+    expect(packages.find((pkg) => pkg.name === 'vite')?.engineIncompatible).toEqual(['6.0.0'])
+  })
+
+  it('should offer the newest compatible version with respectEngines', async () => {
+    writeFileSync(join(testDir, '.nvmrc'), '21.0.0\n')
+    const packages = await detect(true)
+
+    expect(packages.find((pkg) => pkg.name === 'eslint')).toMatchObject({
+      rangeVersion: '8.57.0',
+      latestVersion: '8.57.0',
+      hasMajorUpdate: false,
+      heldBack: '9.10.0',
+    })
+    expect(packages.find((pkg) => pkg.name === 'vite')).toMatchObject({
+      latestVersion: '5.0.0',
+      hasMajorUpdate: true,
+      heldBack: '6.0.0',
+    })
+  })
+
+  it('should not fall back to prereleases with respectEngines', async () => {
+    writeFileSync(join(testDir, '.nvmrc'), '21.0.0\n')
+    writeFileSync(
+      join(testDir, 'registry.json'),
+      JSON.stringify({
+        eslint: {
+          versions: ['8.50.0', '8.57.0', '9.0.0'],
+          manifests: {
+            '9.0.0-alpha.0': { engines: { node: '>=16.0.0' } },
+            '9.0.0': { engines: { node: '^18.18.0 || ^20.9.0 || >=21.1.0' } },
+          },
+        },
+      })
+    )
+    // A registry that lists prereleases among the versions
+    const registry = new FixtureRegistryProvider(join(testDir, 'registry.json'))
+    const fetchVersions = registry.fetchVersions.bind(registry)
+    vi.spyOn(registry, 'fetchVersions').mockImplementation(async (names, options) => {
+      const data = await fetchVersions(names, options)
+      data.get('eslint')?.allVersions.push('9.0.0-alpha.0')
+      return data
+    })
+
+    const packages = await new PackageDetector(
+      { cwd: testDir, respectEngines: true },
+      registry
+    ).getOutdatedPackages()
+
+    expect(packages.find((pkg) => pkg.name === 'eslint')).toMatchObject({
+      rangeVersion: '8.57.0',
+      latestVersion: '8.57.0',
+      hasMajorUpdate: false,
+      heldBack: '9.0.0',
+    })
+  })
+
+  it('should leave compatible versions alone', async () => {
+    const packages = await detect(true)
+
+    expect(packages.find((pkg) => pkg.name === 'eslint')).toMatchObject({ latestVersion: '9.10.0' })
+    expect(packages.some((pkg) => pkg.engineIncompatible || pkg.heldBack)).toBe(false)
+  })
+})
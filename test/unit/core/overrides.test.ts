@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { collectOverrides } from '../../../src/utils'
+import { PackageUpgrader } from '../../../src/core/upgrader'
+import { PackageManagerDetector } from '../../../src/services/package-manager-detector'
+import { PackageInfo, PackageUpgradeChoice } from '../../../src/types'
+
+describe('version overrides', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-overrides-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should collect npm overrides, including nested ones', () => {
+    const overrides = collectOverrides({
+      overrides: {
+        semver: '7.5.4',
+        '@babel/core@^7': '7.24.0',
+        'react-dom': { '.': '18.3.1', 'loose-envify': '1.4.0' },
+        react: '$react',
+      },
+    })
+
+    expect(overrides).toEqual([
+      { name: 'semver', version: '7.5.4', path: ['overrides', 'semver'] },
+      { name: '@babel/core', version: '7.24.0', path: ['overrides', '@babel/core@^7'] },
+      { name: 'react-dom', version: '18.3.1', path: ['overrides', 'react-dom', '.'] },
+      {
+        name: 'loose-envify',
+        version: '1.4.0',
+        path: ['overrides', 'react-dom', 'loose-envify'],
+      },
+    ])
+  })
+
+  it('should collect pnpm overrides and yarn resolutions by their target package', () => {
+    const overrides = collectOverrides({
+      pnpm: { overrides: { 'foo@1>@scope/bar@<2': '^1.4.0', qux: '-' } },
+      resolutions: { '**/minimist': '1.2.8', 'webpack/@types/node': '20.11.0' },
+    })
+
+    expect(overrides.map(({ name, path }) => [name, path])).toEqual([
+      ['@scope/bar', ['pnpm', 'overrides', 'foo@1>@scope/bar@<2']],
+      ['minimist', ['resolutions', '**/minimist']],
+      ['@types/node', ['resolutions', 'webpack/@types/node']],
+    ])
+  })
+
+  it('should rewrite overrides in place, apart from the dependency of the same name', () => {
+    const path = join(testDir, 'package.json')
+    writeFileSync(
+      path,
+      JSON.stringify(
+        {
+          dependencies: { semver: '^7.5.0' },
+          pnpm: { overrides: { 'a>semver': '~7.5.0' } },
+        },
+        null,
+        2
+      ) + '\n'
+    )
+    const overridePath = ['pnpm', 'overrides', 'a>semver']
+    const packages = [
+      { name: 'semver', packageJsonPath: path, type: 'dependencies' },
+      { name: 'semver', packageJsonPath: path, type: 'overrides', overridePath },
+    ] as PackageInfo[]
+    const choices: PackageUpgradeChoice[] = [
+      {
+        name: 'semver',
+        packageJsonPath: path,
+        upgradeType: 'range',
+        targetVersion: '~7.5.4',
+        currentVersionSpecifier: '~7.5.0',
+        overridePath,
+      },
+    ]
+
+    const upgrader = new PackageUpgrader(PackageManagerDetector.getInfo('pnpm'))
+    const [change] = upgrader.planFileChanges(choices, packages)
+
+    expect(JSON.parse(change.updated)).toEqual({
+      dependencies: { semver: '^7.5.0' },
+      pnpm: { overrides: { 'a>semver': '~7.5.4' } },
+    })
+  })
+})
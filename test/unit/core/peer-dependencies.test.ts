@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { checkPeerDependencies } from '../../../src/core/peer-dependencies'
+import { FixtureRegistryProvider } from '../../../src/services/registry-provider'
+import { PackageInfo, PackageUpgradeChoice } from '../../../src/types'
+
+describe('checkPeerDependencies()', () => {
+  let testDir: string
+  let packageJsonPath: string
+  let registry: FixtureRegistryProvider
+
+  const pkg = (name: string, current: string, range: string, latest: string): PackageInfo => ({
+    name,
+    currentVersion: `^${current}`,
+    installedVersion: current,
+    rangeVersion: range,
+    latestVersion: latest,
+    type: 'dependencies',
+    packageJsonPath,
+    isOutdated: current !== latest,
+    hasRangeUpdate: current !== range,
+    hasMajorUpdate: range !== latest,
+  })
+
+  const choice = (name: string, targetVersion: string): PackageUpgradeChoice => ({
+    name,
+    packageJsonPath,
+    upgradeType: 'latest',
+    targetVersion,
+    currentVersionSpecifier: '',
+  })
+
+  const install = (name: string, peerDependencies: Record<string, string>) => {
+    mkdirSync(join(testDir, 'node_modules', name), { recursive: true })
+    writeFileSync(
+      join(testDir, 'node_modules', name, 'package.json'),
+      JSON.stringify({ name, peerDependencies })
+    )
+  }
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-peers-test-'))
+    packageJsonPath = join(testDir, 'package.json')
+    writeFileSync(
+      join(testDir, 'registry.json'),
+      JSON.stringify({
+        react: { versions: ['18.3.1', '19.0.0'] },
+        'react-dom': {
+          versions: ['18.3.1', '19.0.0'],
+          manifests: { '19.0.0': { peerDependencies: { react: '^19.0.0' } } },
+        },
+        'react-modal': {
+          versions: ['3.16.1', '3.17.0'],
+          manifests: { '3.17.0': { peerDependencies: { react: '^18.0.0 || ^19.0.0' } } },
+        },
+        'react-tooltip': { versions: ['4.0.0'] },
+      })
+    )
+    registry = new FixtureRegistryProvider(join(testDir, 'registry.json'))
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should check the peers of target versions against the current versions', async () => {
+    const packages = [
+      pkg('react', '18.3.1', '18.3.1', '19.0.0'),
+      pkg('react-dom', '18.3.1', '18.3.1', '19.0.0'),
+    ]
+
+    const conflicts = await checkPeerDependencies(
+      [choice('react-dom', '19.0.0')],
+      packages,
+      registry,
+      testDir
+    )
+
+    expect(conflicts).toEqual([
+      {
+        name: 'react-dom',
+        version: '19.0.0',
+        peerName: 'react',
+        peerRange: '^19.0.0',
+        peerVersion: '18.3.1',
+        suggestion: { name: 'react', version: '19.0.0' },
+      },
+    ])
+    expect(
+      await checkPeerDependencies(
+        [choice('react-dom', '19.0.0'), choice('react', '19.0.0')],
+        packages,
+        registry,
+        testDir
+      )
+    ).toEqual([])
+  })
+
+  it('should check installed dependencies peering on an upgraded package', async () => {
+    install('react-modal', { react: '^18.0.0' })
+    install('react-tooltip', { react: '>=16' })
+    const packages = [
+      pkg('react', '18.3.1', '18.3.1', '19.0.0'),
+      pkg('react-modal', '3.16.1', '3.16.1', '3.17.0'),
+      pkg('react-tooltip', '4.0.0', '4.0.0', '4.0.0'),
+    ]
+
+    const conflicts = await checkPeerDependencies(
+      [choice('react', '^19.0.0')],
+      packages,
+      registry,
+      testDir
+    )
+
+    expect(conflicts).toEqual([
+      {
+        name: 'react-modal',
+        version: '3.16.1',
+        peerName: 'react',
+        peerRange: '^18.0.0',
+        peerVersion: '19.0.0',
+        suggestion: { name: 'react-modal', version: '3.17.0' },
+      },
+    ])
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { applyRangeStrategy, resolveRangeStrategy } from '../../../src/core/range-strategy'
+import { PackageInfo, PackageUpgradeChoice, RangeStrategyConfig } from '../../../src/types'
+
+describe('range strategy', () => {
+  let testDir: string
+  let appPath: string
+  let libPath: string
+
+  const config: RangeStrategyConfig = {
+    default: 'caret',
+    types: { devDependencies: 'preserve' },
+    workspaces: { '@acme/app': 'exact' },
+  }
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-range-strategy-test-'))
+    appPath = join(testDir, 'apps', 'web', 'package.json')
+    libPath = join(testDir, 'packages', 'ui', 'package.json')
+    mkdirSync(join(testDir, 'apps', 'web'), { recursive: true })
+    mkdirSync(join(testDir, 'packages', 'ui'), { recursive: true })
+    writeFileSync(appPath, JSON.stringify({ name: '@acme/app' }))
+    writeFileSync(libPath, JSON.stringify({ name: '@acme/ui' }))
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should prefer the workspace package, then the dependency type, then the default', () => {
+    expect(resolveRangeStrategy(config, appPath, 'devDependencies', testDir)).toBe('exact')
+    expect(resolveRangeStrategy(config, libPath, 'devDependencies', testDir)).toBe('preserve')
+    expect(resolveRangeStrategy(config, libPath, 'dependencies', testDir)).toBe('caret')
+    expect(
+      resolveRangeStrategy(
+        { workspaces: { 'packages/*': 'tilde' } },
+        libPath,
+        'dependencies',
+        testDir
+      )
+    ).toBe('tilde')
+  })
+
+  it('should rewrite the target specifier of each choice', () => {
+    const pkg = (packageJsonPath: string): PackageInfo => ({
+      name: 'zod',
+      currentVersion: '>=3.20 <4',
+      rangeVersion: '3.23.8',
+      latestVersion: '4.1.0',
+      type: 'dependencies',
+      packageJsonPath,
+      isOutdated: true,
+      hasRangeUpdate: true,
+      hasMajorUpdate: true,
+    })
+    const choice = (packageJsonPath: string): PackageUpgradeChoice => ({
+      name: 'zod',
+      packageJsonPath,
+      upgradeType: 'latest',
+      targetVersion: '>=4.1 <5',
+      currentVersionSpecifier: '>=3.20 <4',
+    })
+
+    const choices = applyRangeStrategy(
+      [choice(appPath), choice(libPath)],
+      [pkg(appPath), pkg(libPath)],
+      config,
+      testDir
+    )
+
+    expect(choices.map((c) => c.targetVersion)).toEqual(['4.1.0', '^4.1.0'])
+  })
+})
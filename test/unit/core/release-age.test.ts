@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+// Keep the disk cache used by offline runs out of the user cache directory
+const mockCacheDir = join(tmpdir(), `inup-release-age-cache-${Date.now()}`)
+
+vi.mock('env-paths', () => ({
+  default: () => ({ cache: mockCacheDir }),
+}))
+
+const { PackageDetector } = await import('../../../src/core/package-detector')
+const { FixtureRegistryProvider, OfflineRegistryProvider } =
+  await import('../../../src/services/registry-provider')
+const { persistentCache } = await import('../../../src/services/persistent-cache')
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+describe('PackageDetector minReleaseAge', () => {
+  let testDir: string
+
+  const detect = (minReleaseAge?: number) =>
+    new PackageDetector(
+      { cwd: testDir, minReleaseAge },
+      new FixtureRegistryProvider(join(testDir, 'registry.json'))
+    ).getOutdatedPackages()
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-release-age-test-'))
+    writeFileSync(
+      join(testDir, 'package.json'),
+      JSON.stringify({ dependencies: { zod: '^3.22.0', vitest: '^1.0.0' } })
+    )
+    writeFileSync(
+      join(testDir, 'registry.json'),
+      JSON.stringify({
+        zod: {
+          versions: ['3.22.0', '3.23.0', '3.23.1', '4.0.0'],
+          time: {
+            '3.22.0': daysAgo(300),
+            '3.23.0': daysAgo(30),
+            '3.23.1': daysAgo(1),
+            '4.0.0': daysAgo(2),
+          },
+        },
+        vitest: {
+          versions: ['1.0.0', '2.0.0'],
+          time: { '1.0.0': daysAgo(400), '2.0.0': daysAgo(100) },
+        },
+      })
+    )
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+    rmSync(mockCacheDir, { recursive: true, force: true })
+  })
+
+  it('should only offer versions older than minReleaseAge', async () => {
+    const packages = await detect(7)
+    const zod = packages.find((pkg) => pkg.name === 'zod')
+
+    expect(zod).toMatchObject({
+      rangeVersion: '3.23.0',
+      latestVersion: '3.23.0',
+      hasRangeUpdate: true,
+      hasMajorUpdate: false,
+      quarantined: { version: '4.0.0', publishedAt: expect.any(String) },
+    })
+    expect(zod?.quarantined?.availableAt).toBeGreaterThan(Date.now())
+    expect(packages.find((pkg) => pkg.name === 'vitest')).toMatchObject({
+      latestVersion: '2.0.0',
+      quarantined: undefined,
+    })
+  })
+
+  it('should offer every version without minReleaseAge', async () => {
+    const packages = await detect()
+
+    expect(packages.find((pkg) => pkg.name === 'zod')).toMatchObject({
+      rangeVersion: '3.23.1',
+      latestVersion: '4.0.0',
+      quarantined: undefined,
+    })
+  })
+
+  it('should still hold back too recent versions offline, from the disk cache', async () => {
+    persistentCache.clearCache()
+    persistentCache.set('zod', {
+      latestVersion: '4.0.0',
+      allVersions: ['4.0.0', '3.23.1', '3.23.0', '3.22.0'],
+      publishedAt: {
+        '3.22.0': daysAgo(300),
+        '3.23.0': daysAgo(30),
+        '3.23.1': daysAgo(1),
+        '4.0.0': daysAgo(2),
+      },
+    })
+    persistentCache.flush()
+
+    const packages = await new PackageDetector(
+      { cwd: testDir, minReleaseAge: 7 },
+      new OfflineRegistryProvider()
+    ).getOutdatedPackages()
+
+    expect(packages.find((pkg) => pkg.name === 'zod')).toMatchObject({
+      rangeVersion: '3.23.0',
+      latestVersion: '3.23.0',
+      quarantined: { version: '4.0.0' },
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { RollbackManager } from '../../../src/core/rollback'
+
+describe('RollbackManager', () => {
+  let testDir: string
+  let storageDir: string
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-rollback-test-'))
+    storageDir = join(testDir, '.snapshots')
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should restore snapshotted files and remove files that did not exist', () => {
+    const packageJsonPath = join(testDir, 'package.json')
+    const lockFilePath = join(testDir, 'bun.lockb')
+    writeFileSync(packageJsonPath, '{"dependencies":{"chalk":"^4.1.0"}}')
+
+    const rollback = new RollbackManager(testDir, storageDir)
+    rollback.snapshot([packageJsonPath, lockFilePath])
+
+    writeFileSync(packageJsonPath, '{"dependencies":{"chalk":"^5.6.2"}}')
+    writeFileSync(lockFilePath, Buffer.from([0, 1, 2]))
+
+    expect(rollback.restore()).toEqual([packageJsonPath, lockFilePath])
+    expect(readFileSync(packageJsonPath, 'utf-8')).toBe('{"dependencies":{"chalk":"^4.1.0"}}')
+    expect(existsSync(lockFilePath)).toBe(false)
+    expect(rollback.getSnapshot()).toBeNull()
+  })
+
+  it('should keep binary lockfiles intact', () => {
+    const lockFilePath = join(testDir, 'bun.lockb')
+    const content = Buffer.from([0, 255, 128, 10, 13])
+    writeFileSync(lockFilePath, content)
+
+    const rollback = new RollbackManager(testDir, storageDir)
+    rollback.snapshot([lockFilePath])
+    writeFileSync(lockFilePath, 'changed')
+    rollback.restore()
+
+    expect(readFileSync(lockFilePath).equals(content)).toBe(true)
+  })
+
+  it('should find the pending snapshot from a new instance for the same directory', () => {
+    const packageJsonPath = join(testDir, 'package.json')
+    writeFileSync(packageJsonPath, '{}')
+
+    new RollbackManager(testDir, storageDir).snapshot([packageJsonPath])
+
+    expect(new RollbackManager(testDir, storageDir).getSnapshot()?.files).toHaveLength(1)
+    expect(new RollbackManager(join(testDir, 'other'), storageDir).getSnapshot()).toBeNull()
+  })
+
+  it('should do nothing after the snapshot was discarded', () => {
+    const packageJsonPath = join(testDir, 'package.json')
+    writeFileSync(packageJsonPath, '{}')
+
+    const rollback = new RollbackManager(testDir, storageDir)
+    rollback.snapshot([packageJsonPath])
+    rollback.discard()
+    writeFileSync(packageJsonPath, '{"name":"changed"}')
+
+    expect(rollback.restore()).toEqual([])
+    expect(readFileSync(packageJsonPath, 'utf-8')).toBe('{"name":"changed"}')
+  })
+
+  it('should restore only the requested files and keep the snapshot', () => {
+    const packageJsonPath = join(testDir, 'package.json')
+    const lockFilePath = join(testDir, 'package-lock.json')
+    writeFileSync(packageJsonPath, '{}')
+    writeFileSync(lockFilePath, 'lock v1')
+
+    const rollback = new RollbackManager(testDir, storageDir)
+    rollback.snapshot([packageJsonPath, lockFilePath])
+    writeFileSync(packageJsonPath, '{"name":"changed"}')
+    writeFileSync(lockFilePath, 'lock v2')
+
+    rollback.restoreFiles([lockFilePath])
+
+    expect(readFileSync(lockFilePath, 'utf-8')).toBe('lock v1')
+    expect(readFileSync(packageJsonPath, 'utf-8')).toBe('{"name":"changed"}')
+    expect(rollback.getSnapshot()?.files).toHaveLength(2)
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildChoicesFromPolicy,
+  countUpdateLevels,
+  resolvePolicyUpgradeType,
+} from '../../../src/core/upgrade-policy'
+import { PackageInfo } from '../../../src/types'
+
+const createPackage = (overrides: Partial<PackageInfo> = {}): PackageInfo => ({
+  name: 'demo-pkg',
+  currentVersion: '^1.2.0',
+  rangeVersion: '1.4.0',
+  latestVersion: '2.0.0',
+  type: 'dependencies',
+  packageJsonPath: '/project/package.json',
+  isOutdated: true,
+  hasRangeUpdate: true,
+  hasMajorUpdate: true,
+  ...overrides,
+})
+
+describe('upgrade-policy', () => {
+  describe('resolvePolicyUpgradeType()', () => {
+    it('should pick latest for the latest target when a major update exists', () => {
+      expect(resolvePolicyUpgradeType(createPackage(), 'latest')).toBe('latest')
+    })
+
+    it('should fall back to range for the latest target without a major update', () => {
+      const pkg = createPackage({ hasMajorUpdate: false, latestVersion: '1.4.0' })
+      expect(resolvePolicyUpgradeType(pkg, 'latest')).toBe('range')
+    })
+
+    it('should pick range for the minor target', () => {
+      expect(resolvePolicyUpgradeType(createPackage(), 'minor')).toBe('range')
+    })
+
+    it('should skip minor bumps for the patch target', () => {
+      expect(resolvePolicyUpgradeType(createPackage(), 'patch')).toBe('none')
+    })
+
+    it('should pick patch bumps for the patch target', () => {
+      const pkg = createPackage({ rangeVersion: '1.2.5' })
+      expect(resolvePolicyUpgradeType(pkg, 'patch')).toBe('range')
+    })
+
+    it('should skip packages that are up to date', () => {
+      const pkg = createPackage({ isOutdated: false, hasRangeUpdate: false, hasMajorUpdate: false })
+      expect(resolvePolicyUpgradeType(pkg, 'latest')).toBe('none')
+    })
+  })
+
+  describe('buildChoicesFromPolicy()', () => {
+    it('should keep the original version prefix', () => {
+      const choices = buildChoicesFromPolicy(
+        [createPackage({ currentVersion: '~1.2.0' })],
+        'latest'
+      )
+
+      expect(choices).toEqual([
+        {
+          name: 'demo-pkg',
+          packageJsonPath: '/project/package.json',
+          upgradeType: 'latest',
+          targetVersion: '~2.0.0',
+          currentVersionSpecifier: '~1.2.0',
+        },
+      ])
+    })
+
+    it('should create one choice per package.json occurrence', () => {
+      const choices = buildChoicesFromPolicy(
+        [
+          createPackage({ packageJsonPath: '/project/a/package.json' }),
+          createPackage({ packageJsonPath: '/project/b/package.json' }),
+        ],
+        'minor'
+      )
+
+      expect(choices.map((c) => c.packageJsonPath)).toEqual([
+        '/project/a/package.json',
+        '/project/b/package.json',
+      ])
+      expect(choices.every((c) => c.targetVersion === '^1.4.0')).toBe(true)
+    })
+
+    it('should return no choices when nothing matches the target', () => {
+      const choices = buildChoicesFromPolicy([createPackage({ rangeVersion: '1.3.0' })], 'patch')
+      expect(choices).toEqual([])
+    })
+  })
+
+  describe('countUpdateLevels()', () => {
+    it('should count packages by their highest update level', () => {
+      const counts = countUpdateLevels([
+        createPackage({ name: 'a', hasMajorUpdate: true, latestVersion: '2.0.0' }),
+        createPackage({ name: 'b', hasMajorUpdate: false }),
+        createPackage({ name: 'c', rangeVersion: '1.2.3', hasMajorUpdate: false }),
+        createPackage({
+          name: 'd',
+          isOutdated: false,
+          hasRangeUpdate: false,
+          hasMajorUpdate: false,
+          rangeVersion: '^1.2.0',
+        }),
+      ])
+
+      expect(counts).toEqual({ major: 1, minor: 1, patch: 1 })
+    })
+
+    it('should count a package found in several package.json files once', () => {
+      const counts = countUpdateLevels([
+        createPackage({ packageJsonPath: '/project/a/package.json', hasMajorUpdate: false }),
+        createPackage({
+          packageJsonPath: '/project/b/package.json',
+          hasMajorUpdate: true,
+          latestVersion: '2.0.0',
+        }),
+      ])
+
+      expect(counts).toEqual({ major: 1, minor: 0, patch: 0 })
+    })
+  })
+})
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import type { PackageInfo, PackageUpgradeChoice, UpgradeOptions } from '../../../src/types'
+import type { PackageManager } from '../../../src/services/package-manager-detector'
+
+const spawnSyncMock = vi.fn()
+const execSyncMock = vi.fn()
+
+vi.mock('child_process', async () => {
+  const actual = await vi.importActual<typeof import('child_process')>('child_process')
+  return { ...actual, spawnSync: spawnSyncMock, execSync: execSyncMock }
+})
+
+const { PackageUpgrader } = await import('../../../src/core/upgrader')
+const { UpgradeRunner } = await import('../../../src/core/upgrade-runner')
+const { PackageManagerDetector } = await import('../../../src/services/package-manager-detector')
+const childProcess = await vi.importActual<typeof import('child_process')>('child_process')
+
+const PACKAGE_JSON = '{\n  "dependencies": {\n    "chalk": "^4.1.0"\n  }\n}\n'
+const LOCKFILE = "lockfileVersion: '9.0'\n"
+
+describe('PackageUpgrader', () => {
+  let testDir: string
+  let packageJsonPath: string
+  let lockFilePath: string
+
+  const packages = (): PackageInfo[] => [
+    {
+      name: 'chalk',
+      currentVersion: '^4.1.0',
+      rangeVersion: '4.1.2',
+      latestVersion: '5.6.2',
+      type: 'dependencies',
+      packageJsonPath,
+      isOutdated: true,
+      hasRangeUpdate: true,
+      hasMajorUpdate: true,
+    },
+  ]
+
+  const choices = (): PackageUpgradeChoice[] => [
+    {
+      name: 'chalk',
+      packageJsonPath,
+      upgradeType: 'latest',
+      targetVersion: '^5.6.2',
+      currentVersionSpecifier: '^4.1.0',
+    },
+  ]
+
+  const upgrade = (options: UpgradeOptions = {}) =>
+    new PackageUpgrader(PackageManagerDetector.getInfo('pnpm'), {
+      cwd: testDir,
+      ...options,
+    }).upgradePackages(choices(), packages())
+
+  /**
+   * Make package manager commands touch the lockfile, then run the given step
+   */
+  const onInstall = (step: () => number | null) => {
+    spawnSyncMock.mockImplementation((cmd: string, args: string[], options: object) => {
+      if (cmd === 'git') {
+        return childProcess.spawnSync(cmd, args, options)
+      }
+      writeFileSync(lockFilePath, LOCKFILE + 'packages: {}\n')
+      return { status: step() }
+    })
+  }
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-upgrader-test-'))
+    packageJsonPath = join(testDir, 'package.json')
+    lockFilePath = join(testDir, 'pnpm-lock.yaml')
+    writeFileSync(packageJsonPath, PACKAGE_JSON)
+    writeFileSync(lockFilePath, LOCKFILE)
+
+    vi.clearAllMocks()
+    execSyncMock.mockReturnValue('10.28.2\n')
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should write package.json and install', async () => {
+    onInstall(() => 0)
+
+    await upgrade()
+
+    expect(readFileSync(packageJsonPath, 'utf-8')).toBe(PACKAGE_JSON.replace('^4.1.0', '^5.6.2'))
+    expect(spawnSyncMock).toHaveBeenCalledWith('pnpm', ['install'], expect.anything())
+  })
+
+  it('should commit package.json and the lockfile with --commit', async () => {
+    const git = (...args: string[]) =>
+      childProcess.spawnSync('git', args, { cwd: testDir, encoding: 'utf-8' }).stdout.trim()
+    git('init', '--quiet')
+    git('config', 'user.name', 'inup')
+    git('config', 'user.email', 'inup@example.com')
+    git('add', '.')
+    git('commit', '--quiet', '-m', 'initial')
+    onInstall(() => 0)
+
+    await upgrade({ commit: 'package' })
+
+    expect(git('log', '-1', '--format=%s')).toContain('chalk')
+    expect(git('show', '--name-only', '--format=', 'HEAD').split('\n')).toEqual([
+      'package.json',
+      'pnpm-lock.yaml',
+    ])
+    expect(git('status', '--porcelain')).toBe('')
+  })
+
+  it('should restore package.json and the lockfile when the install fails', async () => {
+    onInstall(() => 1)
+
+    await expect(upgrade()).rejects.toThrow('pnpm install exited with code 1')
+
+    expect(readFileSync(packageJsonPath, 'utf-8')).toBe(PACKAGE_JSON)
+    expect(readFileSync(lockFilePath, 'utf-8')).toBe(LOCKFILE)
+  })
+
+  it('should restore the files and exit non-zero when aborted, bypassing other handlers', async () => {
+    const cliHandler = vi.fn()
+    process.on('SIGINT', cliHandler)
+    const exit = vi.spyOn(process, 'exit').mockImplementation((code) => {
+      throw new Error(`exit ${code}`)
+    })
+    onInstall(() => {
+      process.emit('SIGINT', 'SIGINT')
+      return null
+    })
+
+    try {
+      await expect(upgrade()).rejects.toThrow('exit 130')
+
+      expect(exit).toHaveBeenCalledWith(130)
+      expect(cliHandler).not.toHaveBeenCalled()
+      expect(readFileSync(packageJsonPath, 'utf-8')).toBe(PACKAGE_JSON)
+      expect(readFileSync(lockFilePath, 'utf-8')).toBe(LOCKFILE)
+      expect(process.listeners('SIGINT')).toContain(cliHandler)
+    } finally {
+      process.removeListener('SIGINT', cliHandler)
+    }
+  })
+
+  describe('--lockfile-only', () => {
+    const refresh = (manager: PackageManager) =>
+      new PackageUpgrader(PackageManagerDetector.getInfo(manager), {
+        cwd: testDir,
+        lockfileOnly: true,
+      }).upgradePackages(
+        [{ ...choices()[0], upgradeType: 'range', targetVersion: '^4.1.2' }],
+        [{ ...packages()[0], lockfileOnlyUpdate: true }]
+      )
+
+    it.each([
+      ['npm', '10.9.0', ['npm', ['update', 'chalk']]],
+      ['pnpm', '10.28.2', ['pnpm', ['update', '--no-save', 'chalk']]],
+      ['yarn', '4.5.0', ['yarn', ['up', '-R', 'chalk']]],
+      ['yarn', '1.22.22', ['yarn', ['upgrade', 'chalk']]],
+    ] as const)(
+      'should refresh the lockfile with %s %s instead of installing',
+      async (manager, version, command) => {
+        execSyncMock.mockReturnValue(`${version}\n`)
+        onInstall(() => 0)
+
+        await refresh(manager)
+
+        const commands = spawnSyncMock.mock.calls
+          .filter(([cmd]) => cmd !== 'git')
+          .map(([cmd, args]) => [cmd, args])
+        expect(commands).toEqual([command])
+        expect(readFileSync(packageJsonPath, 'utf-8')).toBe(PACKAGE_JSON)
+      }
+    )
+
+    it('should be rejected for bun, whose update command rewrites package.json', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.spyOn(process, 'exit').mockImplementation((code) => {
+        throw new Error(`exit ${code}`)
+      })
+      onInstall(() => 0)
+
+      const runner = new UpgradeRunner({
+        cwd: testDir,
+        packageManager: 'bun',
+        lockfileOnly: true,
+        yes: true,
+      })
+      await expect(runner.run()).rejects.toThrow('exit 1')
+
+      expect(error).toHaveBeenCalledWith(
+        expect.stringContaining('--lockfile-only is not supported with bun')
+      )
+      expect(spawnSyncMock.mock.calls.filter(([cmd]) => cmd !== 'git')).toEqual([])
+      await expect(refresh('bun')).rejects.toThrow('--lockfile-only is not supported with bun')
+      expect(readFileSync(packageJsonPath, 'utf-8')).toBe(PACKAGE_JSON)
+    })
+  })
+})
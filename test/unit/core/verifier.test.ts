@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { bisectFailures } from '../../../src/core/verifier'
+
+const ITEMS = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']
+
+describe('verifier', () => {
+  describe('bisectFailures()', () => {
+    it('should find a single breaking upgrade', async () => {
+      const result = await bisectFailures(ITEMS, async (subset) => subset.includes('f'))
+      expect(result).toEqual({ baselineFails: false, culprits: ['f'] })
+    })
+
+    it('should find several breaking upgrades', async () => {
+      const result = await bisectFailures(
+        ITEMS,
+        async (subset) => subset.includes('b') || subset.includes('g')
+      )
+      expect(result.culprits.sort()).toEqual(['b', 'g'])
+    })
+
+    it('should revert one side of upgrades that only break together', async () => {
+      const result = await bisectFailures(
+        ITEMS,
+        async (subset) => subset.includes('c') && subset.includes('e')
+      )
+      expect(result.culprits).toEqual(['e'])
+    })
+
+    it('should blame nothing when verification fails without any upgrade', async () => {
+      const result = await bisectFailures(ITEMS, async () => true)
+      expect(result).toEqual({ baselineFails: true, culprits: [] })
+    })
+
+    it('should verify far fewer subsets than items for a single culprit', async () => {
+      const items = Array.from({ length: 64 }, (_, index) => index)
+      let runs = 0
+
+      const result = await bisectFailures(items, async (subset) => {
+        runs++
+        return subset.includes(42)
+      })
+
+      expect(result.culprits).toEqual([42])
+      expect(runs).toBeLessThanOrEqual(8)
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { PackageDetector } from '../../../src/core/package-detector'
+import { FixtureRegistryProvider } from '../../../src/services/registry-provider'
+import { StateManager } from '../../../src/ui/state'
+import { PackageSelectionState, UpgradeOptions } from '../../../src/types'
+import { getAllowedRange } from '../../../src/utils'
+
+describe('pin and maxUpdate policies', () => {
+  let testDir: string
+
+  const detect = (options: UpgradeOptions) =>
+    new PackageDetector(
+      { cwd: testDir, ...options },
+      new FixtureRegistryProvider(join(testDir, 'registry.json'))
+    ).getOutdatedPackages()
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-policies-test-'))
+    writeFileSync(
+      join(testDir, 'package.json'),
+      JSON.stringify({ dependencies: { typescript: '^5.3.3', react: '^18.2.0' } })
+    )
+    writeFileSync(
+      join(testDir, 'registry.json'),
+      JSON.stringify({
+        typescript: { versions: ['5.3.3', '5.4.2', '5.4.5', '5.6.2'] },
+        react: { versions: ['18.2.0', '18.3.1', '19.0.0'] },
+      })
+    )
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should combine the pin range with the maxUpdate limit', () => {
+    expect(getAllowedRange('18.2.0', undefined, 'minor')).toBe('<19.0.0-0')
+    expect(getAllowedRange('5.4.2', '~5.4', 'patch')).toBe('>=5.4.0 <5.5.0-0 <5.5.0-0')
+    expect(getAllowedRange('1.0.0', '^1 || ^2', 'minor')).toBe(
+      '>=1.0.0 <2.0.0-0 <2.0.0-0 || >=2.0.0 <3.0.0-0 <2.0.0-0'
+    )
+    expect(getAllowedRange('1.0.0', undefined, 'major')).toBeUndefined()
+  })
+
+  it('should cap the offered versions and keep the held-back one with its reason', async () => {
+    const packages = await detect({
+      pin: { typescript: '~5.4' },
+      maxUpdate: { 'react*': 'minor' },
+    })
+
+    expect(packages.find((pkg) => pkg.name === 'typescript')).toMatchObject({
+      rangeVersion: '5.4.5',
+      hasRangeUpdate: true,
+      hasMajorUpdate: false,
+      restricted: { version: '5.6.2', reason: 'pinned to ~5.4' },
+    })
+    expect(packages.find((pkg) => pkg.name === 'react')).toMatchObject({
+      rangeVersion: '18.3.1',
+      latestVersion: '18.3.1',
+      hasMajorUpdate: false,
+      restricted: { version: '19.0.0', reason: 'maxUpdate minor' },
+    })
+  })
+
+  it('should refuse to select targets outside the allowed range', () => {
+    const state: PackageSelectionState = {
+      name: 'react',
+      packageJsonPath: join(testDir, 'package.json'),
+      currentVersionSpecifier: '^18.2.0',
+      currentVersion: '18.2.0',
+      rangeVersion: '18.3.1',
+      latestVersion: '19.0.0',
+      selectedOption: 'none',
+      hasRangeUpdate: true,
+      hasMajorUpdate: true,
+      allowedRange: '<19.0.0-0',
+      type: 'dependencies',
+    }
+    const stateManager = new StateManager()
+
+    stateManager.updateSelection([state], 'right')
+    expect(state.selectedOption).toBe('range')
+    stateManager.updateSelection([state], 'right')
+    expect(state.selectedOption).toBe('none')
+    stateManager.bulkSelectLatest([state])
+    expect(state.selectedOption).toBe('range')
+  })
+})
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+  loadLockfile,
+  parseBunLock,
+  parseNpmLock,
+  parsePnpmLock,
+  parseYarnLock,
+} from '../../../src/lockfiles'
+
+describe('lockfiles', () => {
+  describe('parsePnpmLock()', () => {
+    it('should read v9 importers and strip peer suffixes', () => {
+      const lock = parsePnpmLock(
+        [
+          "lockfileVersion: '9.0'",
+          'importers:',
+          '  .:',
+          '    devDependencies:',
+          '      vitest:',
+          '        specifier: ^3.0.0',
+          '        version: 3.2.4(@types/node@20.0.0)',
+          '  packages/app:',
+          '    dependencies:',
+          '      react:',
+          '        specifier: ^18.2.0',
+          '        version: 18.3.1',
+        ].join('\n')
+      )
+
+      expect(lock.getInstalledVersion('vitest', '^3.0.0', '.')).toBe('3.2.4')
+      expect(lock.getInstalledVersion('react', '^18.2.0', 'packages/app')).toBe('18.3.1')
+      expect(lock.getInstalledVersion('react', '^18.2.0', '.')).toBeNull()
+    })
+
+    it('should read catalog entries from their own section', () => {
+      const lock = parsePnpmLock(
+        [
+          "lockfileVersion: '9.0'",
+          'catalogs:',
+          '  default:',
+          '    react:',
+          '      specifier: ^18.2.0',
+          '      version: 18.3.1',
+          '  legacy:',
+          '    react:',
+          '      specifier: ~17.0.0',
+          '      version: 17.0.2',
+          'importers:',
+          '  .:',
+          '    dependencies:',
+          '      react:',
+          '        specifier: catalog:legacy',
+          '        version: 17.0.2',
+        ].join('\n')
+      )
+
+      expect(lock.getCatalogVersion?.('default', 'react')).toBe('18.3.1')
+      expect(lock.getCatalogVersion?.('legacy', 'react')).toBe('17.0.2')
+      expect(lock.getCatalogVersion?.('legacy', 'vue')).toBeNull()
+    })
+
+    it('should read v5 single-package lockfiles', () => {
+      const lock = parsePnpmLock(
+        [
+          'lockfileVersion: 5.4',
+          'specifiers:',
+          '  chalk: ^4.0.0',
+          'dependencies:',
+          '  chalk: 4.1.2_abc',
+        ].join('\n')
+      )
+
+      expect(lock.getInstalledVersion('chalk', '^4.0.0', '.')).toBe('4.1.2')
+    })
+  })
+
+  describe('parseNpmLock()', () => {
+    it('should resolve workspace-local copies before hoisted ones', () => {
+      const lock = parseNpmLock(
+        JSON.stringify({
+          lockfileVersion: 3,
+          packages: {
+            '': { name: 'root' },
+            'node_modules/react': { version: '18.3.1' },
+            'packages/legacy/node_modules/react': { version: '17.0.2' },
+          },
+        })
+      )
+
+      expect(lock.getInstalledVersion('react', '^18.0.0', '.')).toBe('18.3.1')
+      expect(lock.getInstalledVersion('react', '^17.0.0', 'packages/legacy')).toBe('17.0.2')
+      expect(lock.getInstalledVersion('react', '^18.0.0', 'packages/app')).toBe('18.3.1')
+    })
+
+    it('should read v1 dependencies', () => {
+      const lock = parseNpmLock(
+        JSON.stringify({ lockfileVersion: 1, dependencies: { chalk: { version: '4.1.2' } } })
+      )
+      expect(lock.getInstalledVersion('chalk', '^4.0.0', '.')).toBe('4.1.2')
+    })
+  })
+
+  describe('parseYarnLock()', () => {
+    it('should read classic lockfiles', () => {
+      const lock = parseYarnLock(
+        [
+          '# yarn lockfile v1',
+          '',
+          '"@babel/code-frame@^7.0.0", "@babel/code-frame@^7.10.4":',
+          '  version "7.12.13"',
+          '  resolved "https://registry.yarnpkg.com/x.tgz"',
+        ].join('\n')
+      )
+
+      expect(lock.getInstalledVersion('@babel/code-frame', '^7.10.4', '.')).toBe('7.12.13')
+      expect(lock.getInstalledVersion('@babel/code-frame', '^8.0.0', '.')).toBeNull()
+    })
+
+    it('should read berry lockfiles', () => {
+      const lock = parseYarnLock(
+        [
+          '__metadata:',
+          '  version: 8',
+          '',
+          '"chalk@npm:^4.0.0, chalk@npm:^4.1.0":',
+          '  version: 4.1.2',
+          '  resolution: "chalk@npm:4.1.2"',
+        ].join('\n')
+      )
+
+      expect(lock.getInstalledVersion('chalk', '^4.1.0', '.')).toBe('4.1.2')
+    })
+  })
+
+  describe('parseBunLock()', () => {
+    it('should read bun.lock with trailing commas and workspace copies', () => {
+      const lock = parseBunLock(`{
+  "lockfileVersion": 1,
+  "workspaces": {
+    "": { "name": "root", },
+    "packages/app": { "name": "app", },
+  },
+  "packages": {
+    "react": ["react@18.3.1", "", {}, "sha512-x"],
+    "app/react": ["react@17.0.2", "", {}, "sha512-y"],
+  },
+}`)
+
+      expect(lock.getInstalledVersion('react', '^18.0.0', '.')).toBe('18.3.1')
+      expect(lock.getInstalledVersion('react', '^17.0.0', 'packages/app')).toBe('17.0.2')
+    })
+  })
+
+  describe('loadLockfile()', () => {
+    let testDir: string
+
+    beforeEach(() => {
+      testDir = mkdtempSync(join(tmpdir(), 'inup-lockfile-test-'))
+    })
+
+    afterEach(() => {
+      rmSync(testDir, { recursive: true, force: true })
+    })
+
+    it('should find the lockfile of a parent workspace and resolve importers', () => {
+      mkdirSync(join(testDir, 'packages', 'app'), { recursive: true })
+      writeFileSync(
+        join(testDir, 'pnpm-lock.yaml'),
+        [
+          'importers:',
+          '  packages/app:',
+          '    dependencies:',
+          '      chalk:',
+          '        specifier: ^4.0.0',
+          '        version: 4.1.2',
+        ].join('\n')
+      )
+
+      const lockfile = loadLockfile(join(testDir, 'packages', 'app'))
+
+      expect(lockfile?.path).toBe(join(testDir, 'pnpm-lock.yaml'))
+      expect(
+        lockfile?.getInstalledVersion(
+          'chalk',
+          '^4.0.0',
+          join(testDir, 'packages', 'app', 'package.json')
+        )
+      ).toBe('4.1.2')
+    })
+
+    it('should return null for unparsable lockfiles', () => {
+      writeFileSync(join(testDir, 'package-lock.json'), '{ not json')
+      expect(loadLockfile(testDir)).toBeNull()
+    })
+  })
+})
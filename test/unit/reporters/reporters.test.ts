@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { formatReport, buildReportEntries } from '../../../src/reporters'
+import { PackageInfo } from '../../../src/types'
+
+describe('reporters', () => {
+  let testDir: string
+  let packages: PackageInfo[]
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-test-'))
+    const packageJsonPath = join(testDir, 'package.json')
+    writeFileSync(
+      packageJsonPath,
+      JSON.stringify(
+        {
+          name: 'demo',
+          dependencies: { react: '^18.2.0', lodash: '^4.17.0' },
+          devDependencies: { typescript: '~5.4.2' },
+        },
+        null,
+        2
+      )
+    )
+
+    const base = {
+      packageJsonPath,
+      isOutdated: true,
+      hasRangeUpdate: true,
+      hasMajorUpdate: false,
+    }
+    packages = [
+      {
+        ...base,
+        name: 'react',
+        currentVersion: '^18.2.0',
+        rangeVersion: '18.3.1',
+        latestVersion: '19.0.0',
+        type: 'dependencies',
+        hasMajorUpdate: true,
+      },
+      {
+        ...base,
+        name: 'lodash',
+        currentVersion: '^4.17.0',
+        rangeVersion: '^4.17.0',
+        latestVersion: '4.17.0',
+        type: 'dependencies',
+        isOutdated: false,
+        hasRangeUpdate: false,
+      },
+      {
+        ...base,
+        name: 'typescript',
+        currentVersion: '~5.4.2',
+        rangeVersion: '5.4.5',
+        latestVersion: '5.4.5',
+        type: 'devDependencies',
+      },
+    ]
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  describe('buildReportEntries()', () => {
+    it('should keep only outdated packages with relative paths', () => {
+      const entries = buildReportEntries(packages, { cwd: testDir })
+
+      expect(entries.map((e) => e.name)).toEqual(['react', 'typescript'])
+      expect(entries[0].packageJsonPath).toBe('package.json')
+      expect(entries[0].updateLevel).toBe('major')
+      expect(entries[1].updateLevel).toBe('patch')
+    })
+  })
+
+  describe('json', () => {
+    it('should include a summary and the outdated packages', () => {
+      const report = JSON.parse(formatReport('json', packages, { cwd: testDir }))
+
+      expect(report.summary).toEqual({ total: 3, outdated: 2, major: 1, minor: 0, patch: 1 })
+      expect(report.packages[0]).toMatchObject({
+        name: 'react',
+        currentVersion: '^18.2.0',
+        rangeVersion: '18.3.1',
+        latestVersion: '19.0.0',
+        type: 'dependencies',
+        packageJsonPath: 'package.json',
+        hasMajorUpdate: true,
+      })
+    })
+  })
+
+  describe('markdown', () => {
+    it('should render a table row per outdated package', () => {
+      const report = formatReport('markdown', packages, { cwd: testDir })
+
+      expect(report).toContain('| Package | Current | Range | Latest | Type | Location |')
+      expect(report).toContain(
+        '| `react` | `^18.2.0` | `^18.3.1` | `^19.0.0` ⚠️ | dependencies | `package.json` |'
+      )
+      expect(report).toContain('| `typescript` | `~5.4.2` | `~5.4.5` | - | devDependencies |')
+      expect(report).not.toContain('lodash')
+    })
+
+    it('should report when everything is up to date', () => {
+      const report = formatReport('markdown', [packages[1]], { cwd: testDir })
+      expect(report).toContain('All packages are up to date')
+    })
+  })
+
+  describe('sarif', () => {
+    it('should produce a SARIF log with locations in package.json', () => {
+      const log = JSON.parse(
+        formatReport('sarif', packages, { cwd: testDir, toolVersion: '1.2.3' })
+      )
+
+      expect(log.version).toBe('2.1.0')
+      expect(log.runs[0].tool.driver.version).toBe('1.2.3')
+
+      const [react, typescript] = log.runs[0].results
+      expect(react.ruleId).toBe('outdated-major')
+      expect(react.level).toBe('warning')
+      expect(react.locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: 'package.json' },
+        region: { startLine: 4 },
+      })
+      expect(typescript.ruleId).toBe('outdated-patch')
+      expect(typescript.locations[0].physicalLocation.region.startLine).toBe(8)
+    })
+  })
+})
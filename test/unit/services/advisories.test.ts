@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+  parseBulkAdvisories,
+  parseOsvAdvisories,
+  loadOsvAdvisories,
+} from '../../../src/services/advisories'
+import { FixtureRegistryProvider } from '../../../src/services/registry-provider'
+import { PackageDetector } from '../../../src/core/package-detector'
+import { getFixedAdvisories, getHighestSeverity } from '../../../src/utils/advisories'
+
+const lodashAdvisory = {
+  id: 1096996,
+  url: 'https://github.com/advisories/GHSA-35jh-r3h4-6jhm',
+  title: 'Command Injection in lodash',
+  severity: 'high',
+  vulnerable_versions: '<4.17.21',
+}
+
+const osvRecord = {
+  id: 'GHSA-35jh-r3h4-6jhm',
+  aliases: ['CVE-2021-23337'],
+  summary: 'Command Injection in lodash',
+  affected: [
+    {
+      package: { ecosystem: 'npm', name: 'lodash' },
+      ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.17.21' }] }],
+    },
+    {
+      package: { ecosystem: 'PyPI', name: 'lodash' },
+      ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '1.0' }] }],
+    },
+  ],
+  database_specific: { severity: 'HIGH' },
+}
+
+describe('advisories', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-advisories-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  describe('parseBulkAdvisories()', () => {
+    it('should read the npm bulk response, using GHSA ids when available', () => {
+      const advisories = parseBulkAdvisories({ lodash: [lodashAdvisory], react: [] })
+
+      expect(advisories.get('lodash')).toEqual([
+        {
+          id: 'GHSA-35jh-r3h4-6jhm',
+          title: 'Command Injection in lodash',
+          severity: 'high',
+          vulnerableVersions: '<4.17.21',
+          url: 'https://github.com/advisories/GHSA-35jh-r3h4-6jhm',
+        },
+      ])
+      expect(advisories.has('react')).toBe(false)
+    })
+  })
+
+  describe('parseOsvAdvisories()', () => {
+    it('should convert npm OSV ranges to semver ranges', () => {
+      const advisories = parseOsvAdvisories({ vulns: [osvRecord] })
+
+      expect(advisories.get('lodash')).toEqual([
+        {
+          id: 'GHSA-35jh-r3h4-6jhm',
+          title: 'Command Injection in lodash',
+          severity: 'high',
+          vulnerableVersions: '<4.17.21',
+          url: 'https://osv.dev/vulnerability/GHSA-35jh-r3h4-6jhm',
+          cves: ['CVE-2021-23337'],
+        },
+      ])
+    })
+
+    it('should handle multiple ranges and open-ended ones', () => {
+      const advisories = parseOsvAdvisories([
+        {
+          id: 'OSV-1',
+          affected: [
+            {
+              package: { ecosystem: 'npm', name: 'minimist' },
+              ranges: [
+                {
+                  type: 'SEMVER',
+                  events: [
+                    { introduced: '0' },
+                    { fixed: '0.2.4' },
+                    { introduced: '1.0.0' },
+                    { last_affected: '1.2.5' },
+                    { introduced: '2.0.0' },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ])
+
+      expect(advisories.get('minimist')?.[0]).toMatchObject({
+        title: 'OSV-1',
+        severity: 'moderate',
+        vulnerableVersions: '<0.2.4 || >=1.0.0 <=1.2.5 || >=2.0.0',
+      })
+    })
+
+    it('should fail on a missing file', () => {
+      expect(() => loadOsvAdvisories(join(testDir, 'missing.json'))).toThrow(
+        'Advisory file not found'
+      )
+    })
+  })
+
+  describe('severity and fixes', () => {
+    it('should find the highest severity and the advisories fixed by a version', () => {
+      const advisories = [
+        ...parseBulkAdvisories({ lodash: [lodashAdvisory] }).get('lodash')!,
+        {
+          id: 'GHSA-p6mc-m468-83gw',
+          title: 'Prototype Pollution in lodash',
+          severity: 'critical' as const,
+          vulnerableVersions: '<4.17.20',
+        },
+      ]
+
+      expect(getHighestSeverity(advisories)).toBe('critical')
+      expect(getHighestSeverity([])).toBeNull()
+      expect(getFixedAdvisories(advisories, '4.17.20').map((advisory) => advisory.id)).toEqual([
+        'GHSA-p6mc-m468-83gw',
+      ])
+      expect(getFixedAdvisories(advisories, '4.17.21')).toHaveLength(2)
+    })
+  })
+
+  describe('PackageDetector', () => {
+    beforeEach(() => {
+      writeFileSync(
+        join(testDir, 'registry.json'),
+        JSON.stringify({
+          lodash: { versions: ['4.17.19', '4.17.21'], advisories: [lodashAdvisory] },
+          react: { versions: ['18.2.0', '18.3.1'] },
+        })
+      )
+      writeFileSync(
+        join(testDir, 'package.json'),
+        JSON.stringify({ dependencies: { lodash: '^4.17.19', react: '^18.2.0' } })
+      )
+    })
+
+    it('should attach registry advisories affecting the installed version', async () => {
+      const detector = new PackageDetector(
+        { cwd: testDir },
+        new FixtureRegistryProvider(join(testDir, 'registry.json'))
+      )
+      const packages = await detector.getOutdatedPackages()
+
+      expect(packages.find((pkg) => pkg.name === 'lodash')?.advisories).toMatchObject([
+        { id: 'GHSA-35jh-r3h4-6jhm', severity: 'high' },
+      ])
+      expect(packages.find((pkg) => pkg.name === 'react')?.advisories).toBeUndefined()
+    })
+
+    it('should read advisories from an OSV file instead of the registry', async () => {
+      const osvPath = join(testDir, 'osv.json')
+      writeFileSync(osvPath, JSON.stringify([{ ...osvRecord, database_specific: {} }]))
+
+      const detector = new PackageDetector(
+        { cwd: testDir, advisories: osvPath },
+        new FixtureRegistryProvider(join(testDir, 'registry.json'))
+      )
+      const packages = await detector.getOutdatedPackages()
+
+      expect(packages.find((pkg) => pkg.name === 'lodash')?.advisories).toMatchObject([
+        { cves: ['CVE-2021-23337'], severity: 'moderate' },
+      ])
+    })
+  })
+})
@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { ChangelogFetcher } from '../../../src/services/changelog-fetcher'
+import { NpmRegistryProvider } from '../../../src/services/registry-provider'
 import { PACKAGE_NAME } from '../../../src/config/constants'
 
 describe('ChangelogFetcher', () => {
@@ -162,4 +163,28 @@ describe('ChangelogFetcher', () => {
       expect(duration).toBeGreaterThan(10)
     }, 10000)
   })
+
+  describe('fetchReleaseNotes()', () => {
+    it('should not look up the changelog of a private package on jsDelivr', async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, 'fetch')
+        .mockImplementation(async () => new Response('', { status: 404 }))
+      const privateFetcher = new ChangelogFetcher(
+        new NpmRegistryProvider({
+          registry: 'https://registry.npmjs.org',
+          scopes: { '@acme': 'https://npm.acme.dev' },
+          authTokens: {},
+        })
+      )
+
+      try {
+        expect(await privateFetcher.fetchReleaseNotes('@acme/ui', '1.0.0', '2.0.0')).toEqual([])
+        const urls = fetchMock.mock.calls.map(([url]) => String(url))
+        expect(urls.length).toBeGreaterThan(0)
+        expect(urls.every((url) => url.startsWith('https://npm.acme.dev/'))).toBe(true)
+      } finally {
+        fetchMock.mockRestore()
+      }
+    })
+  })
 })
@@ -59,8 +59,10 @@ describe('npm-registry', () => {
     it('should call progress callback', async () => {
       const progressUpdates: Array<{ package: string; completed: number; total: number }> = []
 
-      await getAllPackageData([PACKAGE_NAME, PACKAGE_NAME], (pkg, completed, total) => {
-        progressUpdates.push({ package: pkg, completed, total })
+      await getAllPackageData([PACKAGE_NAME, PACKAGE_NAME], {
+        onProgress: (pkg, completed, total) => {
+          progressUpdates.push({ package: pkg, completed, total })
+        },
       })
 
       expect(progressUpdates.length).toBe(2)
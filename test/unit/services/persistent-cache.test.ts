@@ -87,6 +87,43 @@ describe('persistent-cache', () => {
     })
   })
 
+  describe('getStale', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should keep expired entries for offline use', () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+      persistentCache.set('stale-pkg', { latestVersion: '1.0.0', allVersions: ['1.0.0'] })
+      persistentCache.flush()
+
+      vi.setSystemTime(new Date('2026-01-03T00:00:00Z'))
+
+      expect(persistentCache.get('stale-pkg')).toBeNull()
+      expect(persistentCache.getStale('stale-pkg')).toMatchObject({
+        latestVersion: '1.0.0',
+        timestamp: new Date('2026-01-01T00:00:00Z').getTime(),
+      })
+    })
+
+    it('should keep publish times in fresh and stale entries', () => {
+      const publishedAt = {
+        '1.0.0': '2025-06-01T00:00:00.000Z',
+        '1.1.0': '2026-01-01T00:00:00.000Z',
+      }
+      persistentCache.set('timed-pkg', {
+        latestVersion: '1.1.0',
+        allVersions: ['1.1.0', '1.0.0'],
+        publishedAt,
+      })
+      persistentCache.flush()
+
+      expect(persistentCache.get('timed-pkg')?.publishedAt).toEqual(publishedAt)
+      expect(persistentCache.getStale('timed-pkg')?.publishedAt).toEqual(publishedAt)
+    })
+  })
+
   describe('getMany/setMany', () => {
     it('should batch get multiple packages', () => {
       persistentCache.set('pkg-a', { latestVersion: '1.0.0', allVersions: ['1.0.0'] })
@@ -138,6 +175,48 @@ describe('persistent-cache', () => {
       expect(stats.entries).toBe(2)
       expect(stats.cacheDir).toContain('registry')
     })
+
+    it('should report disk size and hit rate counters', () => {
+      persistentCache.set('stats-a', { latestVersion: '1.0.0', allVersions: ['1.0.0'] })
+      persistentCache.recordLookup(true)
+      persistentCache.recordLookup(true)
+      persistentCache.recordLookup(false)
+      persistentCache.flush()
+
+      const stats = persistentCache.getStats()
+
+      expect(stats.sizeBytes).toBeGreaterThan(0)
+      expect(stats).toMatchObject({ hits: 2, misses: 1, expired: 0 })
+    })
+  })
+
+  describe('delete/prune', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should delete single packages', () => {
+      persistentCache.set('@babel/core', { latestVersion: '1.0.0', allVersions: ['1.0.0'] })
+      persistentCache.set('lodash', { latestVersion: '1.0.0', allVersions: ['1.0.0'] })
+
+      expect(persistentCache.delete('@babel/core')).toBe(true)
+      expect(persistentCache.delete('@babel/core')).toBe(false)
+      expect(persistentCache.keys()).toEqual(['lodash'])
+      expect(existsSync(join(mockCacheDir, 'registry', 'babel__core.json'))).toBe(false)
+    })
+
+    it('should prune expired entries only', () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+      persistentCache.set('old-pkg', { latestVersion: '1.0.0', allVersions: ['1.0.0'] })
+
+      vi.setSystemTime(new Date('2026-01-03T00:00:00Z'))
+      persistentCache.set('new-pkg', { latestVersion: '1.0.0', allVersions: ['1.0.0'] })
+
+      expect(persistentCache.getStats().expired).toBe(1)
+      expect(persistentCache.prune()).toBe(1)
+      expect(persistentCache.keys()).toEqual(['new-pkg'])
+    })
   })
 
   describe('cache file naming', () => {
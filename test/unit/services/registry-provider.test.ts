@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+  FixtureRegistryProvider,
+  JsdelivrRegistryProvider,
+  NpmRegistryProvider,
+  OfflineRegistryProvider,
+  PrivateRegistryProvider,
+  createRegistryProvider,
+  isRegistrySelection,
+} from '../../../src/services/registry-provider'
+import { PackageDetector } from '../../../src/core/package-detector'
+
+describe('registry-provider', () => {
+  let testDir: string
+  let fixturePath: string
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-registry-test-'))
+    fixturePath = join(testDir, 'registry.json')
+    writeFileSync(
+      fixturePath,
+      JSON.stringify({
+        react: {
+          versions: ['18.2.0', '18.3.1', '19.0.0', '19.1.0-rc.1'],
+          'dist-tags': { latest: '19.0.0', next: '19.1.0-rc.1' },
+          description: 'React',
+          license: 'MIT',
+        },
+        typescript: {
+          versions: ['5.4.5', '5.6.2', '5.7.0-beta'],
+          'dist-tags': { latest: '5.6.2', beta: '5.7.0-beta' },
+        },
+      })
+    )
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  describe('FixtureRegistryProvider', () => {
+    it('should serve stable versions, dist-tags and metadata from the fixture', async () => {
+      const provider = new FixtureRegistryProvider(fixturePath)
+      const data = await provider.fetchVersions(['react', 'missing'])
+
+      expect(data.get('react')).toEqual({
+        latestVersion: '19.0.0',
+        allVersions: ['19.0.0', '18.3.1', '18.2.0'],
+        distTags: { latest: '19.0.0', next: '19.1.0-rc.1' },
+      })
+      expect(data.has('missing')).toBe(false)
+      expect(await provider.fetchDistTags('typescript')).toEqual({
+        latest: '5.6.2',
+        beta: '5.7.0-beta',
+      })
+      expect((await provider.fetchMetadata('react'))?.license).toBe('MIT')
+      expect(await provider.fetchMetadata('missing')).toBeNull()
+    })
+
+    it('should drive the package detector without network access', async () => {
+      writeFileSync(
+        join(testDir, 'package.json'),
+        JSON.stringify({
+          dependencies: { react: '^18.2.0' },
+          devDependencies: { typescript: '~5.4.0' },
+        })
+      )
+
+      const detector = new PackageDetector(
+        { cwd: testDir, channels: { typescript: 'beta' } },
+        new FixtureRegistryProvider(fixturePath)
+      )
+      const packages = await detector.getOutdatedPackages()
+      const react = packages.find((pkg) => pkg.name === 'react')
+      const typescript = packages.find((pkg) => pkg.name === 'typescript')
+
+      expect(react).toMatchObject({ rangeVersion: '18.3.1', latestVersion: '19.0.0' })
+      expect(typescript).toMatchObject({
+        rangeVersion: '5.7.0-beta',
+        latestVersion: '5.7.0-beta',
+        hasRangeUpdate: true,
+        channel: 'beta',
+      })
+    })
+  })
+
+  describe('fetchPackageFile()', () => {
+    const npmrc = {
+      registry: 'https://registry.npmjs.org',
+      scopes: { '@acme': 'https://npm.acme.dev' },
+      authTokens: {},
+    }
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should read files of public packages through jsDelivr', async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValue(new Response('# Changelog', { status: 200 }))
+
+      const provider = new JsdelivrRegistryProvider(new NpmRegistryProvider(npmrc))
+      expect(await provider.fetchPackageFile('react', '19.0.0', 'CHANGELOG.md')).toBe('# Changelog')
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://cdn.jsdelivr.net/npm/react@19.0.0/CHANGELOG.md',
+        expect.anything()
+      )
+    })
+
+    it('should not look up packages of private registries on the public CDN', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch')
+      const providers = [
+        new JsdelivrRegistryProvider(new NpmRegistryProvider(npmrc)),
+        new NpmRegistryProvider(npmrc),
+        new PrivateRegistryProvider('https://npm.acme.dev', npmrc),
+      ]
+
+      for (const provider of providers) {
+        expect(await provider.fetchPackageFile('@acme/ui', '1.0.0', 'CHANGELOG.md')).toBeNull()
+      }
+      expect(await providers[2].fetchPackageFile('react', '19.0.0', 'CHANGELOG.md')).toBeNull()
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createRegistryProvider()', () => {
+    it('should create the provider named by the selection', () => {
+      expect(createRegistryProvider(undefined, testDir)).toBeInstanceOf(JsdelivrRegistryProvider)
+      expect(createRegistryProvider('npm', testDir)).toBeInstanceOf(NpmRegistryProvider)
+      expect(createRegistryProvider('offline', testDir)).toBeInstanceOf(OfflineRegistryProvider)
+
+      const privateRegistry = createRegistryProvider('https://npm.acme.dev/', testDir)
+      expect(privateRegistry).toBeInstanceOf(PrivateRegistryProvider)
+      expect(privateRegistry.name).toBe('https://npm.acme.dev')
+
+      expect(createRegistryProvider('file:registry.json', testDir)).toBeInstanceOf(
+        FixtureRegistryProvider
+      )
+      expect(() => createRegistryProvider('file:missing.json', testDir)).toThrow(
+        'Registry fixture not found'
+      )
+    })
+
+    it('should validate selections', () => {
+      expect(isRegistrySelection('jsdelivr')).toBe(true)
+      expect(isRegistrySelection('offline')).toBe(true)
+      expect(isRegistrySelection('http://localhost:4873')).toBe(true)
+      expect(isRegistrySelection('file:fixtures/registry.json')).toBe(true)
+      expect(isRegistrySelection('yarn')).toBe(false)
+      expect(isRegistrySelection('file:')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { StateManager } from '../../../src/ui/state'
+import { PackageSelectionState } from '../../../src/types'
+
+describe('grouped selection', () => {
+  const state = (
+    name: string,
+    current: string,
+    range: string,
+    latest: string,
+    group?: string
+  ): PackageSelectionState => ({
+    name,
+    packageJsonPath: '/project/package.json',
+    currentVersionSpecifier: `^${current}`,
+    currentVersion: current,
+    rangeVersion: range,
+    latestVersion: latest,
+    selectedOption: 'none',
+    hasRangeUpdate: current !== range,
+    hasMajorUpdate: range !== latest,
+    type: 'devDependencies',
+    group,
+  })
+
+  const createStates = () => [
+    state('@babel/core', '7.22.0', '7.25.2', '7.25.2', 'babel'),
+    state('@babel/parser', '7.23.0', '7.25.3', '8.0.0', 'babel'),
+    state('lodash', '4.17.20', '4.17.21', '4.17.21'),
+  ]
+
+  it('should show a group as one row summarizing its members', () => {
+    const states = createStates()
+    const rows = new StateManager().getFilteredStates(states)
+
+    expect(rows.map((row) => row.name)).toEqual(['▸ babel (2)', 'lodash'])
+    expect(rows[0]).toMatchObject({
+      currentVersionSpecifier: '^7.22.0',
+      rangeVersion: '7.25.3',
+      latestVersion: '8.0.0',
+      hasRangeUpdate: true,
+      hasMajorUpdate: true,
+      type: 'devDependencies',
+    })
+  })
+
+  it('should apply the version selected on the group row to every member', () => {
+    const states = createStates()
+    const stateManager = new StateManager()
+
+    stateManager.updateSelection(stateManager.getFilteredStates(states), 'right')
+    expect(states.map((s) => s.selectedOption)).toEqual(['range', 'range', 'none'])
+
+    // Members without a major update take their newest version
+    stateManager.updateSelection(stateManager.getFilteredStates(states), 'right')
+    expect(states.map((s) => s.selectedOption)).toEqual(['range', 'latest', 'none'])
+    expect(stateManager.getFilteredStates(states)[0].selectedOption).toBe('latest')
+  })
+
+  it('should expand and collapse the members of a group', () => {
+    const states = createStates()
+    const stateManager = new StateManager()
+
+    stateManager.toggleGroup(stateManager.getFilteredStates(states))
+    const rows = stateManager.getFilteredStates(states)
+    expect(rows.map((row) => row.name)).toEqual([
+      '▾ babel (2)',
+      '@babel/core',
+      '@babel/parser',
+      'lodash',
+    ])
+
+    // Collapsing from a member moves back to the group row
+    stateManager.navigateDown(rows.length)
+    stateManager.navigateDown(rows.length)
+    stateManager.toggleGroup(rows)
+    expect(stateManager.getUIState().currentRow).toBe(0)
+    expect(stateManager.getFilteredStates(states)).toHaveLength(2)
+  })
+
+  it('should include the members of collapsed groups in bulk selections', () => {
+    const states = createStates()
+    const stateManager = new StateManager()
+
+    stateManager.bulkSelectLatest(stateManager.getFilteredStates(states))
+
+    expect(states.map((s) => s.selectedOption)).toEqual(['range', 'latest', 'range'])
+  })
+})
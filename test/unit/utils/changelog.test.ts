@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractVersion,
+  getReleaseTagVersion,
+  isBreakingChange,
+  parseChangelog,
+  selectReleaseNotes,
+} from '../../../src/utils/changelog'
+import { ChangelogFetcher } from '../../../src/services/changelog-fetcher'
+import { OfflineRegistryProvider } from '../../../src/services/registry-provider'
+
+const changelog = `# Changelog
+
+## Unreleased
+
+- Work in progress
+
+## [3.0.0] - 2024-06-01
+
+### BREAKING CHANGES
+
+- Drop Node 16
+
+## 2.1.0
+
+- feat!: rename the \`run\` option
+- fix: typo
+
+## v2.0.1 (2024-01-15)
+
+- Patch release
+`
+
+describe('changelog', () => {
+  describe('extractVersion()', () => {
+    it('should find the version of headings and tags', () => {
+      expect(extractVersion('[2.1.0] - 2024-05-01')).toBe('2.1.0')
+      expect(extractVersion('v3.0.0-beta.1')).toBe('3.0.0-beta.1')
+      expect(extractVersion('Release notes')).toBeNull()
+    })
+  })
+
+  describe('getReleaseTagVersion()', () => {
+    it('should skip the tags of other packages in a monorepo', () => {
+      expect(getReleaseTagVersion('@babel/parser@7.24.0', '@babel/parser')).toBe('7.24.0')
+      expect(getReleaseTagVersion('@babel/core@7.24.0', '@babel/parser')).toBeNull()
+      expect(getReleaseTagVersion('v1.2.3', 'left-pad')).toBe('1.2.3')
+    })
+  })
+
+  describe('parseChangelog()', () => {
+    it('should split the changelog into releases, keeping sub-sections in the body', () => {
+      const notes = parseChangelog(changelog)
+
+      expect(notes.map((note) => note.version)).toEqual(['3.0.0', '2.1.0', '2.0.1'])
+      expect(notes[0]).toEqual({
+        version: '3.0.0',
+        date: '2024-06-01',
+        body: '### BREAKING CHANGES\n\n- Drop Node 16',
+      })
+      expect(notes[2].date).toBe('2024-01-15')
+    })
+  })
+
+  describe('selectReleaseNotes()', () => {
+    it('should keep the versions after the installed one up to the target, newest first', () => {
+      const notes = parseChangelog(changelog)
+
+      expect(selectReleaseNotes(notes, '^2.0.1', '3.0.0').map((note) => note.version)).toEqual([
+        '3.0.0',
+        '2.1.0',
+      ])
+      expect(selectReleaseNotes(notes, '2.0.0', '2.1.0').map((note) => note.version)).toEqual([
+        '2.1.0',
+        '2.0.1',
+      ])
+      expect(selectReleaseNotes(notes, 'latest', '3.0.0')).toEqual([])
+    })
+  })
+
+  describe('isBreakingChange()', () => {
+    it('should spot breaking change sections and marked commits', () => {
+      expect(isBreakingChange('### BREAKING CHANGES')).toBe(true)
+      expect(isBreakingChange('- feat!: rename the `run` option')).toBe(true)
+      expect(isBreakingChange('* **api(core)!: drop callbacks**')).toBe(true)
+      expect(isBreakingChange('- fix: typo')).toBe(false)
+    })
+  })
+
+  describe('ChangelogFetcher.fetchReleaseNotes()', () => {
+    it('should not fetch release notes with the offline registry', async () => {
+      const fetcher = new ChangelogFetcher(new OfflineRegistryProvider())
+
+      expect(await fetcher.fetchReleaseNotes('react', '18.2.0', '19.0.0')).toEqual([])
+    })
+  })
+})
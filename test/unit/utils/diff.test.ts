@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { createUnifiedDiff } from '../../../src/utils/diff'
+
+const lines = (...values: string[]): string => values.join('\n') + '\n'
+
+describe('diff', () => {
+  describe('createUnifiedDiff()', () => {
+    it('should return an empty string for identical texts', () => {
+      const text = lines('a', 'b')
+      expect(createUnifiedDiff(text, text, { oldPath: 'package.json' })).toBe('')
+    })
+
+    it('should create a git-compatible hunk with context lines', () => {
+      const oldText = lines('{', '  "dependencies": {', '    "chalk": "^4.1.0"', '  }', '}')
+      const newText = lines('{', '  "dependencies": {', '    "chalk": "^5.6.2"', '  }', '}')
+
+      expect(createUnifiedDiff(oldText, newText, { oldPath: 'package.json', context: 1 })).toBe(
+        lines(
+          '--- a/package.json',
+          '+++ b/package.json',
+          '@@ -2,3 +2,3 @@',
+          '   "dependencies": {',
+          '-    "chalk": "^4.1.0"',
+          '+    "chalk": "^5.6.2"',
+          '   }'
+        )
+      )
+    })
+
+    it('should split distant changes into separate hunks', () => {
+      const oldText = lines('a', 'b', 'c', 'd', 'e', 'f', 'g', 'h')
+      const newText = lines('A', 'b', 'c', 'd', 'e', 'f', 'g', 'H')
+
+      const patch = createUnifiedDiff(oldText, newText, { oldPath: 'x', context: 1 })
+
+      expect(patch.match(/^@@/gm)).toHaveLength(2)
+      expect(patch).toContain('@@ -1,2 +1,2 @@')
+      expect(patch).toContain('@@ -7,2 +7,2 @@')
+    })
+
+    it('should mark a missing newline at end of file', () => {
+      const patch = createUnifiedDiff('a\nb', 'a\nb\n', { oldPath: 'x' })
+
+      expect(patch).toBe(
+        lines(
+          '--- a/x',
+          '+++ b/x',
+          '@@ -1,2 +1,2 @@',
+          ' a',
+          '-b',
+          '\\ No newline at end of file',
+          '+b'
+        )
+      )
+    })
+  })
+})
@@ -225,6 +225,27 @@ describe('filesystem utils', () => {
 
       expect(result).toHaveLength(2)
     })
+
+    it('should collect version overrides after the dependencies', async () => {
+      const path = join(testDir, 'package.json')
+      writeFileSync(
+        path,
+        JSON.stringify({
+          dependencies: { chalk: '^5.0.0' },
+          overrides: { 'strip-ansi': '7.1.0' },
+          resolutions: { '**/ansi-regex': '6.0.1' },
+        })
+      )
+
+      const result = await collectAllDependenciesAsync([path])
+
+      expect(result.map(d => [d.name, d.type])).toEqual([
+        ['chalk', 'dependencies'],
+        ['strip-ansi', 'overrides'],
+        ['ansi-regex', 'overrides'],
+      ])
+      expect(result[2].overridePath).toEqual(['resolutions', '**/ansi-regex'])
+    })
   })
 
   describe('findAllPackageJsonFiles()', () => {
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { commitPaths, getChangedPaths, runGit } from '../../../src/utils/git'
+
+describe('git utils', () => {
+  let testDir: string
+  let packageJsonPath: string
+  let otherPath: string
+
+  const commitCount = () => Number(runGit(['rev-list', '--count', 'HEAD'], testDir).trim())
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'inup-git-test-'))
+    packageJsonPath = join(testDir, 'package.json')
+    otherPath = join(testDir, 'index.js')
+    writeFileSync(packageJsonPath, '{}\n')
+    writeFileSync(otherPath, '\n')
+    writeFileSync(join(testDir, '.gitignore'), 'ignored.lock\n')
+
+    runGit(['init', '--quiet'], testDir)
+    runGit(['config', 'user.name', 'inup'], testDir)
+    runGit(['config', 'user.email', 'inup@example.com'], testDir)
+    runGit(['add', '.'], testDir)
+    runGit(['commit', '--quiet', '-m', 'initial'], testDir)
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  describe('commitPaths()', () => {
+    it('should commit only the given paths, leaving other staged changes alone', () => {
+      writeFileSync(packageJsonPath, '{"dependencies":{}}\n')
+      writeFileSync(otherPath, 'staged\n')
+      runGit(['add', otherPath], testDir)
+
+      expect(commitPaths([packageJsonPath], 'chore(deps): bump', testDir)).toBe(true)
+
+      expect(runGit(['log', '-1', '--format=%s'], testDir).trim()).toBe('chore(deps): bump')
+      expect(runGit(['show', '--name-only', '--format=', 'HEAD'], testDir).trim()).toBe(
+        'package.json'
+      )
+      expect(getChangedPaths([otherPath], testDir)).toEqual(['index.js'])
+    })
+
+    it('should not commit when none of the paths changed', () => {
+      expect(commitPaths([packageJsonPath], 'chore(deps): bump', testDir)).toBe(false)
+      expect(commitCount()).toBe(1)
+    })
+
+    it('should not commit the whole index when every path is missing or ignored', () => {
+      writeFileSync(join(testDir, 'ignored.lock'), 'lock\n')
+      writeFileSync(otherPath, 'staged\n')
+      runGit(['add', otherPath], testDir)
+
+      const paths = [join(testDir, 'missing.json'), join(testDir, 'ignored.lock')]
+      expect(commitPaths(paths, 'chore(deps): bump', testDir)).toBe(false)
+
+      expect(commitCount()).toBe(1)
+      expect(getChangedPaths([otherPath], testDir)).toEqual(['index.js'])
+    })
+  })
+})
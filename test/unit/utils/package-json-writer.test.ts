@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { detectJsonFormat, updateJsonStringValues } from '../../../src/utils/package-json-writer'
+
+describe('package-json-writer', () => {
+  describe('detectJsonFormat()', () => {
+    it('should detect tabs, CRLF and a missing final newline', () => {
+      expect(detectJsonFormat('{\r\n\t"name": "demo"\r\n}')).toEqual({
+        indent: '\t',
+        eol: '\r\n',
+        finalNewline: false,
+      })
+    })
+
+    it('should detect 4-space indentation with a final newline', () => {
+      expect(detectJsonFormat('{\n    "a": {\n        "b": "c"\n    }\n}\n')).toEqual({
+        indent: '    ',
+        eol: '\n',
+        finalNewline: true,
+      })
+    })
+  })
+
+  describe('updateJsonStringValues()', () => {
+    it('should only replace the version strings', () => {
+      const content =
+        '{\r\n\t"name": "demo",\r\n\t"dependencies": {"chalk":"^4.1.0",  "semver": "~7.0.0"},\r\n\t"devDependencies": {\r\n\t\t"chalk": "^4.1.0"\r\n\t}\r\n}'
+
+      const updated = updateJsonStringValues(content, [
+        { path: ['dependencies', 'chalk'], value: '^5.6.2' },
+        { path: ['dependencies', 'semver'], value: '~7.7.3' },
+      ])
+
+      expect(updated).toBe(
+        '{\r\n\t"name": "demo",\r\n\t"dependencies": {"chalk":"^5.6.2",  "semver": "~7.7.3"},\r\n\t"devDependencies": {\r\n\t\t"chalk": "^4.1.0"\r\n\t}\r\n}'
+      )
+    })
+
+    it('should handle escaped characters in keys and values', () => {
+      const content =
+        '{\n  "dependencies": {\n    "a\\"b": "1.0.0",\n    "c": "npm:x@\\u0031"\n  }\n}\n'
+
+      const updated = updateJsonStringValues(content, [
+        { path: ['dependencies', 'a"b'], value: '2.0.0' },
+        { path: ['dependencies', 'c'], value: 'npm:x@2' },
+      ])
+
+      expect(JSON.parse(updated).dependencies).toEqual({ 'a"b': '2.0.0', c: 'npm:x@2' })
+      expect(updated.startsWith('{\n  "dependencies": {\n    "a\\"b": "2.0.0",')).toBe(true)
+    })
+
+    it('should re-serialize in the detected format when a key is missing', () => {
+      const content = '{\r\n    "name": "demo"\r\n}'
+
+      const updated = updateJsonStringValues(content, [
+        { path: ['dependencies', 'chalk'], value: '^5.6.2' },
+      ])
+
+      expect(updated).toBe(
+        '{\r\n    "name": "demo",\r\n    "dependencies": {\r\n        "chalk": "^5.6.2"\r\n    }\r\n}'
+      )
+    })
+  })
+})
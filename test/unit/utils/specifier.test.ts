@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { rewriteSpecifier } from '../../../src/utils/specifier'
+
+describe('rewriteSpecifier()', () => {
+  it('should keep the prefix of simple specifiers', () => {
+    expect(rewriteSpecifier('^1.2.3', '1.4.0')).toBe('^1.4.0')
+    expect(rewriteSpecifier('~1.2.3', '1.2.9')).toBe('~1.2.9')
+    expect(rewriteSpecifier('>=1.2.0', '2.0.0')).toBe('>=2.0.0')
+    expect(rewriteSpecifier('1.2.3', '2.0.0')).toBe('2.0.0')
+    expect(rewriteSpecifier('npm:string-width@^4.2.0', '5.1.2')).toBe('npm:string-width@^5.1.2')
+  })
+
+  it('should turn strict bounds around the target so the range still allows it', () => {
+    expect(rewriteSpecifier('>1.0.0', '2.0.0')).toBe('>=2.0.0')
+    expect(rewriteSpecifier('<1.5.0', '2.0.0')).toBe('<2.1.0')
+    expect(rewriteSpecifier('<2', '2.1.0')).toBe('<3')
+    expect(rewriteSpecifier('>1', '2.1.0')).toBe('>=2')
+    expect(rewriteSpecifier('<=1.0.0', '2.0.0')).toBe('<=2.0.0')
+    expect(rewriteSpecifier('v1.0.0', '2.0.0')).toBe('2.0.0')
+  })
+
+  it('should keep the precision of partial versions and X-ranges', () => {
+    expect(rewriteSpecifier('1.x', '2.3.0')).toBe('2.x')
+    expect(rewriteSpecifier('1.2.x', '1.4.1')).toBe('1.4.x')
+    expect(rewriteSpecifier('^1.2', '1.4.5')).toBe('^1.4')
+    expect(rewriteSpecifier('*', '2.0.0')).toBe('*')
+  })
+
+  it('should raise the lower bound of comparator sets and move the upper one past the target', () => {
+    expect(rewriteSpecifier('>=1.2 <2', '1.4.0')).toBe('>=1.4 <2')
+    expect(rewriteSpecifier('>=1.2 <2', '2.1.0')).toBe('>=2.1 <3')
+    expect(rewriteSpecifier('>=1.0.0 <1.5.0', '1.7.2')).toBe('>=1.7.2 <1.8.0')
+    expect(rewriteSpecifier('1.2 - 2', '3.1.0')).toBe('1.2 - 3')
+  })
+
+  it('should add an alternative to unions that do not allow the target', () => {
+    expect(rewriteSpecifier('^1 || ^2', '3.1.0')).toBe('^1 || ^2 || ^3')
+    expect(rewriteSpecifier('^1 || ^2', '2.5.0')).toBe('^1 || ^2')
+  })
+
+  it('should replace the specifier with the caret, tilde and exact strategies', () => {
+    expect(rewriteSpecifier('>=1.2 <2', '2.1.0', 'caret')).toBe('^2.1.0')
+    expect(rewriteSpecifier('1.x', '2.1.0', 'tilde')).toBe('~2.1.0')
+    expect(rewriteSpecifier('^1.2.3', '1.4.0', 'exact')).toBe('1.4.0')
+    expect(rewriteSpecifier('npm:foo@^1.0.0', '2.0.0', 'exact')).toBe('npm:foo@2.0.0')
+  })
+})
@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest'
-import { isVersionOutdated, getOptimizedRangeVersion, findClosestMinorVersion } from '../../../src/utils/version'
+import {
+  isVersionOutdated,
+  getOptimizedRangeVersion,
+  findClosestMinorVersion,
+  getChannelUpdate,
+} from '../../../src/utils/version'
 
 describe('version utils', () => {
   describe('isVersionOutdated()', () => {
@@ -133,4 +138,21 @@ describe('version utils', () => {
       expect(result).toBe('1.2.0')
     })
   })
+
+  describe('getChannelUpdate()', () => {
+    it('should compare pre-releases of the same version', () => {
+      expect(getChannelUpdate('5.6.0-beta.1', '5.6.0-beta.2')).toBe('range')
+      expect(getChannelUpdate('^5.6.0-beta.2', '5.6.0-beta.2')).toBeNull()
+      expect(getChannelUpdate('5.6.0', '5.6.0-rc.1')).toBeNull()
+    })
+
+    it('should report a new major published on the channel', () => {
+      expect(getChannelUpdate('^5.6.2', '6.0.0-dev.20250101')).toBe('major')
+      expect(getChannelUpdate('5.6.2', '5.7.0-dev.20250101')).toBe('range')
+    })
+
+    it('should ignore invalid channel versions', () => {
+      expect(getChannelUpdate('1.0.0', 'unknown')).toBeNull()
+    })
+  })
 })
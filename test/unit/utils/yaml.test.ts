@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import { parseYaml, updateYamlValues } from '../../../src/utils/yaml'
+
+describe('yaml', () => {
+  describe('parseYaml()', () => {
+    it('should parse nested mappings with quoted keys and comments', () => {
+      const yaml = [
+        "lockfileVersion: '9.0'",
+        '',
+        '# comment',
+        'importers:',
+        '  .:',
+        '    dependencies:',
+        "      '@babel/core':",
+        '        specifier: ^7.0.0 # trailing comment',
+        '        version: 7.24.0(supports-color@8.1.1)',
+      ].join('\n')
+
+      expect(parseYaml(yaml)).toEqual({
+        lockfileVersion: '9.0',
+        importers: {
+          '.': {
+            dependencies: {
+              '@babel/core': { specifier: '^7.0.0', version: '7.24.0(supports-color@8.1.1)' },
+            },
+          },
+        },
+      })
+    })
+
+    it('should keep plain scalars as strings', () => {
+      expect(parseYaml('a: 1.10\nb: true\nc: ~\nd: "x: y"')).toEqual({
+        a: '1.10',
+        b: true,
+        c: null,
+        d: 'x: y',
+      })
+    })
+
+    it('should parse sequences, including ones aligned with their key', () => {
+      const yaml = [
+        'packages:',
+        "- 'packages/*'",
+        '- apps/*',
+        'list:',
+        '  - name: a',
+        '    value: b',
+      ].join('\n')
+
+      expect(parseYaml(yaml)).toEqual({
+        packages: ['packages/*', 'apps/*'],
+        list: [{ name: 'a', value: 'b' }],
+      })
+    })
+
+    it('should parse flow collections and block scalars', () => {
+      const yaml = [
+        'resolution: {integrity: sha512-abc==, tarball: "https://x/y.tgz"}',
+        'cpu: [x64, arm64]',
+        'empty: {}',
+        'text: |',
+        '  line 1',
+        '  line 2',
+        'after: ok',
+      ].join('\r\n')
+
+      expect(parseYaml(yaml)).toEqual({
+        resolution: { integrity: 'sha512-abc==', tarball: 'https://x/y.tgz' },
+        cpu: ['x64', 'arm64'],
+        empty: {},
+        text: 'line 1\nline 2\n',
+        after: 'ok',
+      })
+    })
+  })
+
+  describe('updateYamlValues()', () => {
+    it('should replace values in place, quoting them when needed', () => {
+      const yaml = [
+        'catalog:',
+        '  react: ^18.2.0 # pinned for the app',
+        '  "@types/react": "18.2.0"',
+        '  zod: ^3.22.0',
+        'other:',
+        '  react: ^18.2.0',
+      ].join('\r\n')
+
+      const updated = updateYamlValues(yaml, [
+        { path: ['catalog', 'react'], value: '^18.3.1' },
+        { path: ['catalog', '@types/react'], value: '18.3.0' },
+        { path: ['catalog', 'zod'], value: '>=3.22.0 <5' },
+        { path: ['catalog', 'missing'], value: '1.0.0' },
+      ])
+
+      expect(updated).toBe(
+        [
+          'catalog:',
+          '  react: ^18.3.1 # pinned for the app',
+          '  "@types/react": "18.3.0"',
+          "  zod: '>=3.22.0 <5'",
+          'other:',
+          '  react: ^18.2.0',
+        ].join('\r\n')
+      )
+    })
+
+    it('should replace values inside flow mappings', () => {
+      const yaml = [
+        'catalogs:',
+        "  legacy: { lodash: ^4.17.0, 'react': '17.0.0', nested: { zod: ^3.0.0 }, tags: [a] }",
+        '  list: [^1.0.0]',
+      ].join('\n')
+
+      const updated = updateYamlValues(yaml, [
+        { path: ['catalogs', 'legacy', 'lodash'], value: '^4.17.21' },
+        { path: ['catalogs', 'legacy', 'react'], value: '17.0.2' },
+        { path: ['catalogs', 'legacy', 'nested', 'zod'], value: '>=3.0.0, <5' },
+        { path: ['catalogs', 'legacy', 'tags', '0'], value: 'b' },
+        { path: ['catalogs', 'list', '0'], value: '^2.0.0' },
+      ])
+
+      expect(updated).toBe(
+        [
+          'catalogs:',
+          "  legacy: { lodash: ^4.17.21, 'react': '17.0.2', nested: { zod: '>=3.0.0, <5' }, tags: [a] }",
+          '  list: [^1.0.0]',
+        ].join('\n')
+      )
+      expect(parseYaml(updated)).toEqual({
+        catalogs: {
+          legacy: {
+            lodash: '^4.17.21',
+            react: '17.0.2',
+            nested: { zod: '>=3.0.0, <5' },
+            tags: ['a'],
+          },
+          list: ['^1.0.0'],
+        },
+      })
+    })
+  })
+})